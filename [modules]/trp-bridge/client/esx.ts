@@ -0,0 +1,98 @@
+import type { NotifyOptions } from "../../trp-core/shared/notify";
+import {
+	EsxEvents,
+	type EsxAccount,
+	type EsxJob,
+	type EsxPlayerData,
+} from "../shared/esx";
+import { FRAMEWORK_CONVAR, provideExport } from "../shared/framework";
+
+/*
+ * Shim de ESX Legacy (cliente): ESX.PlayerData al día con los eventos del
+ * server, notificaciones de trp-core y callbacks de server. Solo con
+ * framework "esx" (convar replicada por el server).
+ */
+
+type ResultHandler = (...results: unknown[]) => void;
+
+let playerData: Partial<EsxPlayerData> = {};
+let playerLoaded = false;
+let nextRequestId = 0;
+const pending = new Map<number, ResultHandler>();
+
+const NOTIFY_TYPES: Record<string, NotifyOptions["type"]> = {
+	success: "success",
+	error: "error",
+	info: "info",
+	warning: "warning",
+};
+
+function createEsxObject() {
+	return {
+		PlayerData: playerData,
+		PlayerLoaded: playerLoaded,
+		GetPlayerData: () => playerData,
+		IsPlayerLoaded: () => playerLoaded,
+		SetPlayerData: (key: keyof EsxPlayerData, value: unknown) => {
+			playerData = { ...playerData, [key]: value };
+		},
+		ShowNotification: (message: string, type = "info", length = 5000) =>
+			exports["trp-core"].notify({
+				type: NOTIFY_TYPES[type] ?? "info",
+				message,
+				duration: length,
+			} satisfies NotifyOptions),
+		TriggerServerCallback: (
+			name: string,
+			cb: ResultHandler,
+			...args: unknown[]
+		) => {
+			const requestId = nextRequestId++;
+			pending.set(requestId, cb);
+			emitNet(EsxEvents.triggerServerCallback, name, requestId, ...args);
+		},
+	};
+}
+
+function startEsx(): void {
+	onNet(EsxEvents.playerLoaded, (data: EsxPlayerData) => {
+		playerData = data;
+		playerLoaded = true;
+	});
+
+	onNet(EsxEvents.onPlayerLogout, () => {
+		playerData = {};
+		playerLoaded = false;
+	});
+
+	onNet(EsxEvents.setAccountMoney, (account: EsxAccount) => {
+		const accounts = (playerData.accounts ?? []).filter(
+			(a) => a.name !== account.name,
+		);
+		playerData = {
+			...playerData,
+			accounts: [...accounts, account].sort((a, b) => a.index - b.index),
+			money: account.name === "money" ? account.money : playerData.money,
+		};
+	});
+
+	onNet(EsxEvents.setJob, (job: EsxJob) => {
+		playerData = { ...playerData, job };
+	});
+
+	onNet(
+		EsxEvents.serverCallback,
+		(requestId: number, ...results: unknown[]) => {
+			const cb = pending.get(requestId);
+			pending.delete(requestId);
+			cb?.(...results);
+		},
+	);
+
+	provideExport("es_extended", "getSharedObject", () => createEsxObject());
+	on(EsxEvents.getSharedObject, (cb: (esx: unknown) => void) =>
+		cb(createEsxObject()),
+	);
+}
+
+if (GetConvar(FRAMEWORK_CONVAR, "esx") === "esx") startEsx();
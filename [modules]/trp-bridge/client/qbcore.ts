@@ -0,0 +1,69 @@
+import type { NotifyOptions } from "../../trp-core/shared/notify";
+import { FRAMEWORK_CONVAR, provideExport } from "../shared/framework";
+import { QbEvents, type QbPlayerData } from "../shared/qbcore";
+
+/*
+ * Shim de QBCore (cliente): QBCore.PlayerData al día con
+ * QBCore:Player:SetPlayerData, notificaciones de trp-core y callbacks de
+ * server. Solo con framework "qbcore" (convar replicada por el server).
+ */
+
+type ResultHandler = (...results: unknown[]) => void;
+
+let playerData: Partial<QbPlayerData> = {};
+// Como en QBCore: un callback pendiente por nombre
+const pending = new Map<string, ResultHandler>();
+
+const NOTIFY_TYPES: Record<string, NotifyOptions["type"]> = {
+	primary: "info",
+	success: "success",
+	error: "error",
+	warning: "warning",
+};
+
+function createQbObject() {
+	return {
+		PlayerData: playerData,
+		Functions: {
+			GetPlayerData: (cb?: (data: Partial<QbPlayerData>) => void) => {
+				if (!cb) return playerData;
+				cb(playerData);
+			},
+			Notify: (text: string, type = "primary", length = 5000) =>
+				exports["trp-core"].notify({
+					type: NOTIFY_TYPES[type] ?? "info",
+					message: text,
+					duration: length,
+				} satisfies NotifyOptions),
+			TriggerCallback: (
+				name: string,
+				cb: ResultHandler,
+				...args: unknown[]
+			) => {
+				pending.set(name, cb);
+				emitNet(QbEvents.triggerCallback, name, ...args);
+			},
+		},
+	};
+}
+
+function startQbCore(): void {
+	onNet(QbEvents.setPlayerData, (data: QbPlayerData) => {
+		playerData = data;
+	});
+
+	onNet(QbEvents.clientPlayerUnload, () => {
+		playerData = {};
+	});
+
+	onNet(QbEvents.clientCallback, (name: string, ...results: unknown[]) => {
+		const cb = pending.get(name);
+		pending.delete(name);
+		cb?.(...results);
+	});
+
+	provideExport("qb-core", "GetCoreObject", () => createQbObject());
+	on(QbEvents.getObject, (cb: (qb: unknown) => void) => cb(createQbObject()));
+}
+
+if (GetConvar(FRAMEWORK_CONVAR, "esx") === "qbcore") startQbCore();
@@ -6,19 +6,24 @@ description "Roleplay Javascript Framework Bridge for ESX/QBCore"
 version "1.0.0"
 
 dependencies {
-    "rpjs-core"
+    "trp-core"
 }
 
-client_script {
-    "client/**/*.js"
+-- Los scripts que declaran dependency "es_extended" o "qb-core" arrancan con
+-- el bridge; solo responde el framework de modules.trp-bridge.framework
+provide "es_extended"
+provide "qb-core"
+
+shared_script {
+    "dist/shared/**/*.js"
 }
 
-server_script {
-    "server/**/*.js"
+client_script {
+    "dist/client/**/*.js"
 }
 
-shared_script {
-    "shared/**/*.js"
+server_script {
+    "dist/server/**/*.js"
 }
 
 node_version "22"
@@ -0,0 +1,19 @@
+-- trp-bridge: dinero y trabajo de cada personaje (ver server/players.ts).
+-- Sin FOREIGN KEY a `characters`: las migraciones de trp-core pueden no haber
+-- corrido todavía cuando arranca el bridge.
+CREATE TABLE IF NOT EXISTS `bridge_accounts` (
+	`character_id` INT NOT NULL,
+	`account` VARCHAR(32) NOT NULL,
+	`amount` BIGINT NOT NULL DEFAULT 0,
+	`updated_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+	PRIMARY KEY (`character_id`, `account`)
+);
+
+CREATE TABLE IF NOT EXISTS `bridge_jobs` (
+	`character_id` INT NOT NULL,
+	`job` VARCHAR(32) NOT NULL,
+	`grade` INT NOT NULL DEFAULT 0,
+	`on_duty` BOOLEAN NOT NULL DEFAULT TRUE,
+	`updated_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+	PRIMARY KEY (`character_id`)
+);
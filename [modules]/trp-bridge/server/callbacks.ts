@@ -0,0 +1,42 @@
+/*
+ * Callbacks de server (ESX.RegisterServerCallback, QBCore.Functions.
+ * CreateCallback): el cliente pide por nombre y el server responde con un
+ * evento de red. Los dos frameworks usan la misma firma de handler; cambian
+ * los eventos (commands/bridge.ts).
+ */
+
+export type ServerCallback = (
+	source: number,
+	respond: (...results: unknown[]) => void,
+	...args: unknown[]
+) => void;
+
+const CALLBACKS_KEY = Symbol.for("__TRP_BRIDGE_CALLBACKS__");
+
+const callbacks: Map<string, ServerCallback> =
+	// eslint-disable-next-line @typescript-eslint/no-explicit-any
+	((globalThis as any)[CALLBACKS_KEY] as Map<string, ServerCallback>) ??
+	new Map();
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+(globalThis as any)[CALLBACKS_KEY] = callbacks;
+
+export function registerCallback(name: string, handler: ServerCallback): void {
+	callbacks.set(name, handler);
+}
+
+/** Llama al callback `name`; false si nadie lo registró. */
+export function runCallback(
+	name: string,
+	source: number,
+	respond: (...results: unknown[]) => void,
+	args: unknown[],
+): boolean {
+	const handler = callbacks.get(name);
+	if (!handler) return false;
+	try {
+		handler(source, respond, ...args);
+	} catch (err) {
+		console.error(`[trp-bridge] callback ${name}:`, err);
+	}
+	return true;
+}
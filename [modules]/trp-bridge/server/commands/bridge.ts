@@ -0,0 +1,110 @@
+import { EsxEvents } from "../../shared/esx";
+import {
+	CoreEvents,
+	FRAMEWORK_CONVAR,
+	provideExport,
+} from "../../shared/framework";
+import { QbEvents } from "../../shared/qbcore";
+import { runCallback } from "../callbacks";
+import { getBridgeConfig } from "../config";
+import { createEsxObject, esxAdapter } from "../esx";
+import {
+	forgetCharacter,
+	getBridgePlayers,
+	loadPlayer,
+	setAdapter,
+	unloadPlayer,
+} from "../players";
+import { createQbObject, qbAdapter } from "../qbcore";
+
+const { framework } = getBridgeConfig();
+
+// El cliente activa el mismo shim (client/esx.ts, client/qbcore.ts)
+SetConvarReplicated(FRAMEWORK_CONVAR, framework);
+
+/* ------------------------------ Eventos de trp-core ------------------------------ */
+
+on(CoreEvents.characterLoaded, async (source: number, characterId: number) => {
+	try {
+		await loadPlayer(Number(source), Number(characterId));
+	} catch (err) {
+		console.error(
+			`[trp-bridge] no se pudo cargar el personaje ${characterId} de ${source}:`,
+			err,
+		);
+	}
+});
+
+on(
+	CoreEvents.playerDropped,
+	(source: number, _playerId: number, reason: string) => {
+		unloadPlayer(Number(source), reason);
+	},
+);
+
+on(CoreEvents.characterDeleted, (_playerId: number, characterId: number) => {
+	forgetCharacter(Number(characterId));
+});
+
+/* -------------------------------- Shim activo -------------------------------- */
+
+if (framework === "esx") {
+	setAdapter(esxAdapter);
+	// ESX Legacy: exports["es_extended"]:getSharedObject()
+	provideExport("es_extended", "getSharedObject", () => createEsxObject());
+	on(EsxEvents.getSharedObject, (cb: (esx: unknown) => void) =>
+		cb(createEsxObject()),
+	);
+	onNet(
+		EsxEvents.triggerServerCallback,
+		(name: string, requestId: number, ...args: unknown[]) => {
+			const player = Number(source);
+			const found = runCallback(
+				name,
+				player,
+				(...results) =>
+					emitNet(EsxEvents.serverCallback, player, requestId, ...results),
+				args,
+			);
+			if (!found) {
+				console.warn(`[trp-bridge] callback de ESX sin registrar: ${name}`);
+			}
+		},
+	);
+} else {
+	setAdapter(qbAdapter);
+	// QBCore: exports["qb-core"]:GetCoreObject()
+	provideExport("qb-core", "GetCoreObject", () => createQbObject());
+	on(QbEvents.getObject, (cb: (qb: unknown) => void) => cb(createQbObject()));
+	onNet(QbEvents.triggerCallback, (name: string, ...args: unknown[]) => {
+		const player = Number(source);
+		const found = runCallback(
+			name,
+			player,
+			(...results) =>
+				emitNet(QbEvents.clientCallback, player, name, ...results),
+			args,
+		);
+		if (!found) {
+			console.warn(`[trp-bridge] callback de QBCore sin registrar: ${name}`);
+		}
+	});
+}
+
+// trp:bridge:players → jugadores cargados con su dinero y trabajo
+RegisterCommand(
+	"trp:bridge:players",
+	() => {
+		const players = getBridgePlayers();
+		if (players.length === 0) {
+			console.log("[trp-bridge] no hay personajes cargados");
+			return;
+		}
+		for (const p of players) {
+			console.log(
+				`[trp-bridge] ${p.source} ${p.character.firstName} ${p.character.lastName} (personaje ${p.character.id}) ${p.job.name}/${p.job.grade} ${JSON.stringify(p.accounts)}`,
+			);
+		}
+	},
+	true,
+);
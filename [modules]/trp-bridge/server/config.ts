@@ -0,0 +1,48 @@
+import { z } from "zod";
+import { configFor, registerConfigSchema } from "@trp/config";
+
+const JobGradeSchema = z.object({
+	name: z.string(),
+	label: z.string(),
+	// Por pago (ESX salary, QBCore payment); el bridge no paga nóminas
+	salary: z.number().int().nonnegative().default(0),
+	boss: z.boolean().default(false),
+});
+
+const JobSchema = z.object({
+	label: z.string(),
+	// Servicio al cargar el personaje (QBCore onduty)
+	defaultDuty: z.boolean().default(true),
+	// El índice es el grado (0, 1, 2...)
+	grades: z.array(JobGradeSchema).min(1),
+});
+
+export const BridgeConfigSchema = z.object({
+	// Framework que se emula; cambiarlo requiere reiniciar trp-bridge
+	framework: z.enum(["esx", "qbcore"]).default("esx"),
+	// Dinero de un personaje nuevo por cuenta (cash, bank, black_money, crypto...)
+	startingMoney: z
+		.record(z.number().int().nonnegative())
+		.default({ cash: 500, bank: 5000 }),
+	// Trabajo de un personaje nuevo (y de quien tenga uno que ya no existe)
+	defaultJob: z.string().default("unemployed"),
+	jobs: z.record(JobSchema).default({
+		unemployed: {
+			label: "Desempleado",
+			defaultDuty: true,
+			grades: [
+				{ name: "unemployed", label: "Desempleado", salary: 0, boss: false },
+			],
+		},
+	}),
+});
+
+export type BridgeConfig = z.infer<typeof BridgeConfigSchema>;
+export type Framework = BridgeConfig["framework"];
+export type JobConfig = z.infer<typeof JobSchema>;
+
+registerConfigSchema("modules.trp-bridge", BridgeConfigSchema);
+
+export function getBridgeConfig(): BridgeConfig {
+	return configFor("trp-bridge", BridgeConfigSchema);
+}
@@ -0,0 +1,22 @@
+import type { Character } from "../../trp-core/shared/characters";
+import type { NotifyOptions } from "../../trp-core/shared/notify";
+import type { PlayerSession } from "../../trp-core/server/sessions";
+
+/*
+ * Exports de trp-core que usa el bridge (server/commands/*.ts de trp-core).
+ * Solo se importan tipos: en ejecución todo pasa por exports["trp-core"].
+ */
+
+export interface CoreExports {
+	getPlayer(source: number): PlayerSession | undefined;
+	getCharacterId(source: number): number | undefined;
+	listCharacters(playerId: number): Promise<Character[]>;
+	can(source: number, permission: string): Promise<boolean>;
+	notify(source: number, options: NotifyOptions): string;
+}
+
+export type { Character, NotifyOptions, PlayerSession };
+
+export function core(): CoreExports {
+	return exports["trp-core"] as unknown as CoreExports;
+}
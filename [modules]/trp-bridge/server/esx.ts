@@ -0,0 +1,227 @@
+import {
+	EsxEvents,
+	type EsxAccount,
+	type EsxJob,
+	type EsxPlayerData,
+} from "../shared/esx";
+import { ESX_ACCOUNT_NAMES, FRAMEWORK_ACCOUNTS } from "../shared/framework";
+import { registerCallback, type ServerCallback } from "./callbacks";
+import { core, type NotifyOptions } from "./core";
+import {
+	addMoney,
+	getBridgePlayer,
+	getBridgePlayers,
+	getJobs,
+	getMoney,
+	jobExists,
+	removeMoney,
+	setJob,
+	setMoney,
+	type BridgeJob,
+	type BridgePlayer,
+	type FrameworkAdapter,
+} from "./players";
+
+/*
+ * Shim de ESX Legacy (server): el objeto ESX y xPlayer sobre los jugadores
+ * del bridge. Las cuentas de ESX se llaman como las del bridge salvo
+ * "money", que es "cash". Lo que no está aquí no existe: ver README.md.
+ */
+
+const ACCOUNT_LABELS: Record<string, string> = {
+	money: "Efectivo",
+	bank: "Banco",
+	black_money: "Dinero negro",
+};
+
+/** Nombre de ESX → cuenta del bridge. */
+function bridgeAccount(name: string): string {
+	const entry = Object.entries(ESX_ACCOUNT_NAMES).find(
+		([, esx]) => esx === name,
+	);
+	return entry?.[0] ?? name;
+}
+
+function esxAccountName(account: string): string {
+	return ESX_ACCOUNT_NAMES[account] ?? account;
+}
+
+/** ESX multicharacter: "char<n>:<license>". */
+export function esxIdentifier(player: BridgePlayer): string {
+	return `char${player.character.id}:${player.license ?? player.playerId}`;
+}
+
+function toEsxAccount(player: BridgePlayer, account: string): EsxAccount {
+	const name = esxAccountName(account);
+	const order = FRAMEWORK_ACCOUNTS.esx.indexOf(account);
+	return {
+		name,
+		label: ACCOUNT_LABELS[name] ?? name,
+		money: getMoney(player, account),
+		round: true,
+		index: order === -1 ? FRAMEWORK_ACCOUNTS.esx.length : order,
+	};
+}
+
+function toEsxJob(job: BridgeJob): EsxJob {
+	return {
+		name: job.name,
+		label: job.label,
+		grade: job.grade,
+		grade_name: job.gradeName,
+		grade_label: job.gradeLabel,
+		grade_salary: job.salary,
+		onDuty: job.onDuty,
+	};
+}
+
+function toEsxData(player: BridgePlayer): EsxPlayerData {
+	const { character } = player;
+	return {
+		identifier: esxIdentifier(player),
+		name: `${character.firstName} ${character.lastName}`,
+		firstName: character.firstName,
+		lastName: character.lastName,
+		dateofbirth: character.birthdate,
+		sex: character.sex === "female" ? "f" : "m",
+		group: player.group,
+		accounts: Object.keys(player.accounts).map((a) => toEsxAccount(player, a)),
+		job: toEsxJob(player.job),
+		money: getMoney(player, "cash"),
+		inventory: [],
+		loadout: [],
+	};
+}
+
+const NOTIFY_TYPES: Record<string, NotifyOptions["type"]> = {
+	success: "success",
+	error: "error",
+	info: "info",
+	warning: "warning",
+};
+
+/** xPlayer: una foto de los datos más los métodos (referencias entre recursos). */
+export function createXPlayer(player: BridgePlayer) {
+	const { source } = player;
+	return {
+		...toEsxData(player),
+		source,
+		playerId: source,
+		license: player.license,
+
+		getIdentifier: () => esxIdentifier(player),
+		getName: () => `${player.character.firstName} ${player.character.lastName}`,
+		getGroup: () => player.group,
+		getJob: () => toEsxJob(player.job),
+		getAccounts: (minimal?: boolean) =>
+			minimal
+				? Object.fromEntries(
+						Object.keys(player.accounts).map((a) => [
+							esxAccountName(a),
+							getMoney(player, a),
+						]),
+					)
+				: Object.keys(player.accounts).map((a) => toEsxAccount(player, a)),
+		getAccount: (name: string) =>
+			bridgeAccount(name) in player.accounts
+				? toEsxAccount(player, bridgeAccount(name))
+				: undefined,
+		getMoney: () => getMoney(player, "cash"),
+		addMoney: (money: number, reason?: string) =>
+			addMoney(player, "cash", money, reason),
+		removeMoney: (money: number, reason?: string) =>
+			removeMoney(player, "cash", money, reason),
+		setMoney: (money: number, reason?: string) =>
+			setMoney(player, "cash", money, reason),
+		addAccountMoney: (name: string, money: number, reason?: string) =>
+			addMoney(player, bridgeAccount(name), money, reason),
+		removeAccountMoney: (name: string, money: number, reason?: string) =>
+			removeMoney(player, bridgeAccount(name), money, reason),
+		setAccountMoney: (name: string, money: number, reason?: string) =>
+			setMoney(player, bridgeAccount(name), money, reason),
+		setJob: (name: string, grade: number | string) =>
+			setJob(player, name, grade),
+		showNotification: (message: string, type = "info", length = 5000) =>
+			core().notify(source, {
+				type: NOTIFY_TYPES[type] ?? "info",
+				message,
+				duration: length,
+			}),
+		triggerEvent: (eventName: string, ...args: unknown[]) =>
+			emitNet(eventName, source, ...args),
+		kick: (reason: string) => DropPlayer(String(source), reason),
+	};
+}
+
+export type XPlayer = ReturnType<typeof createXPlayer>;
+
+/** El objeto ESX (exports["es_extended"].getSharedObject()). */
+export function createEsxObject() {
+	const xPlayerOf = (player?: BridgePlayer) =>
+		player ? createXPlayer(player) : undefined;
+	const jobs = () =>
+		Object.fromEntries(
+			Object.entries(getJobs()).map(([name, job]) => [
+				name,
+				{
+					name,
+					label: job.label,
+					grades: Object.fromEntries(
+						job.grades.map((g, grade) => [
+							String(grade),
+							{ grade, name: g.name, label: g.label, salary: g.salary },
+						]),
+					),
+				},
+			]),
+		);
+
+	return {
+		GetPlayerFromId: (source: number | string) =>
+			xPlayerOf(getBridgePlayer(Number(source))),
+		GetPlayerFromIdentifier: (identifier: string) =>
+			xPlayerOf(
+				getBridgePlayers().find((p) => esxIdentifier(p) === identifier),
+			),
+		GetPlayers: () => getBridgePlayers().map((p) => p.source),
+		/** Sin filtro: todos; con ("job", "police"): los de ese trabajo */
+		GetExtendedPlayers: (key?: string, value?: string) =>
+			getBridgePlayers()
+				.filter(
+					(p) =>
+						key === undefined ||
+						(key === "job" && p.job.name === value) ||
+						(key === "group" && p.group === value),
+				)
+				.map(createXPlayer),
+		GetJobs: jobs,
+		DoesJobExist: (job: string, grade: number | string) =>
+			jobExists(job, Number(grade)),
+		RegisterServerCallback: (name: string, handler: ServerCallback) =>
+			registerCallback(name, handler),
+	};
+}
+
+/** Eventos de ESX para cada cambio del bridge. */
+export const esxAdapter: FrameworkAdapter = {
+	loaded(player, isNew) {
+		emit(EsxEvents.playerLoaded, player.source, createXPlayer(player), isNew);
+		emitNet(EsxEvents.playerLoaded, player.source, toEsxData(player), isNew);
+	},
+	unloaded(player, reason) {
+		emit(EsxEvents.playerDropped, player.source, reason);
+		emitNet(EsxEvents.onPlayerLogout, player.source);
+	},
+	moneyChanged(player, account) {
+		emitNet(
+			EsxEvents.setAccountMoney,
+			player.source,
+			toEsxAccount(player, account),
+		);
+	},
+	jobChanged(player, job, lastJob) {
+		const [next, prev] = [toEsxJob(job), toEsxJob(lastJob)];
+		emit(EsxEvents.setJob, player.source, next, prev);
+		emitNet(EsxEvents.setJob, player.source, next, prev);
+	},
+};
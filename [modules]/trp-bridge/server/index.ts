@@ -0,0 +1,65 @@
+import path from "node:path";
+import { getDatasourceConfigs } from "@trp/config";
+import {
+	close,
+	configureDatasources,
+	registerMigrations,
+	runMigrations,
+	waitForDb,
+} from "@trp/db";
+import { getBridgeConfig } from "./config";
+import { core } from "./core";
+import { flushPlayers, loadPlayer } from "./players";
+import schema from "./schema";
+
+// Cada recurso tiene su propio pool: el de trp-core no se comparte
+configureDatasources(getDatasourceConfigs());
+
+registerMigrations({
+	module: "trp-bridge",
+	dir: path.join(GetResourcePath(GetCurrentResourceName()), "migrations"),
+	schema,
+});
+
+/** Tras un reinicio del bridge: los que ya jugaban con un personaje. */
+async function restorePlayers(): Promise<void> {
+	for (const id of getPlayers()) {
+		const source = Number(id);
+		const characterId = core().getCharacterId(source);
+		if (characterId === undefined) continue;
+		try {
+			await loadPlayer(source, characterId);
+		} catch (err) {
+			console.error(`[trp-bridge] no se pudo recuperar a ${source}:`, err);
+		}
+	}
+}
+
+on("onResourceStart", async (resourceName: string) => {
+	if (resourceName !== GetCurrentResourceName()) return;
+	console.log(`[trp-bridge] emulando ${getBridgeConfig().framework}`);
+
+	// FiveM no espera al handler: sin el catch, un fallo sería un rechazo sin atender
+	try {
+		await waitForDb();
+		await runMigrations({ module: "trp-bridge" });
+	} catch (err) {
+		console.error("[trp-bridge] no se pudo preparar la base de datos:", err);
+		return;
+	}
+	await restorePlayers();
+});
+
+on("onResourceStop", async (resourceName: string) => {
+	if (resourceName !== GetCurrentResourceName()) return;
+	try {
+		// El dinero y los trabajos pendientes de escribir
+		await flushPlayers();
+	} catch (err) {
+		console.error("[trp-bridge] no se pudo guardar lo pendiente:", err);
+	} finally {
+		await close().catch((err) =>
+			console.error("[trp-bridge] no se pudo cerrar el pool:", err),
+		);
+	}
+});
@@ -0,0 +1,386 @@
+import { dbFor, eq, txFor } from "@trp/db";
+import { FRAMEWORK_ACCOUNTS } from "../shared/framework";
+import { getBridgeConfig, type JobConfig } from "./config";
+import { core, type Character } from "./core";
+import schema from "./schema";
+
+/*
+ * Jugadores del bridge: la sesión y el personaje de trp-core más el dinero y
+ * el trabajo, que trp-core todavía no tiene y guarda el bridge
+ * (bridge_accounts, bridge_jobs). ESX y QBCore leen todo de forma síncrona
+ * (xPlayer.getMoney()), así que el personaje cargado vive en memoria y cada
+ * cambio se escribe después, en orden, por personaje.
+ *
+ * Los shims (esx.ts, qbcore.ts) no tocan este estado: usan estas funciones y
+ * reciben los cambios como FrameworkAdapter para emitir sus eventos.
+ */
+
+export type MoneyAction = "add" | "remove" | "set";
+
+export interface BridgeJob {
+	name: string;
+	label: string;
+	grade: number;
+	gradeName: string;
+	gradeLabel: string;
+	salary: number;
+	boss: boolean;
+	onDuty: boolean;
+}
+
+export interface BridgePlayer {
+	source: number;
+	/** players.id de trp-core */
+	playerId: number;
+	/** Nombre de FiveM */
+	name: string;
+	license?: string;
+	character: Character;
+	/** cash, bank, black_money... */
+	accounts: Record<string, number>;
+	job: BridgeJob;
+	/** "admin" si tiene "*" en RBAC al cargar; si no, "user" */
+	group: string;
+}
+
+/** Lo que el shim activo hace con cada cambio (eventos de ESX o QBCore). */
+export interface FrameworkAdapter {
+	loaded(player: BridgePlayer, isNew: boolean): void;
+	unloaded(player: BridgePlayer, reason: string): void;
+	moneyChanged(
+		player: BridgePlayer,
+		account: string,
+		amount: number,
+		action: MoneyAction,
+		reason?: string,
+	): void;
+	jobChanged(player: BridgePlayer, job: BridgeJob, lastJob: BridgeJob): void;
+}
+
+type BridgeState = {
+	players: Map<number, BridgePlayer>;
+	/** Última escritura pendiente de cada personaje */
+	writes: Map<number, Promise<void>>;
+	adapter?: FrameworkAdapter;
+};
+
+const BRIDGE_KEY = Symbol.for("__TRP_BRIDGE_PLAYERS__");
+
+const state: BridgeState =
+	// eslint-disable-next-line @typescript-eslint/no-explicit-any
+	((globalThis as any)[BRIDGE_KEY] as BridgeState) ?? {
+		players: new Map(),
+		writes: new Map(),
+	};
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+(globalThis as any)[BRIDGE_KEY] = state;
+
+const db = dbFor(schema);
+
+export function setAdapter(adapter: FrameworkAdapter): void {
+	state.adapter = adapter;
+}
+
+/* --------------------------------- Trabajos -------------------------------- */
+
+export function getJobs(): Record<string, JobConfig> {
+	return getBridgeConfig().jobs;
+}
+
+export function jobExists(name: string, grade: number): boolean {
+	return getJobs()[name]?.grades[grade] !== undefined;
+}
+
+/** Trabajo de la config; uno que ya no existe pasa a defaultJob. */
+function resolveJob(name: string, grade: number, onDuty?: boolean): BridgeJob {
+	const { defaultJob } = getBridgeConfig();
+	const jobs = getJobs();
+	if (!jobExists(name, grade)) {
+		if (!jobs[defaultJob]) {
+			throw new Error(
+				`[trp-bridge] defaultJob "${defaultJob}" no está en jobs`,
+			);
+		}
+		[name, grade] = [defaultJob, 0];
+	}
+	const job = jobs[name];
+	const g = job.grades[grade];
+	return {
+		name,
+		label: job.label,
+		grade,
+		gradeName: g.name,
+		gradeLabel: g.label,
+		salary: g.salary,
+		boss: g.boss,
+		onDuty: onDuty ?? job.defaultDuty,
+	};
+}
+
+/* ---------------------------------- Carga ---------------------------------- */
+
+/** Encola una escritura del personaje detrás de las anteriores. */
+function persist(characterId: number, write: () => Promise<unknown>): void {
+	const prev = state.writes.get(characterId) ?? Promise.resolve();
+	const next = prev
+		.then(write)
+		.then(() => undefined)
+		.catch((err) =>
+			console.error(
+				`[trp-bridge] no se pudo guardar el personaje ${characterId}:`,
+				err,
+			),
+		);
+	state.writes.set(characterId, next);
+	void next.finally(() => {
+		if (state.writes.get(characterId) === next)
+			state.writes.delete(characterId);
+	});
+}
+
+/** Dinero y trabajo del personaje; la primera vez, los iniciales de la config. */
+async function loadEconomy(characterId: number) {
+	// Lo último que se escribió de este personaje (si acaba de salir)
+	await state.writes.get(characterId);
+	return txFor(schema, async (tx) => {
+		const jobRows = await tx
+			.select()
+			.from(schema.jobs)
+			.where(eq(schema.jobs.characterId, characterId))
+			.for("update");
+		const isNew = jobRows.length === 0;
+		if (isNew) {
+			const { startingMoney, defaultJob } = getBridgeConfig();
+			const money = Object.entries(startingMoney);
+			if (money.length > 0) {
+				await tx
+					.insert(schema.accounts)
+					.values(
+						money.map(([account, amount]) => ({
+							characterId,
+							account,
+							amount,
+						})),
+					)
+					.onDuplicateKeyUpdate({ set: { characterId } });
+			}
+			await tx
+				.insert(schema.jobs)
+				.values({ characterId, job: defaultJob, grade: 0 });
+		}
+		const accountRows = await tx
+			.select()
+			.from(schema.accounts)
+			.where(eq(schema.accounts.characterId, characterId));
+		const jobRow = isNew
+			? { job: getBridgeConfig().defaultJob, grade: 0, onDuty: undefined }
+			: jobRows[0];
+		return {
+			isNew,
+			accounts: Object.fromEntries(
+				accountRows.map((row) => [row.account, row.amount]),
+			),
+			job: resolveJob(jobRow.job, jobRow.grade, jobRow.onDuty),
+		};
+	});
+}
+
+/**
+ * Carga el personaje que `source` acaba de elegir en trp-core (evento
+ * trp:character:loaded). Si ya jugaba con otro, lo descarga antes.
+ */
+export async function loadPlayer(
+	source: number,
+	characterId: number,
+): Promise<BridgePlayer | undefined> {
+	const session = core().getPlayer(source);
+	if (!session) return undefined;
+	const current = state.players.get(source);
+	if (current) {
+		if (current.character.id === characterId) return current;
+		unloadPlayer(source, "Cambio de personaje");
+	}
+
+	const [characters, economy, admin] = await Promise.all([
+		core().listCharacters(session.playerId),
+		loadEconomy(characterId),
+		core().can(source, "*"),
+	]);
+	const character = characters.find((c) => c.id === characterId);
+	// Salió o cambió de personaje mientras cargaba
+	if (!character || core().getCharacterId(source) !== characterId) {
+		return undefined;
+	}
+
+	const accounts: Record<string, number> = {};
+	for (const account of FRAMEWORK_ACCOUNTS[getBridgeConfig().framework]) {
+		accounts[account] = 0;
+	}
+	const player: BridgePlayer = {
+		source,
+		playerId: session.playerId,
+		name: session.name,
+		license: session.identifiers.license,
+		character,
+		accounts: { ...accounts, ...economy.accounts },
+		job: economy.job,
+		group: admin ? "admin" : "user",
+	};
+	state.players.set(source, player);
+	console.log(
+		`[trp-bridge] ${source} cargado con el personaje ${characterId} (${character.firstName} ${character.lastName})`,
+	);
+	state.adapter?.loaded(player, economy.isNew);
+	return player;
+}
+
+/** Al salir (trp:player:dropped) o cambiar de personaje. */
+export function unloadPlayer(source: number, reason: string): void {
+	const player = state.players.get(source);
+	if (!player) return;
+	state.players.delete(source);
+	state.adapter?.unloaded(player, reason);
+}
+
+/** Al borrar un personaje en trp-core: su dinero y trabajo sobran. */
+export function forgetCharacter(characterId: number): void {
+	persist(characterId, async () => {
+		await db
+			.delete(schema.accounts)
+			.where(eq(schema.accounts.characterId, characterId));
+		await db
+			.delete(schema.jobs)
+			.where(eq(schema.jobs.characterId, characterId));
+	});
+}
+
+/** Espera a que se escriba todo (al parar el recurso). */
+export async function flushPlayers(): Promise<void> {
+	await Promise.all(state.writes.values());
+}
+
+export function getBridgePlayer(source: number): BridgePlayer | undefined {
+	return state.players.get(source);
+}
+
+export function getBridgePlayers(): BridgePlayer[] {
+	return [...state.players.values()];
+}
+
+export function findByCharacter(characterId: number): BridgePlayer | undefined {
+	return getBridgePlayers().find((p) => p.character.id === characterId);
+}
+
+/* ---------------------------------- Dinero --------------------------------- */
+
+/** Cantidad válida: entera y positiva (ESX y QBCore aceptan decimales; aquí se redondea). */
+function toAmount(amount: unknown): number | undefined {
+	const value = Math.round(Number(amount));
+	return Number.isFinite(value) && value >= 0 ? value : undefined;
+}
+
+function writeAccount(player: BridgePlayer, account: string): void {
+	const characterId = player.character.id;
+	const amount = player.accounts[account];
+	persist(characterId, () =>
+		db
+			.insert(schema.accounts)
+			.values({ characterId, account, amount })
+			.onDuplicateKeyUpdate({ set: { amount } }),
+	);
+}
+
+function changeMoney(
+	player: BridgePlayer,
+	account: string,
+	amount: number,
+	action: MoneyAction,
+	reason?: string,
+): void {
+	const balance = player.accounts[account] ?? 0;
+	player.accounts[account] =
+		action === "set"
+			? amount
+			: action === "add"
+				? balance + amount
+				: balance - amount;
+	writeAccount(player, account);
+	state.adapter?.moneyChanged(player, account, amount, action, reason);
+}
+
+export function getMoney(player: BridgePlayer, account: string): number {
+	return player.accounts[account] ?? 0;
+}
+
+export function addMoney(
+	player: BridgePlayer,
+	account: string,
+	amount: unknown,
+	reason?: string,
+): boolean {
+	const value = toAmount(amount);
+	if (value === undefined) return false;
+	changeMoney(player, account, value, "add", reason);
+	return true;
+}
+
+/** false si la cantidad no es válida o no hay saldo suficiente. */
+export function removeMoney(
+	player: BridgePlayer,
+	account: string,
+	amount: unknown,
+	reason?: string,
+): boolean {
+	const value = toAmount(amount);
+	if (value === undefined || getMoney(player, account) < value) return false;
+	changeMoney(player, account, value, "remove", reason);
+	return true;
+}
+
+export function setMoney(
+	player: BridgePlayer,
+	account: string,
+	amount: unknown,
+	reason?: string,
+): boolean {
+	const value = toAmount(amount);
+	if (value === undefined) return false;
+	changeMoney(player, account, value, "set", reason);
+	return true;
+}
+
+/* --------------------------------- Trabajo --------------------------------- */
+
+function writeJob(player: BridgePlayer): void {
+	const characterId = player.character.id;
+	const { name: job, grade, onDuty } = player.job;
+	persist(characterId, () =>
+		db
+			.insert(schema.jobs)
+			.values({ characterId, job, grade, onDuty })
+			.onDuplicateKeyUpdate({ set: { job, grade, onDuty } }),
+	);
+}
+
+/** false si el trabajo o el grado no están en la config. */
+export function setJob(
+	player: BridgePlayer,
+	name: string,
+	grade: unknown,
+): boolean {
+	const level = Number(grade);
+	if (!Number.isInteger(level) || !jobExists(name, level)) return false;
+	const lastJob = player.job;
+	player.job = resolveJob(name, level);
+	writeJob(player);
+	state.adapter?.jobChanged(player, player.job, lastJob);
+	return true;
+}
+
+export function setDuty(player: BridgePlayer, onDuty: boolean): void {
+	if (player.job.onDuty === onDuty) return;
+	const lastJob = player.job;
+	player.job = { ...player.job, onDuty };
+	writeJob(player);
+	state.adapter?.jobChanged(player, player.job, lastJob);
+}
@@ -0,0 +1,190 @@
+import { QbEvents, type QbJob, type QbPlayerData } from "../shared/qbcore";
+import { registerCallback, type ServerCallback } from "./callbacks";
+import { core, type NotifyOptions } from "./core";
+import {
+	addMoney,
+	findByCharacter,
+	getBridgePlayer,
+	getBridgePlayers,
+	getJobs,
+	getMoney,
+	removeMoney,
+	setDuty,
+	setJob,
+	setMoney,
+	type BridgeJob,
+	type BridgePlayer,
+	type FrameworkAdapter,
+} from "./players";
+
+/*
+ * Shim de QBCore (server): QBCore.Functions y el objeto Player sobre los
+ * jugadores del bridge. citizenid es el id del personaje de trp-core. Lo que
+ * no está aquí no existe: ver README.md.
+ */
+
+function toQbJob(job: BridgeJob): QbJob {
+	return {
+		name: job.name,
+		label: job.label,
+		payment: job.salary,
+		onduty: job.onDuty,
+		isboss: job.boss,
+		grade: { name: job.gradeLabel, level: job.grade },
+	};
+}
+
+function toQbData(player: BridgePlayer): QbPlayerData {
+	const { character } = player;
+	return {
+		source: player.source,
+		citizenid: String(character.id),
+		cid: character.id,
+		license: player.license,
+		name: player.name,
+		charinfo: {
+			firstname: character.firstName,
+			lastname: character.lastName,
+			birthdate: character.birthdate,
+			gender: character.sex === "female" ? 1 : 0,
+		},
+		money: { ...player.accounts },
+		job: toQbJob(player.job),
+		items: [],
+		metadata: {},
+	};
+}
+
+/** Player: PlayerData (una foto) y Functions (referencias entre recursos). */
+export function createQbPlayer(player: BridgePlayer) {
+	return {
+		PlayerData: toQbData(player),
+		Offline: false,
+		Functions: {
+			UpdatePlayerData: () =>
+				emitNet(QbEvents.setPlayerData, player.source, toQbData(player)),
+			GetMoney: (type: string) =>
+				type in player.accounts ? getMoney(player, type) : false,
+			AddMoney: (type: string, amount: number, reason?: string) =>
+				type in player.accounts && addMoney(player, type, amount, reason),
+			RemoveMoney: (type: string, amount: number, reason?: string) =>
+				type in player.accounts && removeMoney(player, type, amount, reason),
+			SetMoney: (type: string, amount: number, reason?: string) =>
+				type in player.accounts && setMoney(player, type, amount, reason),
+			SetJob: (name: string, grade: number | string = 0) =>
+				setJob(player, name, grade),
+			SetJobDuty: (onDuty: boolean) => setDuty(player, Boolean(onDuty)),
+		},
+	};
+}
+
+export type QbPlayer = ReturnType<typeof createQbPlayer>;
+
+const NOTIFY_TYPES: Record<string, NotifyOptions["type"]> = {
+	primary: "info",
+	success: "success",
+	error: "error",
+	warning: "warning",
+};
+
+/** El objeto QBCore (exports["qb-core"].GetCoreObject()). */
+export function createQbObject() {
+	const playerOf = (player?: BridgePlayer) =>
+		player ? createQbPlayer(player) : undefined;
+	const jobs = () =>
+		Object.fromEntries(
+			Object.entries(getJobs()).map(([name, job]) => [
+				name,
+				{
+					label: job.label,
+					defaultDuty: job.defaultDuty,
+					grades: Object.fromEntries(
+						job.grades.map((g, grade) => [
+							String(grade),
+							{ name: g.label, payment: g.salary, isboss: g.boss },
+						]),
+					),
+				},
+			]),
+		);
+
+	return {
+		Functions: {
+			GetPlayer: (source: number | string) =>
+				playerOf(getBridgePlayer(Number(source))),
+			GetPlayerByCitizenId: (citizenid: string) =>
+				playerOf(findByCharacter(Number(citizenid))),
+			GetPlayers: () => getBridgePlayers().map((p) => p.source),
+			GetQBPlayers: () =>
+				Object.fromEntries(
+					getBridgePlayers().map((p) => [p.source, createQbPlayer(p)]),
+				),
+			/** Solo grupos: "admin"/"god" si tenía "*" en RBAC al cargar */
+			HasPermission: (source: number | string, permission: string) => {
+				const player = getBridgePlayer(Number(source));
+				return (
+					player?.group === "admin" &&
+					(permission === "admin" || permission === "god")
+				);
+			},
+			Notify: (
+				source: number | string,
+				text: string,
+				type = "primary",
+				length = 5000,
+			) =>
+				core().notify(Number(source), {
+					type: NOTIFY_TYPES[type] ?? "info",
+					message: text,
+					duration: length,
+				}),
+			CreateCallback: (name: string, handler: ServerCallback) =>
+				registerCallback(name, handler),
+		},
+		Shared: { Jobs: jobs() },
+	};
+}
+
+/** Eventos de QBCore para cada cambio del bridge. */
+export const qbAdapter: FrameworkAdapter = {
+	loaded(player) {
+		emitNet(QbEvents.setPlayerData, player.source, toQbData(player));
+		emitNet(QbEvents.clientPlayerLoaded, player.source);
+		emit(QbEvents.playerLoaded, createQbPlayer(player));
+		emit(QbEvents.onPlayerLoaded, player.source);
+	},
+	unloaded(player) {
+		emit(QbEvents.onPlayerUnload, player.source);
+		emitNet(QbEvents.clientPlayerUnload, player.source);
+	},
+	moneyChanged(player, account, amount, action, reason) {
+		emit(
+			QbEvents.onMoneyChange,
+			player.source,
+			account,
+			amount,
+			action,
+			reason,
+		);
+		emitNet(
+			QbEvents.clientMoneyChange,
+			player.source,
+			account,
+			amount,
+			action,
+			reason,
+		);
+		emitNet(QbEvents.setPlayerData, player.source, toQbData(player));
+	},
+	jobChanged(player, job, lastJob) {
+		const next = toQbJob(job);
+		if (job.name !== lastJob.name || job.grade !== lastJob.grade) {
+			emit(QbEvents.onJobUpdate, player.source, next);
+			emitNet(QbEvents.clientJobUpdate, player.source, next);
+		}
+		if (job.onDuty !== lastJob.onDuty) {
+			emitNet(QbEvents.clientSetDuty, player.source, job.onDuty);
+		}
+		emitNet(QbEvents.setPlayerData, player.source, toQbData(player));
+	},
+};
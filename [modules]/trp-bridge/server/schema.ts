@@ -0,0 +1,29 @@
+import { mysql } from "@trp/db";
+const { mysqlTable, int, bigint, varchar, timestamp, boolean, primaryKey } =
+	mysql;
+
+// Saldo de cada cuenta (cash, bank, black_money...) de un personaje
+export const accounts = mysqlTable(
+	"bridge_accounts",
+	{
+		characterId: int("character_id").notNull(),
+		account: varchar("account", { length: 32 }).notNull(),
+		amount: bigint("amount", { mode: "number" }).notNull().default(0),
+		updatedAt: timestamp("updated_at").notNull().defaultNow().onUpdateNow(),
+	},
+	(t) => ({
+		pk: primaryKey({ columns: [t.characterId, t.account] }),
+	}),
+);
+
+// Trabajo actual de un personaje; los trabajos se definen en la config
+export const jobs = mysqlTable("bridge_jobs", {
+	characterId: int("character_id").primaryKey().notNull(),
+	job: varchar("job", { length: 32 }).notNull(),
+	grade: int("grade").notNull().default(0),
+	onDuty: boolean("on_duty").notNull().default(true),
+	updatedAt: timestamp("updated_at").notNull().defaultNow().onUpdateNow(),
+});
+
+const tables = { accounts, jobs } as const;
+export default tables;
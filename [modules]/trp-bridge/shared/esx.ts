@@ -0,0 +1,57 @@
+/**
+ * Forma de los datos de ESX Legacy que viajan al cliente (ESX.PlayerData) y
+ * que devuelve xPlayer. Solo los campos que el bridge rellena.
+ */
+
+export interface EsxAccount {
+	name: string;
+	label: string;
+	money: number;
+	round: boolean;
+	index: number;
+}
+
+export interface EsxJob {
+	name: string;
+	label: string;
+	grade: number;
+	grade_name: string;
+	grade_label: string;
+	grade_salary: number;
+	onDuty: boolean;
+}
+
+export interface EsxPlayerData {
+	identifier: string;
+	name: string;
+	firstName: string;
+	lastName: string;
+	dateofbirth: string;
+	sex: "m" | "f";
+	group: string;
+	accounts: EsxAccount[];
+	job: EsxJob;
+	money: number;
+	/** El bridge no tiene inventario: siempre vacíos */
+	inventory: unknown[];
+	loadout: unknown[];
+}
+
+export const EsxEvents = {
+	/** server → client: (EsxPlayerData, isNew); local (server): (source, xPlayer, isNew) */
+	playerLoaded: "esx:playerLoaded",
+	/** local (server): (source, reason) */
+	playerDropped: "esx:playerDropped",
+	/** server → client: () al salir o cambiar de personaje */
+	onPlayerLogout: "esx:onPlayerLogout",
+	/** server → client: (EsxAccount) */
+	setAccountMoney: "esx:setAccountMoney",
+	/** server → client: (job, lastJob); local (server): (source, job, lastJob) */
+	setJob: "esx:setJob",
+	/** local: (cb) → cb(ESX), la forma antigua de pedir el objeto */
+	getSharedObject: "esx:getSharedObject",
+	/** client → server: (name, requestId, ...args) */
+	triggerServerCallback: "esx:triggerServerCallback",
+	/** server → client: (requestId, ...results) */
+	serverCallback: "esx:serverCallback",
+} as const;
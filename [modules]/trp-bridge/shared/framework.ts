@@ -0,0 +1,44 @@
+/**
+ * Lo que comparten el server y el cliente del bridge. El framework emulado
+ * se elige en la config (modules.trp-bridge.framework); el server lo publica
+ * como convar replicada para que el cliente active el mismo shim.
+ */
+
+export type Framework = "esx" | "qbcore";
+
+/** Convar replicada con el framework activo ("esx" | "qbcore"). */
+export const FRAMEWORK_CONVAR = "trp_bridge_framework";
+
+/** Eventos locales de trp-core que alimentan el bridge (server). */
+export const CoreEvents = {
+	/** (source, characterId) */
+	characterLoaded: "trp:character:loaded",
+	/** (playerId, characterId) */
+	characterDeleted: "trp:character:deleted",
+	/** (source, playerId, reason) */
+	playerDropped: "trp:player:dropped",
+} as const;
+
+/** Cuenta del bridge → nombre de cuenta en ESX (el resto se llama igual). */
+export const ESX_ACCOUNT_NAMES: Record<string, string> = { cash: "money" };
+
+/** Cuentas que ESX y QBCore esperan ver aunque estén a 0. */
+export const FRAMEWORK_ACCOUNTS: Record<Framework, string[]> = {
+	esx: ["cash", "bank", "black_money"],
+	qbcore: ["cash", "bank", "crypto"],
+};
+
+/**
+ * Export con el nombre de otro recurso: `exports["es_extended"].getSharedObject()`
+ * llega aquí aunque no exista un recurso es_extended. Es lo mismo que hace
+ * exports() del runtime de FiveM, pero con el nombre que esperan los scripts.
+ */
+export function provideExport(
+	resource: string,
+	name: string,
+	fn: (...args: never[]) => unknown,
+): void {
+	on(`__cfx_export_${resource}_${name}`, (setCb: (fn: unknown) => void) =>
+		setCb(fn),
+	);
+}
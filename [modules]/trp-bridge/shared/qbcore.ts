@@ -0,0 +1,64 @@
+/**
+ * Forma de los datos de QBCore que viajan al cliente (QBCore.PlayerData) y
+ * que devuelve Player.PlayerData. Solo los campos que el bridge rellena.
+ */
+
+export interface QbJob {
+	name: string;
+	label: string;
+	payment: number;
+	onduty: boolean;
+	isboss: boolean;
+	grade: { name: string; level: number };
+}
+
+export interface QbPlayerData {
+	source: number;
+	citizenid: string;
+	cid: number;
+	license?: string;
+	name: string;
+	charinfo: {
+		firstname: string;
+		lastname: string;
+		birthdate: string;
+		/** 0 hombre, 1 mujer */
+		gender: number;
+	};
+	money: Record<string, number>;
+	job: QbJob;
+	/** El bridge no tiene inventario ni metadatos: siempre vacíos */
+	items: unknown[];
+	metadata: Record<string, unknown>;
+}
+
+export const QbEvents = {
+	/** local (server): (Player) */
+	playerLoaded: "QBCore:Server:PlayerLoaded",
+	/** local (server): (source); en QBCore lo lanza el cliente, aquí el bridge */
+	onPlayerLoaded: "QBCore:Server:OnPlayerLoaded",
+	/** local (server): (source) */
+	onPlayerUnload: "QBCore:Server:OnPlayerUnload",
+	/** local (server): (source, job) */
+	onJobUpdate: "QBCore:Server:OnJobUpdate",
+	/** local (server): (source, type, amount, action, reason) */
+	onMoneyChange: "QBCore:Server:OnMoneyChange",
+	/** server → client: () tras SetPlayerData */
+	clientPlayerLoaded: "QBCore:Client:OnPlayerLoaded",
+	/** server → client: () */
+	clientPlayerUnload: "QBCore:Client:OnPlayerUnload",
+	/** server → client: (job) */
+	clientJobUpdate: "QBCore:Client:OnJobUpdate",
+	/** server → client: (onDuty) */
+	clientSetDuty: "QBCore:Client:SetDuty",
+	/** server → client: (type, amount, action, reason) */
+	clientMoneyChange: "QBCore:Client:OnMoneyChange",
+	/** server → client: (QbPlayerData) */
+	setPlayerData: "QBCore:Player:SetPlayerData",
+	/** local: (cb) → cb(QBCore), la forma antigua de pedir el objeto */
+	getObject: "QBCore:GetObject",
+	/** client → server: (name, ...args) */
+	triggerCallback: "QBCore:Server:TriggerCallback",
+	/** server → client: (name, ...results) */
+	clientCallback: "QBCore:Client:TriggerCallback",
+} as const;
@@ -0,0 +1,25 @@
+import { closeView, isViewOpen, openView } from "@trp/nui/client";
+import { CharacterEvents, type Character } from "../shared/characters";
+
+// Al entrar (o al reiniciar el recurso) toca elegir personaje; la NUI carga
+// la lista con "core:getCharacters" al abrirse la vista
+on("onClientResourceStart", (resourceName: string) => {
+	if (resourceName !== GetCurrentResourceName()) return;
+	openView("characters", { closeOnBack: false });
+});
+
+// El server confirmó el personaje elegido
+onNet(CharacterEvents.selected, (character: Character) => {
+	closeView("characters");
+	emit(CharacterEvents.loaded, character);
+});
+
+// trp:characters → vuelve a la pantalla de selección
+RegisterCommand(
+	"trp:characters",
+	() => {
+		if (!isViewOpen("characters"))
+			openView("characters", { closeOnBack: false });
+	},
+	false,
+);
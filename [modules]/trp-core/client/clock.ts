@@ -0,0 +1,47 @@
+import { GameClock } from "@trp/date";
+import { ClockEvents, type ClockSync } from "../shared/clock";
+
+// Copia local del reloj del server (se crea con el primer sync, que trae la
+// zona horaria); entre sincronizaciones avanza sola
+let clock: GameClock | undefined;
+
+onNet(ClockEvents.sync, ({ tz, ...snapshot }: ClockSync) => {
+	if (!clock || clock.tz !== tz) {
+		clock?.stop();
+		clock = new GameClock({ ...snapshot, tz });
+		clock.onGameHour((hour, now) =>
+			emit(ClockEvents.hour, hour, now.toISOString()),
+		);
+		clock.onGameDay((now) => emit(ClockEvents.day, now.toISOString()));
+		clock.start();
+	} else {
+		clock.sync(snapshot);
+	}
+	applyToWorld(clock);
+});
+
+/** Fija la hora de GTA a la de juego; el motor no avanza por su cuenta. */
+function applyToWorld(clock: GameClock): void {
+	const now = clock.now();
+	NetworkOverrideClockTime(
+		now.get("hour"),
+		now.get("minute"),
+		now.get("second"),
+	);
+	// Con otra escala o en pausa el reloj del motor se desviaría
+	PauseClock(true);
+}
+
+setInterval(() => {
+	if (clock) applyToWorld(clock);
+}, 1000);
+
+on("onClientResourceStart", (resourceName: string) => {
+	if (resourceName === GetCurrentResourceName()) emitNet(ClockEvents.request);
+});
+
+on("onClientResourceStop", (resourceName: string) => {
+	if (resourceName === GetCurrentResourceName()) clock?.stop();
+});
+
+exports("getGameTime", () => clock?.now().toISOString());
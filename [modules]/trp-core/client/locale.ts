@@ -0,0 +1,33 @@
+import { configureDateFormats } from "@trp/date";
+import { clientRpc } from "@trp/rpc";
+import { LocaleEvents, type LocaleSettings } from "../shared/locale";
+import type { CoreRpc } from "../shared/rpc";
+
+// GetCurrentLanguage() → etiqueta; el server decide si está soportada
+const GAME_LANGUAGES = [
+	"en-US",
+	"fr-FR",
+	"de-DE",
+	"it-IT",
+	"es-ES",
+	"pt-BR",
+	"pl-PL",
+	"ru-RU",
+	"ko-KR",
+	"zh-TW",
+	"ja-JP",
+	"es-MX",
+	"zh-CN",
+];
+
+onNet(LocaleEvents.apply, (settings: LocaleSettings) => {
+	configureDateFormats(settings);
+	// La NUI tiene su propia copia de @trp/date: al montarse pide core:getLocale
+	// y por aquí le llegan los cambios (trp:locale, o si se detecta después)
+	clientRpc<CoreRpc>().sendNui(LocaleEvents.nui, settings);
+});
+
+on("onClientResourceStart", (resourceName: string) => {
+	if (resourceName !== GetCurrentResourceName()) return;
+	emitNet(LocaleEvents.detected, GAME_LANGUAGES[GetCurrentLanguage()]);
+});
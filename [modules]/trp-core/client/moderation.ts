@@ -0,0 +1,8 @@
+import { openView } from "@trp/nui/client";
+import { ModerationEvents } from "../shared/moderation";
+
+// El server ya comprobó el permiso (trp:modpanel); las llamadas del panel lo
+// vuelven a comprobar
+onNet(ModerationEvents.openPanel, () => {
+	openView("moderation");
+});
@@ -0,0 +1,52 @@
+import { closeView, isViewOpen, openView } from "@trp/nui/client";
+import { clientRpc } from "@trp/rpc";
+import {
+	NotifyEvents,
+	type Notification,
+	type NotifyOptions,
+} from "../shared/notify";
+import type { CoreRpc } from "../shared/rpc";
+
+const rpc = clientRpc<CoreRpc>();
+let localId = 1;
+
+onNet(NotifyEvents.show, (notification: Notification) => {
+	rpc.sendNui(NotifyEvents.nui, notification);
+});
+
+onNet(NotifyEvents.dismiss, (id: string) => {
+	rpc.sendNui(NotifyEvents.nuiDismiss, id);
+});
+
+// Sin foco la NUI no recibe el ratón: esta tecla lo da para pulsar acciones
+// (ESC lo devuelve)
+RegisterCommand(
+	"trp:notify:focus",
+	() => {
+		if (isViewOpen("notifications")) closeView("notifications");
+		else openView("notifications");
+	},
+	false,
+);
+RegisterKeyMapping(
+	"trp:notify:focus",
+	"Responder a notificaciones",
+	"keyboard",
+	"F7",
+);
+
+// Notificación local desde otro recurso de cliente (sin acciones: esas
+// responden al server)
+exports("notify", (options: NotifyOptions) => {
+	const type = options.type ?? "info";
+	const notification: Notification = {
+		...options,
+		type,
+		actions: [],
+		id: `local-${localId++}`,
+		key: options.key ?? `${type}|${options.title ?? ""}|${options.message}`,
+		dismissible: true,
+	};
+	rpc.sendNui(NotifyEvents.nui, notification);
+	return notification.id;
+});
@@ -0,0 +1,31 @@
+import { closeView, isViewOpen, openView } from "@trp/nui/client";
+import { THEME_MESSAGE } from "@trp/nui/theme";
+import { clientRpc } from "@trp/rpc";
+import type { CoreRpc } from "../shared/rpc";
+
+// Crear el cliente RPC ya habilita callServer() desde la NUI
+const rpc = clientRpc<CoreRpc>();
+
+// Tema del server para los componentes de la NUI
+on("onClientResourceStart", (resourceName: string) => {
+	if (resourceName !== GetCurrentResourceName()) return;
+	rpc
+		.callServer("core:getNuiTheme")
+		.then((theme) => rpc.sendNui(THEME_MESSAGE, theme))
+		.catch((err) => console.error("[trp-core] core:getNuiTheme:", err));
+});
+
+rpc.handleNui("core:close", () => {
+	// Si era la última vista abierta, se suelta el foco
+	closeView("core");
+});
+
+// trp:nui → abre/cierra el panel de trp-core (ESC también lo cierra)
+RegisterCommand(
+	"trp:nui",
+	() => {
+		if (isViewOpen("core")) closeView("core");
+		else openView("core");
+	},
+	false,
+);
@@ -0,0 +1,11 @@
+-- trp-core: tabla base de jugadores (ver server/schema.ts)
+CREATE TABLE IF NOT EXISTS `players` (
+	`id` INT NOT NULL,
+	`created_at` TIMESTAMP NOT NULL,
+	`last_seen` TIMESTAMP NULL,
+	`name` VARCHAR(64) NULL,
+	`is_banned` BOOLEAN NOT NULL DEFAULT FALSE,
+	PRIMARY KEY (`id`),
+	UNIQUE INDEX `u_players_name` (`name`),
+	INDEX `i_players_last_seen` (`last_seen`)
+);
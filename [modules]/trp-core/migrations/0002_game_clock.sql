@@ -0,0 +1,9 @@
+-- trp-core: estado persistido del reloj de juego (ver server/clock.ts)
+CREATE TABLE IF NOT EXISTS `game_clock` (
+	`id` VARCHAR(32) NOT NULL,
+	`game_time` BIGINT NOT NULL,
+	`scale` DOUBLE NOT NULL,
+	`paused` BOOLEAN NOT NULL DEFAULT FALSE,
+	`updated_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+	PRIMARY KEY (`id`)
+);
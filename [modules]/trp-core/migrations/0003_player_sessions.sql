@@ -0,0 +1,25 @@
+-- trp-core: identificadores de jugador y auditoría de sesiones (ver server/sessions.ts)
+-- El jugador se identifica por su licencia de Rockstar; el nombre ya no es único
+ALTER TABLE `players`
+	MODIFY `id` INT NOT NULL AUTO_INCREMENT,
+	MODIFY `created_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+	ADD COLUMN `license` VARCHAR(64) NULL AFTER `id`,
+	ADD COLUMN `discord` VARCHAR(32) NULL AFTER `license`,
+	ADD COLUMN `steam` VARCHAR(32) NULL AFTER `discord`,
+	ADD COLUMN `ban_reason` VARCHAR(255) NULL AFTER `is_banned`,
+	DROP INDEX `u_players_name`,
+	ADD UNIQUE INDEX `u_players_license` (`license`),
+	ADD INDEX `i_players_name` (`name`);
+
+-- Una fila por conexión; solo con featureFlags.playerSessionAudit
+CREATE TABLE IF NOT EXISTS `player_sessions` (
+	`id` BIGINT NOT NULL AUTO_INCREMENT,
+	`player_id` INT NOT NULL,
+	`connected_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+	`disconnected_at` TIMESTAMP NULL,
+	`duration_sec` INT NULL,
+	`reason` VARCHAR(255) NULL,
+	PRIMARY KEY (`id`),
+	INDEX `i_player_sessions_player` (`player_id`, `connected_at`),
+	CONSTRAINT `fk_player_sessions_player` FOREIGN KEY (`player_id`) REFERENCES `players` (`id`) ON DELETE CASCADE
+);
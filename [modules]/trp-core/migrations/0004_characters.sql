@@ -0,0 +1,14 @@
+-- trp-core: personajes de cada jugador (ver server/characters.ts)
+CREATE TABLE IF NOT EXISTS `characters` (
+	`id` INT NOT NULL AUTO_INCREMENT,
+	`player_id` INT NOT NULL,
+	`first_name` VARCHAR(24) NOT NULL,
+	`last_name` VARCHAR(24) NOT NULL,
+	`birthdate` DATE NOT NULL,
+	`sex` VARCHAR(8) NOT NULL,
+	`created_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+	`last_played` TIMESTAMP NULL,
+	PRIMARY KEY (`id`),
+	INDEX `i_characters_player` (`player_id`),
+	CONSTRAINT `fk_characters_player` FOREIGN KEY (`player_id`) REFERENCES `players` (`id`) ON DELETE CASCADE
+);
@@ -0,0 +1,56 @@
+-- trp-core: roles, permisos y concesiones (ver server/rbac.ts)
+CREATE TABLE IF NOT EXISTS `roles` (
+	`name` VARCHAR(32) NOT NULL,
+	`label` VARCHAR(64) NULL,
+	-- Hereda los permisos del rol padre
+	`parent` VARCHAR(32) NULL,
+	PRIMARY KEY (`name`),
+	CONSTRAINT `fk_roles_parent` FOREIGN KEY (`parent`) REFERENCES `roles` (`name`) ON DELETE SET NULL
+);
+
+-- Permisos con comodín: "vehicle.spawn", "admin.*", "*"
+CREATE TABLE IF NOT EXISTS `role_permissions` (
+	`role` VARCHAR(32) NOT NULL,
+	`permission` VARCHAR(128) NOT NULL,
+	PRIMARY KEY (`role`, `permission`),
+	CONSTRAINT `fk_role_permissions_role` FOREIGN KEY (`role`) REFERENCES `roles` (`name`) ON DELETE CASCADE
+);
+
+-- Un rol o un permiso para un personaje, o para el jugador (todos sus personajes)
+CREATE TABLE IF NOT EXISTS `grants` (
+	`id` INT NOT NULL AUTO_INCREMENT,
+	`player_id` INT NULL,
+	`character_id` INT NULL,
+	`role` VARCHAR(32) NULL,
+	`permission` VARCHAR(128) NULL,
+	`granted_by` VARCHAR(64) NOT NULL,
+	`created_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+	PRIMARY KEY (`id`),
+	INDEX `i_grants_player` (`player_id`),
+	INDEX `i_grants_character` (`character_id`),
+	CONSTRAINT `fk_grants_player` FOREIGN KEY (`player_id`) REFERENCES `players` (`id`) ON DELETE CASCADE,
+	CONSTRAINT `fk_grants_character` FOREIGN KEY (`character_id`) REFERENCES `characters` (`id`) ON DELETE CASCADE,
+	CONSTRAINT `fk_grants_role` FOREIGN KEY (`role`) REFERENCES `roles` (`name`) ON DELETE CASCADE
+);
+
+-- Quién concedió o retiró qué (comandos de admin y API)
+CREATE TABLE IF NOT EXISTS `rbac_audit` (
+	`id` BIGINT NOT NULL AUTO_INCREMENT,
+	`actor` VARCHAR(64) NOT NULL,
+	`action` VARCHAR(16) NOT NULL,
+	`subject` VARCHAR(64) NOT NULL,
+	`role` VARCHAR(32) NULL,
+	`permission` VARCHAR(128) NULL,
+	`created_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+	PRIMARY KEY (`id`),
+	INDEX `i_rbac_audit_subject` (`subject`, `created_at`)
+);
+
+INSERT IGNORE INTO `roles` (`name`, `label`, `parent`) VALUES
+	('user', 'Usuario', NULL),
+	('moderator', 'Moderador', 'user'),
+	('admin', 'Administrador', 'moderator');
+
+INSERT IGNORE INTO `role_permissions` (`role`, `permission`) VALUES
+	('moderator', 'moderation.*'),
+	('admin', '*');
@@ -0,0 +1,59 @@
+-- trp-core: baneos por identificador, avisos, expulsiones e historial (ver server/moderation.ts)
+CREATE TABLE IF NOT EXISTS `bans` (
+	`id` INT NOT NULL AUTO_INCREMENT,
+	`player_id` INT NULL,
+	`reason` VARCHAR(255) NOT NULL,
+	`issued_by` VARCHAR(64) NOT NULL,
+	`created_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+	-- NULL: permanente
+	`expires_at` TIMESTAMP NULL,
+	-- Levantado a mano (unban) o por el temporizador de caducidad
+	`lifted_at` TIMESTAMP NULL,
+	`lifted_by` VARCHAR(64) NULL,
+	PRIMARY KEY (`id`),
+	INDEX `i_bans_player` (`player_id`),
+	INDEX `i_bans_expiry` (`lifted_at`, `expires_at`),
+	CONSTRAINT `fk_bans_player` FOREIGN KEY (`player_id`) REFERENCES `players` (`id`) ON DELETE SET NULL
+);
+
+-- Identificadores cubiertos por cada baneo (license, discord, steam)
+CREATE TABLE IF NOT EXISTS `ban_identifiers` (
+	`ban_id` INT NOT NULL,
+	`kind` VARCHAR(16) NOT NULL,
+	`value` VARCHAR(64) NOT NULL,
+	PRIMARY KEY (`ban_id`, `kind`, `value`),
+	INDEX `i_ban_identifiers_value` (`kind`, `value`),
+	CONSTRAINT `fk_ban_identifiers_ban` FOREIGN KEY (`ban_id`) REFERENCES `bans` (`id`) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS `moderation_history` (
+	`id` BIGINT NOT NULL AUTO_INCREMENT,
+	`player_id` INT NOT NULL,
+	-- warn, kick, ban, unban, expire, evasion
+	`action` VARCHAR(16) NOT NULL,
+	`reason` VARCHAR(255) NULL,
+	`actor` VARCHAR(64) NOT NULL,
+	`ban_id` INT NULL,
+	`created_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+	PRIMARY KEY (`id`),
+	INDEX `i_moderation_history_player` (`player_id`, `created_at`),
+	CONSTRAINT `fk_moderation_history_player` FOREIGN KEY (`player_id`) REFERENCES `players` (`id`) ON DELETE CASCADE
+);
+
+-- Los baneos de players.is_banned pasan a ser permanentes por licencia
+INSERT INTO `bans` (`player_id`, `reason`, `issued_by`)
+	SELECT `id`, COALESCE(`ban_reason`, 'Sin especificar'), 'migration'
+	FROM `players` WHERE `is_banned` = TRUE;
+
+INSERT INTO `ban_identifiers` (`ban_id`, `kind`, `value`)
+	SELECT `b`.`id`, 'license', `p`.`license`
+	FROM `bans` `b` JOIN `players` `p` ON `p`.`id` = `b`.`player_id`
+	WHERE `b`.`issued_by` = 'migration' AND `p`.`license` IS NOT NULL;
+
+INSERT INTO `moderation_history` (`player_id`, `action`, `reason`, `actor`, `ban_id`)
+	SELECT `player_id`, 'ban', `reason`, 'migration', `id`
+	FROM `bans` WHERE `issued_by` = 'migration';
+
+ALTER TABLE `players`
+	DROP COLUMN `is_banned`,
+	DROP COLUMN `ban_reason`;
@@ -0,0 +1,65 @@
+import { DEFAULT_VIEW_OPTIONS, ViewEvents } from "@trp/nui";
+import { defineNuiFixtures } from "@trp/nui/dev";
+import { LocaleEvents } from "../../shared/locale";
+import { NotifyEvents } from "../../shared/notify";
+
+// Mensajes NUI que el panel de dev puede enviar
+export default defineNuiFixtures({
+	"abrir core": {
+		type: ViewEvents.stack,
+		payload: [{ ...DEFAULT_VIEW_OPTIONS, name: "core" }],
+		onLoad: true,
+	},
+	"selección de personaje": {
+		type: ViewEvents.stack,
+		payload: [
+			{ ...DEFAULT_VIEW_OPTIONS, name: "characters", closeOnBack: false },
+		],
+	},
+	"panel de moderación": {
+		type: ViewEvents.stack,
+		payload: [{ ...DEFAULT_VIEW_OPTIONS, name: "moderation" }],
+	},
+	"locale es": {
+		type: LocaleEvents.nui,
+		payload: { locale: "es", presets: {} },
+		onLoad: true,
+	},
+	"locale en": {
+		type: LocaleEvents.nui,
+		payload: { locale: "en", presets: {} },
+	},
+	"notificación": {
+		type: NotifyEvents.nui,
+		payload: {
+			id: "dev-1",
+			key: "dev-1",
+			type: "success",
+			title: "Banco",
+			message: "Has recibido 500 $",
+			duration: 5000,
+			actions: [],
+			dismissible: true,
+		},
+	},
+	"notificación con acciones": {
+		type: NotifyEvents.nui,
+		payload: {
+			id: "dev-2",
+			key: "dev-2",
+			type: "info",
+			title: "Invitación",
+			message: "Ana te invita a su banda",
+			duration: 0,
+			actions: [
+				{ id: "accept", label: "Aceptar" },
+				{ id: "reject", label: "Rechazar" },
+			],
+			dismissible: false,
+		},
+	},
+	"example:event": {
+		type: "example:event",
+		payload: { hello: "world" },
+	},
+});
@@ -0,0 +1,132 @@
+import { defineNuiMocks } from "@trp/nui/dev";
+import { RpcError } from "@trp/rpc";
+import type { Character } from "../../shared/characters";
+import type { HistoryEntry, PlayerSummary } from "../../shared/moderation";
+import type { CoreRpc } from "../../shared/rpc";
+
+const characters: Character[] = [
+	{
+		id: 1,
+		firstName: "Ana",
+		lastName: "García",
+		birthdate: "1994-03-12",
+		sex: "female",
+		createdAt: "2026-10-01T18:00:00.000Z",
+		lastPlayed: "2026-10-18T21:30:00.000Z",
+	},
+];
+const MAX_CHARACTERS = 3;
+
+const players: PlayerSummary[] = [
+	{
+		id: 1,
+		name: "Ana",
+		license: "abc123",
+		lastSeen: null,
+		source: 1,
+		ban: null,
+	},
+	{
+		id: 2,
+		name: "Tramposo",
+		license: "def456",
+		lastSeen: "2026-10-15T20:00:00.000Z",
+		source: null,
+		ban: {
+			id: 1,
+			playerId: 2,
+			reason: "Hacks",
+			issuedBy: "player:1",
+			createdAt: "2026-10-15T20:00:00.000Z",
+			expiresAt: null,
+		},
+	},
+];
+const history: HistoryEntry[] = [
+	{
+		id: 1,
+		action: "ban",
+		reason: "Hacks",
+		actor: "player:1",
+		banId: 1,
+		createdAt: "2026-10-15T20:00:00.000Z",
+	},
+];
+
+// Respuestas simuladas para `pnpm dev:nui trp-core` (no entran en el build)
+export default defineNuiMocks<CoreRpc>({
+	latencyMs: 150,
+	client: {
+		"core:close": () => console.log("[trp-core] NUI cerrada (mock)"),
+	},
+	server: {
+		"core:getServerTime": () => ({
+			iso: new Date().toISOString(),
+			gameTime: "2026-10-19T12:00:00.000Z",
+		}),
+		"core:getNuiTheme": () => ({ primary: "#e11d48" }),
+		"core:getLocale": () => ({ locale: "es", presets: {} }),
+		"core:notifyAction": ({ id, actionId }) => {
+			console.log(`[trp-core] acción ${actionId} de ${id} (mock)`);
+			return true;
+		},
+		"core:getCharacters": () => ({
+			characters,
+			max: MAX_CHARACTERS,
+			selectedId: null,
+		}),
+		"core:createCharacter": (input) => {
+			if (characters.length >= MAX_CHARACTERS) {
+				throw new RpcError("limit", `Máximo ${MAX_CHARACTERS} personajes`);
+			}
+			const character: Character = {
+				...input,
+				id: Math.max(0, ...characters.map((c) => c.id)) + 1,
+				createdAt: new Date().toISOString(),
+				lastPlayed: null,
+			};
+			characters.push(character);
+			return character;
+		},
+		"core:selectCharacter": ({ id }) => {
+			const character = characters.find((c) => c.id === id);
+			if (!character)
+				throw new RpcError("not_found", "Ese personaje no existe");
+			character.lastPlayed = new Date().toISOString();
+			return character;
+		},
+		"core:deleteCharacter": ({ id }) => {
+			characters.splice(
+				characters.findIndex((c) => c.id === id),
+				1,
+			);
+		},
+		"core:searchPlayers": ({ query }) =>
+			players.filter((p) =>
+				`#${p.id} ${p.name} ${p.license}`
+					.toLowerCase()
+					.includes(query.toLowerCase()),
+			),
+		"core:getModerationHistory": ({ playerId }) =>
+			playerId === 2 ? history : [],
+		"core:warnPlayer": ({ playerId, reason }) =>
+			console.log(`[trp-core] aviso a ${playerId}: ${reason} (mock)`),
+		"core:kickPlayer": ({ playerId }) => {
+			if (!players.find((p) => p.id === playerId)?.source) {
+				throw new RpcError(
+					"offline",
+					`El jugador ${playerId} no está conectado`,
+				);
+			}
+		},
+		"core:banPlayer": ({ playerId, reason }) => ({
+			id: 2,
+			playerId,
+			reason,
+			issuedBy: "player:1",
+			createdAt: new Date().toISOString(),
+			expiresAt: null,
+		}),
+		"core:unbanPlayer": () => true,
+	},
+});
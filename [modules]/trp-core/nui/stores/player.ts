@@ -1,17 +1,79 @@
 import { defineStore } from "@trp/nui/pinia";
 import { computed, ref } from "@trp/nui/vue";
+import { nuiRpc } from "@trp/rpc";
+import type {
+	Character,
+	CharacterCreate,
+	CharacterList,
+} from "../../shared/characters";
+import type { CoreRpc } from "../../shared/rpc";
 
+/** Lo que la NUI sabe del jugador: sus personajes y el elegido. */
+export interface PlayerData extends CharacterList {
+	character: Character | null;
+}
+
+// Las llamadas fallan con RpcError; su mensaje ya viene para el jugador
 export const usePlayerStore = defineStore("player", () => {
-	const playerData = ref<object | null>(null);
+	const rpc = nuiRpc<CoreRpc>();
+	const playerData = ref<PlayerData | null>(null);
 	const isLogged = computed(() => !!playerData.value);
+	const character = computed(() => playerData.value?.character ?? null);
+	const canCreate = computed(
+		() =>
+			!!playerData.value &&
+			playerData.value.characters.length < playerData.value.max,
+	);
 
-	function updatePlayer(data: object) {
+	function updatePlayer(data: PlayerData) {
 		playerData.value = data;
 	}
 
+	async function loadCharacters(): Promise<PlayerData> {
+		const list = await rpc.callServer("core:getCharacters");
+		const data: PlayerData = {
+			...list,
+			character: list.characters.find((c) => c.id === list.selectedId) ?? null,
+		};
+		updatePlayer(data);
+		return data;
+	}
+
+	async function createCharacter(input: CharacterCreate): Promise<Character> {
+		const created = await rpc.callServer("core:createCharacter", input);
+		playerData.value?.characters.push(created);
+		return created;
+	}
+
+	async function selectCharacter(id: number): Promise<Character> {
+		const selected = await rpc.callServer("core:selectCharacter", { id });
+		if (playerData.value) {
+			playerData.value.selectedId = selected.id;
+			playerData.value.character = selected;
+			const index = playerData.value.characters.findIndex((c) => c.id === id);
+			if (index >= 0) playerData.value.characters[index] = selected;
+		}
+		return selected;
+	}
+
+	async function deleteCharacter(id: number): Promise<void> {
+		await rpc.callServer("core:deleteCharacter", { id });
+		if (playerData.value) {
+			playerData.value.characters = playerData.value.characters.filter(
+				(c) => c.id !== id,
+			);
+		}
+	}
+
 	return {
 		playerData,
 		isLogged,
+		character,
+		canCreate,
 		updatePlayer,
+		loadCharacters,
+		createCharacter,
+		selectCharacter,
+		deleteCharacter,
 	};
 });
@@ -0,0 +1,162 @@
+import { and, asc, dbFor, eq, sql, txFor } from "@trp/db";
+import { RpcError } from "@trp/rpc";
+import {
+	CharacterCreateSchema,
+	CharacterEvents,
+	type Character,
+	type CharacterCreate,
+} from "../shared/characters";
+import { getCoreConfig } from "./config";
+import schema from "./schema";
+import { getOnlinePlayers, getPlayer } from "./sessions";
+
+/*
+ * Personajes de cada jugador. Los errores son RpcError ("invalid", "limit",
+ * "not_found", "in_use"...) para que lleguen tal cual a la NUI.
+ */
+
+type CharacterRow = typeof schema.characters.$inferSelect;
+
+const db = dbFor(schema);
+
+function toCharacter(row: CharacterRow): Character {
+	return {
+		id: row.id,
+		firstName: row.firstName,
+		lastName: row.lastName,
+		birthdate: row.birthdate,
+		sex: row.sex as Character["sex"],
+		createdAt: row.createdAt.toISOString(),
+		lastPlayed: row.lastPlayed?.toISOString() ?? null,
+	};
+}
+
+/** Sesión del jugador o RpcError "not_ready" (aún conectándose). */
+export function requireSession(source: number) {
+	const session = getPlayer(source);
+	if (!session) {
+		throw new RpcError("not_ready", "Tu sesión aún se está cargando");
+	}
+	return session;
+}
+
+export async function listCharacters(playerId: number): Promise<Character[]> {
+	const rows = await db
+		.select()
+		.from(schema.characters)
+		.where(eq(schema.characters.playerId, playerId))
+		.orderBy(asc(schema.characters.id));
+	return rows.map(toCharacter);
+}
+
+/** Personaje del jugador o RpcError "not_found" (no existe o es de otro). */
+async function ownedCharacter(
+	playerId: number,
+	characterId: number,
+): Promise<CharacterRow> {
+	const rows = await db
+		.select()
+		.from(schema.characters)
+		.where(
+			and(
+				eq(schema.characters.id, characterId),
+				eq(schema.characters.playerId, playerId),
+			),
+		)
+		.limit(1);
+	if (!rows[0]) throw new RpcError("not_found", "Ese personaje no existe");
+	return rows[0];
+}
+
+/**
+ * Crea un personaje validando `input` con CharacterCreateSchema. El límite
+ * (limits.maxCharactersPerPlayer) se comprueba en la misma transacción, con
+ * la fila del jugador bloqueada: dos altas a la vez no pueden pasarlo.
+ */
+export async function createCharacter(
+	playerId: number,
+	input: unknown,
+): Promise<Character> {
+	const parsed = CharacterCreateSchema.safeParse(input);
+	if (!parsed.success) {
+		throw new RpcError("invalid", parsed.error.issues[0].message);
+	}
+	const data: CharacterCreate = parsed.data;
+	const max = getCoreConfig().limits.maxCharactersPerPlayer;
+
+	return txFor(schema, async (tx) => {
+		await tx
+			.select({ id: schema.players.id })
+			.from(schema.players)
+			.where(eq(schema.players.id, playerId))
+			.for("update");
+		const [{ count }] = await tx
+			.select({ count: sql<number>`count(*)` })
+			.from(schema.characters)
+			.where(eq(schema.characters.playerId, playerId));
+		if (Number(count) >= max) {
+			throw new RpcError("limit", `Máximo ${max} personajes por jugador`);
+		}
+		const [result] = await tx
+			.insert(schema.characters)
+			.values({ ...data, playerId });
+		const rows = await tx
+			.select()
+			.from(schema.characters)
+			.where(eq(schema.characters.id, result.insertId))
+			.limit(1);
+		return toCharacter(rows[0]);
+	});
+}
+
+/** Borra un personaje del jugador; no si alguien lo está jugando ("in_use"). */
+export async function deleteCharacter(
+	playerId: number,
+	characterId: number,
+): Promise<void> {
+	await ownedCharacter(playerId, characterId);
+	if (getOnlinePlayers().some((s) => s.characterId === characterId)) {
+		throw new RpcError(
+			"in_use",
+			"No puedes borrar el personaje que estás jugando",
+		);
+	}
+	await db
+		.delete(schema.characters)
+		.where(
+			and(
+				eq(schema.characters.id, characterId),
+				eq(schema.characters.playerId, playerId),
+			),
+		);
+	emit(CharacterEvents.deleted, playerId, characterId);
+}
+
+/**
+ * Elige el personaje con el que juega la sesión de `source`. Avisa al
+ * cliente (CharacterEvents.selected) y a los scripts del server
+ * (CharacterEvents.loaded).
+ */
+export async function selectCharacter(
+	source: number,
+	characterId: number,
+): Promise<Character> {
+	const session = requireSession(source);
+	const row = await ownedCharacter(session.playerId, characterId);
+	const lastPlayed = new Date();
+	await db
+		.update(schema.characters)
+		.set({ lastPlayed })
+		.where(eq(schema.characters.id, characterId));
+	session.characterId = characterId;
+
+	const character = toCharacter({ ...row, lastPlayed });
+	emitNet(CharacterEvents.selected, source, character);
+	emit(CharacterEvents.loaded, source, characterId);
+	return character;
+}
+
+/** Personaje con el que juega `source`, o undefined si aún no eligió. */
+export function getCharacterId(source: number): number | undefined {
+	return getPlayer(source)?.characterId;
+}
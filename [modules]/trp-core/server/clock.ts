@@ -0,0 +1,119 @@
+import { GameClock, type ClockSnapshot, type ClockStore } from "@trp/date";
+import { dbFor, eq } from "@trp/db";
+import { ClockEvents, type ClockSync } from "../shared/clock";
+import { getCoreConfig } from "./config";
+import schema from "./schema";
+
+/*
+ * Reloj de juego autoritativo. Lo arranca index.ts tras las migraciones; los
+ * comandos (commands/clock.ts) y los exports lo leen de globalThis porque cada
+ * archivo de server/ se compila en su propio bundle.
+ */
+
+const CLOCK_KEY = Symbol.for("__TRP_CORE_GAME_CLOCK__");
+const CLOCK_ID = "default";
+
+type ClockGlobal = { clock?: GameClock; stop?: () => Promise<void> };
+
+const holder: ClockGlobal =
+	// eslint-disable-next-line @typescript-eslint/no-explicit-any
+	((globalThis as any)[CLOCK_KEY] as ClockGlobal) ?? {};
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+(globalThis as any)[CLOCK_KEY] = holder;
+
+/** Fila `game_clock` de @trp/db como ClockStore. */
+function dbClockStore(): ClockStore {
+	const db = dbFor(schema);
+	return {
+		async load() {
+			const rows = await db
+				.select()
+				.from(schema.gameClock)
+				.where(eq(schema.gameClock.id, CLOCK_ID))
+				.limit(1);
+			const row = rows[0];
+			if (!row) return undefined;
+			return { gameTime: row.gameTime, scale: row.scale, paused: row.paused };
+		},
+		async save(snapshot: ClockSnapshot) {
+			const gameTime = Math.round(snapshot.gameTime);
+			await db
+				.insert(schema.gameClock)
+				.values({ id: CLOCK_ID, ...snapshot, gameTime })
+				.onDuplicateKeyUpdate({
+					set: { gameTime, scale: snapshot.scale, paused: snapshot.paused },
+				});
+		},
+	};
+}
+
+/** El reloj en marcha, o undefined antes de startClock(). */
+export function getGameClock(): GameClock | undefined {
+	return holder.clock;
+}
+
+/**
+ * Crea el reloj con la config `clock`, recupera la fecha guardada y empieza a
+ * sincronizar clientes. La tabla tiene que existir (tras runMigrations).
+ */
+export async function startClock(): Promise<GameClock> {
+	if (holder.clock) return holder.clock;
+	const cfg = getCoreConfig().clock;
+	const store = dbClockStore();
+	const clock = new GameClock({
+		scale: cfg.scale,
+		tz: cfg.timezone,
+		gameTime: cfg.startAt ? Date.parse(cfg.startAt) : undefined,
+	});
+	const offStore = await clock.restore(store);
+
+	const save = () =>
+		store.save(clock.snapshot()).catch((e) => {
+			console.error("[trp-core] reloj: no se pudo guardar:", e);
+		});
+	const payload = (): ClockSync => ({ ...clock.snapshot(), tz: clock.tz });
+	const broadcast = () => emitNet(ClockEvents.sync, -1, payload());
+
+	// restore() guarda cada cambio; entre cambios la fecha avanza sola, así que
+	// también se guarda cada hora de juego para no perderla en un reinicio
+	const offChange = clock.onChange(broadcast);
+	const offHour = clock.onGameHour((hour, now) => {
+		void save();
+		emit(ClockEvents.hour, hour, now.toISOString());
+	});
+	const offDay = clock.onGameDay((now) => {
+		emit(ClockEvents.day, now.toISOString());
+	});
+	const onRequest = () => {
+		emitNet(ClockEvents.sync, source, payload());
+	};
+	onNet(ClockEvents.request, onRequest);
+	// Corrige la deriva entre los relojes reales de server y clientes
+	const syncTimer = setInterval(broadcast, cfg.syncIntervalSec * 1000);
+
+	clock.start();
+	broadcast();
+	holder.clock = clock;
+	holder.stop = async () => {
+		clock.stop();
+		clearInterval(syncTimer);
+		removeEventListener(ClockEvents.request, onRequest);
+		offStore();
+		offChange();
+		offHour();
+		offDay();
+		await save();
+	};
+	console.log(
+		`[trp-core] reloj de juego: ${clock.now().format("YYYY-MM-DD HH:mm")} (x${clock.scale}${clock.paused ? ", pausado" : ""})`,
+	);
+	return clock;
+}
+
+/** Para el reloj y guarda su estado; llamar antes de cerrar la base de datos. */
+export async function stopClock(): Promise<void> {
+	const stop = holder.stop;
+	holder.clock = undefined;
+	holder.stop = undefined;
+	await stop?.();
+}
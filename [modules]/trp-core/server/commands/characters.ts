@@ -0,0 +1,38 @@
+import { serverRpc } from "@trp/rpc";
+import type { CoreRpc } from "../../shared/rpc";
+import {
+	createCharacter,
+	deleteCharacter,
+	getCharacterId,
+	listCharacters,
+	requireSession,
+	selectCharacter,
+} from "../characters";
+import { getCoreConfig } from "../config";
+
+const rpc = serverRpc<CoreRpc>();
+
+// La pantalla de selección de la NUI (nui/stores/player.ts)
+rpc.handle("core:getCharacters", async (source) => {
+	const session = requireSession(source);
+	return {
+		characters: await listCharacters(session.playerId),
+		max: getCoreConfig().limits.maxCharactersPerPlayer,
+		selectedId: session.characterId ?? null,
+	};
+});
+
+rpc.handle("core:createCharacter", (source, input) =>
+	createCharacter(requireSession(source).playerId, input),
+);
+
+rpc.handle("core:selectCharacter", (source, { id }) =>
+	selectCharacter(source, Number(id)),
+);
+
+rpc.handle("core:deleteCharacter", (source, { id }) =>
+	deleteCharacter(requireSession(source).playerId, Number(id)),
+);
+
+exports("getCharacterId", (source: number) => getCharacterId(source));
+exports("listCharacters", (playerId: number) => listCharacters(playerId));
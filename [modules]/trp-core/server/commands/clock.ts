@@ -0,0 +1,81 @@
+import type { GameClock } from "@trp/date";
+import { getGameClock } from "../clock";
+
+function running(): GameClock | undefined {
+	const clock = getGameClock();
+	if (!clock) console.log("[trp-core] el reloj de juego aún no ha arrancado");
+	return clock;
+}
+
+function describe(clock: GameClock): string {
+	return `${clock.now().format("YYYY-MM-DD HH:mm")} (x${clock.scale}${clock.paused ? ", pausado" : ""})`;
+}
+
+// trp:clock → fecha de juego, escala y si está pausado
+RegisterCommand(
+	"trp:clock",
+	() => {
+		const clock = running();
+		if (clock) console.log(`[trp-core] reloj: ${describe(clock)}`);
+	},
+	true,
+);
+
+// trp:clock:set <HH:mm | fecha ISO> → mueve el reloj (misma fecha si solo se da la hora)
+RegisterCommand(
+	"trp:clock:set",
+	(_source: number, args: string[]) => {
+		const clock = running();
+		if (!clock) return;
+		const value = args[0] ?? "";
+		const hm = /^(\d{1,2}):(\d{2})$/.exec(value);
+		if (hm) {
+			clock.set(
+				clock
+					.now()
+					.set("hour", Number(hm[1]))
+					.set("minute", Number(hm[2]))
+					.set("second", 0),
+			);
+		} else if (!Number.isNaN(Date.parse(value))) {
+			clock.set(value);
+		} else {
+			console.log("[trp-core] uso: trp:clock:set <HH:mm | fecha ISO>");
+			return;
+		}
+		console.log(`[trp-core] reloj: ${describe(clock)}`);
+	},
+	true,
+);
+
+// trp:clock:scale <n> → minutos de juego por minuto real
+RegisterCommand(
+	"trp:clock:scale",
+	(_source: number, args: string[]) => {
+		const clock = running();
+		if (!clock) return;
+		const scale = Number(args[0]);
+		if (!(scale > 0)) {
+			console.log("[trp-core] uso: trp:clock:scale <n> (n > 0)");
+			return;
+		}
+		clock.setScale(scale);
+		console.log(`[trp-core] reloj: ${describe(clock)}`);
+	},
+	true,
+);
+
+// trp:clock:pause / trp:clock:resume → congela o reanuda la hora de juego
+RegisterCommand("trp:clock:pause", () => running()?.pause(), true);
+RegisterCommand("trp:clock:resume", () => running()?.resume(), true);
+
+/* ---------------------------------- Exports -------------------------------- */
+// Las fechas cruzan recursos como ISO; el reloj en sí no es serializable
+exports("getGameTime", () => getGameClock()?.now().toISOString());
+exports("getGameClockState", () => getGameClock()?.snapshot());
+exports("setGameTime", (iso: string) => getGameClock()?.set(iso));
+exports("setGameClockScale", (scale: number) =>
+	getGameClock()?.setScale(scale),
+);
+exports("pauseGameClock", () => getGameClock()?.pause());
+exports("resumeGameClock", () => getGameClock()?.resume());
@@ -0,0 +1,60 @@
+import {
+	explainConfig,
+	onConfigChange,
+	reloadConfig,
+	unwatchConfig,
+	watchConfig,
+} from "@trp/config";
+import { CoreConfigSchema } from "../config";
+
+// trp:config:explain [ruta] → qué capa (archivo, TRP__*, trp:*) aporta cada valor
+RegisterCommand(
+	"trp:config:explain",
+	(_source: number, args: string[]) => {
+		const entries = explainConfig(args[0] ?? "");
+		if (entries.length === 0) {
+			console.log(`[trp-core] config: nada definido en "${args[0] ?? ""}"`);
+			return;
+		}
+		for (const e of entries) {
+			console.log(
+				`[trp-core] ${e.path} = ${JSON.stringify(e.value)}  ← ${e.layer} (${e.source})`,
+			);
+		}
+	},
+	true,
+);
+
+/* --------------------------- Recarga en caliente --------------------------- */
+// Registrar el schema hace que una edición inválida de trp-core.* se descarte
+onConfigChange("trp-core", CoreConfigSchema, (next, prev) => {
+	console.log("[trp-core] config actualizada", { prev, next });
+});
+
+// trp:config:reload → fuerza la recarga sin esperar al watcher
+RegisterCommand(
+	"trp:config:reload",
+	() => {
+		const result = reloadConfig();
+		if (result.ok) {
+			console.log(
+				`[trp-core] config recargada; cambios en: ${result.changed.join(", ") || "ninguno"}`,
+			);
+		}
+	},
+	true,
+);
+
+// Los Error no cruzan bien entre recursos: se devuelve solo el mensaje
+exports("reloadConfig", () => {
+	const result = reloadConfig();
+	return result.ok ? result : { ok: false, error: result.error.message };
+});
+
+on("onResourceStart", (resourceName: string) => {
+	if (resourceName === GetCurrentResourceName()) watchConfig();
+});
+
+on("onResourceStop", (resourceName: string) => {
+	if (resourceName === GetCurrentResourceName()) unwatchConfig();
+});
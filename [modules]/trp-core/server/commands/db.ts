@@ -0,0 +1,89 @@
+import {
+	migrationStatus,
+	poolStats,
+	resetDbMetrics,
+	runMigrations,
+	topQueries,
+	type QueryStatsOrder,
+} from "@trp/db";
+
+// trp:db:status [modulo] → estado de cada migración registrada
+RegisterCommand(
+	"trp:db:status",
+	async (_source: number, args: string[]) => {
+		try {
+			for (const m of await migrationStatus(args[0])) {
+				console.log(
+					`[trp-core] ${m.module} ${String(m.version).padStart(4, "0")}_${m.name}: ${m.state}${m.appliedAt ? ` (${m.appliedAt})` : ""}`,
+				);
+			}
+		} catch (e) {
+			console.error("[trp-core] trp:db:status:", (e as Error).message);
+		}
+	},
+	true,
+);
+
+// trp:db:migrate [modulo] [--dry-run] → aplica (o lista) las migraciones pendientes
+RegisterCommand(
+	"trp:db:migrate",
+	async (_source: number, args: string[]) => {
+		const dryRun = args.includes("--dry-run");
+		const module = args.find((a) => !a.startsWith("--"));
+		try {
+			const result = await runMigrations({ module, dryRun });
+			if (result.applied.length === 0) {
+				console.log("[trp-core] no hay migraciones pendientes");
+			}
+			for (const m of result.applied) {
+				console.log(
+					`[trp-core] ${dryRun ? "pendiente" : "aplicada"}: ${m.module} ${m.version}_${m.name}`,
+				);
+			}
+		} catch (e) {
+			console.error("[trp-core] trp:db:migrate:", (e as Error).message);
+		}
+	},
+	true,
+);
+
+/* --------------------------------- Métricas -------------------------------- */
+// trp:db:top [n] [total|max|avg|count] → sentencias más costosas desde el arranque
+RegisterCommand(
+	"trp:db:top",
+	(_source: number, args: string[]) => {
+		const n = Number(args[0]) || 10;
+		const by = (args[1] ?? "total") as QueryStatsOrder;
+		const top = topQueries(n, by);
+		if (top.length === 0) {
+			console.log("[trp-core] aún no hay consultas registradas");
+			return;
+		}
+		for (const q of top) {
+			console.log(
+				`[trp-core] ${q.module} ${q.kind} x${q.count} total=${Math.round(q.totalMs)}ms avg=${q.avgMs.toFixed(1)}ms max=${Math.round(q.maxMs)}ms${q.errors ? ` errores=${q.errors}` : ""}\n    ${q.sql}`,
+			);
+		}
+	},
+	true,
+);
+
+// trp:db:pool → conexiones activas/libres/en cola
+RegisterCommand(
+	"trp:db:pool",
+	() => {
+		const s = poolStats();
+		console.log(
+			`[trp-core] pool: ${s.active} activas, ${s.idle} libres, ${s.queued} en cola (límite ${s.limit})`,
+		);
+	},
+	true,
+);
+
+// trp:db:reset → reinicia las métricas (p. ej. al empezar la hora punta)
+RegisterCommand("trp:db:reset", () => resetDbMetrics(), true);
+
+exports("dbTopQueries", (n?: number, by?: QueryStatsOrder) =>
+	topQueries(n, by),
+);
+exports("dbPoolStats", () => poolStats());
@@ -0,0 +1,76 @@
+import { Duration } from "@trp/date";
+import { listJobs, runJobNow, upcomingRuns } from "@trp/scheduler";
+
+const when = (d?: { format(fmt: string): string }) =>
+	d ? d.format("YYYY-MM-DD HH:mm:ss") : "—";
+
+// trp:jobs → trabajos registrados, su programación y la última ejecución
+RegisterCommand(
+	"trp:jobs",
+	() => {
+		const jobs = listJobs();
+		if (jobs.length === 0) {
+			console.log("[trp-core] no hay trabajos programados");
+			return;
+		}
+		for (const j of jobs) {
+			const last = j.lastRunAt
+				? `${when(j.lastRunAt)} ${j.lastStatus}${j.lastDurationMs !== undefined ? ` en ${Duration.of(j.lastDurationMs).format()}` : ""}`
+				: "nunca";
+			console.log(
+				`[trp-core] ${j.name} (${j.schedule})${j.running ? " [en curso]" : ""}\n    próxima: ${when(j.nextRunAt)}  última: ${last}  ejecuciones: ${j.runCount}`,
+			);
+		}
+	},
+	true,
+);
+
+// trp:jobs:next [n] → próximas n ejecuciones de todos los trabajos
+RegisterCommand(
+	"trp:jobs:next",
+	(_source: number, args: string[]) => {
+		const runs = upcomingRuns(Number(args[0]) || 10);
+		if (runs.length === 0) {
+			console.log("[trp-core] no hay ejecuciones pendientes");
+			return;
+		}
+		const now = Date.now();
+		for (const r of runs) {
+			const wait = Duration.of(r.at.toDate().getTime() - now);
+			console.log(
+				`[trp-core] ${when(r.at)}  ${r.name}  (en ${wait.humanize({ largest: 2 })})`,
+			);
+		}
+	},
+	true,
+);
+
+// trp:jobs:run <nombre> → ejecuta un trabajo ahora, fuera de su programación
+RegisterCommand(
+	"trp:jobs:run",
+	async (_source: number, args: string[]) => {
+		try {
+			const ran = await runJobNow(args[0] ?? "");
+			console.log(
+				ran
+					? `[trp-core] ${args[0]} ejecutado`
+					: `[trp-core] ${args[0]} no se ejecutó (ya en curso aquí o en otro nodo)`,
+			);
+		} catch (e) {
+			console.error("[trp-core] trp:jobs:run:", (e as Error).message);
+		}
+	},
+	true,
+);
+
+// Para paneles de administración: fechas en ISO, que cruzan recursos sin problema
+exports("listJobs", () =>
+	listJobs().map((j) => ({
+		...j,
+		nextRunAt: j.nextRunAt?.toISOString(),
+		lastRunAt: j.lastRunAt?.toISOString(),
+	})),
+);
+exports("upcomingJobRuns", (limit?: number) =>
+	upcomingRuns(limit).map((r) => ({ name: r.name, at: r.at.toISOString() })),
+);
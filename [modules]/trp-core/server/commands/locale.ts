@@ -0,0 +1,45 @@
+import { serverRpc } from "@trp/rpc";
+import {
+	getLocaleSettings,
+	getPlayerLocale,
+	forgetPlayerLocale,
+	setPlayerLocale,
+} from "../locale";
+import { LocaleEvents } from "../../shared/locale";
+import type { CoreRpc } from "../../shared/rpc";
+
+// El cliente manda el idioma del juego al cargar; se respeta si está soportado
+onNet(LocaleEvents.detected, (tag: string) => {
+	setPlayerLocale(source, tag);
+});
+
+// La NUI lo pide al montarse; los cambios posteriores le llegan por LocaleEvents.apply
+serverRpc<CoreRpc>().handle("core:getLocale", (source) =>
+	getLocaleSettings(source),
+);
+
+on("playerDropped", () => {
+	forgetPlayerLocale(source);
+});
+
+// trp:locale <id> [es|en] → consulta o cambia el idioma de un jugador
+RegisterCommand(
+	"trp:locale",
+	(_source: number, args: string[]) => {
+		const target = Number(args[0]);
+		if (!target) {
+			console.log("[trp-core] uso: trp:locale <id> [es|en]");
+			return;
+		}
+		const locale = args[1]
+			? setPlayerLocale(target, args[1])
+			: getPlayerLocale(target);
+		console.log(`[trp-core] idioma de ${target}: ${locale}`);
+	},
+	true,
+);
+
+exports("getPlayerLocale", (source: number) => getPlayerLocale(source));
+exports("setPlayerLocale", (source: number, locale: string) =>
+	setPlayerLocale(source, locale),
+);
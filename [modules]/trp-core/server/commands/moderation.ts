@@ -0,0 +1,196 @@
+import { schedule } from "@trp/scheduler";
+import { serverRpc } from "@trp/rpc";
+import {
+	ModerationEvents,
+	ModerationPermissions as Perm,
+} from "../../shared/moderation";
+import type { CoreRpc } from "../../shared/rpc";
+import {
+	ban,
+	checkBan,
+	expireBans,
+	getHistory,
+	kick,
+	searchPlayers,
+	unban,
+	warn,
+} from "../moderation";
+import { reply } from "../notify";
+import { actorOf, guardCommand, requirePermission } from "../rbac";
+import { addAdmissionCheck, getPlayer } from "../sessions";
+
+// Los baneados (o quien comparte identificadores con ellos) no entran
+addAdmissionCheck(checkBan);
+
+schedule({
+	name: "core:ban-expiry",
+	every: "1m",
+	catchUp: "once",
+	run: async () => {
+		const expired = await expireBans();
+		if (expired > 0) console.log(`[trp-core] ${expired} baneo(s) caducado(s)`);
+	},
+});
+
+// --- Panel de la NUI ---------------------------------------------------------
+const rpc = serverRpc<CoreRpc>();
+
+rpc.handle("core:searchPlayers", async (source, { query }) => {
+	await requirePermission(source, Perm.panel);
+	return searchPlayers(String(query ?? ""));
+});
+
+rpc.handle("core:getModerationHistory", async (source, { playerId }) => {
+	await requirePermission(source, Perm.panel);
+	return getHistory(Number(playerId));
+});
+
+rpc.handle("core:warnPlayer", async (source, req) => {
+	await requirePermission(source, Perm.warn);
+	await warn(actorOf(source), req);
+});
+
+rpc.handle("core:kickPlayer", async (source, req) => {
+	await requirePermission(source, Perm.kick);
+	await kick(actorOf(source), req);
+});
+
+rpc.handle("core:banPlayer", async (source, req) => {
+	await requirePermission(source, Perm.ban);
+	return ban(actorOf(source), req);
+});
+
+rpc.handle("core:unbanPlayer", async (source, { playerId, reason }) => {
+	await requirePermission(source, Perm.unban);
+	return unban(actorOf(source), Number(playerId), reason);
+});
+
+// --- Comandos ----------------------------------------------------------------
+/** "#12" → players.id 12; "3" → el jugador conectado con source 3. */
+function targetPlayerId(arg: string | undefined): number | undefined {
+	if (!arg) return undefined;
+	if (arg.startsWith("#")) return Number(arg.slice(1)) || undefined;
+	return getPlayer(Number(arg))?.playerId;
+}
+
+function sanctionCommand(
+	permission: string,
+	usage: string,
+	run: (source: number, playerId: number, args: string[]) => Promise<string>,
+) {
+	return guardCommand(permission, async (source, args) => {
+		const playerId = targetPlayerId(args[0]);
+		if (playerId === undefined) {
+			reply(source, `uso: ${usage} (id conectado o #id de jugador)`, true);
+			return;
+		}
+		try {
+			reply(source, await run(source, playerId, args.slice(1)));
+		} catch (err) {
+			reply(source, err instanceof Error ? err.message : String(err), true);
+		}
+	});
+}
+
+// trp:warn <id|#jugador> <motivo...>
+RegisterCommand(
+	"trp:warn",
+	sanctionCommand(
+		Perm.warn,
+		"trp:warn <id> <motivo>",
+		async (source, playerId, args) => {
+			await warn(actorOf(source), { playerId, reason: args.join(" ") });
+			return `aviso registrado para el jugador ${playerId}`;
+		},
+	),
+	false,
+);
+
+// trp:kick <id|#jugador> <motivo...>
+RegisterCommand(
+	"trp:kick",
+	sanctionCommand(
+		Perm.kick,
+		"trp:kick <id> <motivo>",
+		async (source, playerId, args) => {
+			await kick(actorOf(source), { playerId, reason: args.join(" ") });
+			return `jugador ${playerId} expulsado`;
+		},
+	),
+	false,
+);
+
+// trp:ban <id|#jugador> <duración|perm> <motivo...> → "trp:ban 3 7d Hacks"
+RegisterCommand(
+	"trp:ban",
+	sanctionCommand(
+		Perm.ban,
+		"trp:ban <id> <2h|7d|perm> <motivo>",
+		async (source, playerId, [duration, ...reason]) => {
+			const result = await ban(actorOf(source), {
+				playerId,
+				reason: reason.join(" "),
+				duration: duration === "perm" ? undefined : duration,
+			});
+			return `baneo #${result.id} para el jugador ${playerId} (${result.expiresAt ?? "permanente"})`;
+		},
+	),
+	false,
+);
+
+// trp:unban <#jugador> [motivo...]
+RegisterCommand(
+	"trp:unban",
+	sanctionCommand(
+		Perm.unban,
+		"trp:unban <#id> [motivo]",
+		async (source, playerId, args) => {
+			const lifted = await unban(
+				actorOf(source),
+				playerId,
+				args.join(" ") || undefined,
+			);
+			return lifted
+				? `baneo del jugador ${playerId} levantado`
+				: `el jugador ${playerId} no tiene baneos activos`;
+		},
+	),
+	false,
+);
+
+// trp:history <id|#jugador> → últimas sanciones en la consola
+RegisterCommand(
+	"trp:history",
+	sanctionCommand(Perm.panel, "trp:history <id>", async (_source, playerId) => {
+		const history = await getHistory(playerId, 20);
+		for (const h of history) {
+			console.log(
+				`[trp-core]   ${h.createdAt} ${h.action} por ${h.actor}: ${h.reason ?? "—"}`,
+			);
+		}
+		return `${history.length} entrada(s) del jugador ${playerId} (ver consola)`;
+	}),
+	false,
+);
+
+// trp:modpanel → abre el panel de moderación de la NUI
+RegisterCommand(
+	"trp:modpanel",
+	guardCommand(Perm.panel, (source) => {
+		if (source === 0) return;
+		emitNet(ModerationEvents.openPanel, source);
+	}),
+	false,
+);
+
+// --- Exports -----------------------------------------------------------------
+// Desde otro recurso: exports["trp-core"].ban({ playerId, reason, duration: "1d" })
+const invoker = () => `resource:${GetInvokingResource() ?? "desconocido"}`;
+
+exports("warn", (req: unknown) => warn(invoker(), req));
+exports("kick", (req: unknown) => kick(invoker(), req));
+exports("ban", (req: unknown) => ban(invoker(), req));
+exports("unban", (playerId: number, reason?: string) =>
+	unban(invoker(), playerId, reason),
+);
+exports("getModerationHistory", (playerId: number) => getHistory(playerId));
@@ -0,0 +1,45 @@
+import { serverRpc } from "@trp/rpc";
+import type { NotifyOptions } from "../../shared/notify";
+import type { CoreRpc } from "../../shared/rpc";
+import {
+	dismissNotification,
+	forgetNotifications,
+	notify,
+	resolveNotificationAction,
+	type NotifyActionHandler,
+} from "../notify";
+
+// La NUI avisa de la acción elegida (callServer a través del cliente)
+serverRpc<CoreRpc>().handle("core:notifyAction", (source, { id, actionId }) =>
+	resolveNotificationAction(source, id, actionId),
+);
+
+on("playerDropped", () => {
+	forgetNotifications(source);
+});
+
+// trp:notify <id|-1> <mensaje...> → notificación de prueba
+RegisterCommand(
+	"trp:notify",
+	(_source: number, args: string[]) => {
+		const target = Number(args[0]);
+		const message = args.slice(1).join(" ");
+		if (!target || !message) {
+			console.log("[trp-core] uso: trp:notify <id|-1> <mensaje>");
+			return;
+		}
+		const id = notify(target, { title: "Consola", message });
+		console.log(`[trp-core] notificación ${id} enviada a ${target}`);
+	},
+	true,
+);
+
+// onAction puede venir de otro recurso (referencia a función de FiveM)
+exports(
+	"notify",
+	(source: number, options: NotifyOptions, onAction?: NotifyActionHandler) =>
+		notify(source, options, onAction),
+);
+exports("dismissNotification", (source: number, id: string) =>
+	dismissNotification(source, id),
+);
@@ -0,0 +1,89 @@
+import {
+	actorOf,
+	can,
+	forgetPermissions,
+	grant,
+	guardCommand,
+	revoke,
+	type GrantSubject,
+	type GrantTarget,
+} from "../rbac";
+import { reply } from "../notify";
+import { getPlayer } from "../sessions";
+
+on("playerDropped", () => {
+	forgetPermissions(Number(source));
+});
+
+/** "vehicle.spawn" o "admin.*" es un permiso; "admin" es un rol. */
+function parseTarget(value: string): GrantTarget {
+	return value.includes(".") || value.includes("*")
+		? { permission: value }
+		: { role: value };
+}
+
+/** Al personaje con el que juega, o al jugador entero con "player" (o sin personaje). */
+function parseSubject(
+	target: number,
+	scope?: string,
+): GrantSubject | undefined {
+	const session = getPlayer(target);
+	if (!session) return undefined;
+	if (scope === "player" || session.characterId === undefined) {
+		return { playerId: session.playerId };
+	}
+	return { characterId: session.characterId };
+}
+
+function grantCommand(action: "grant" | "revoke") {
+	return guardCommand("rbac.manage", async (source: number, args: string[]) => {
+		const target = Number(args[0]);
+		const subject = parseSubject(target, args[2]);
+		if (!args[1] || !subject) {
+			reply(
+				source,
+				`uso: trp:${action} <id conectado> <rol|permiso> [player]`,
+				true,
+			);
+			return;
+		}
+		let changed: boolean;
+		try {
+			changed = await (action === "grant" ? grant : revoke)(
+				actorOf(source),
+				subject,
+				parseTarget(args[1]),
+			);
+		} catch (err) {
+			console.error(`[trp-core] trp:${action}:`, err);
+			reply(source, `trp:${action} ha fallado`, true);
+			return;
+		}
+		reply(
+			source,
+			`${action} ${args[1]} → ${JSON.stringify(subject)}: ${changed ? "hecho" : "sin cambios"}`,
+		);
+	});
+}
+
+// trp:grant <id> <rol|permiso> [player] → al personaje actual (o al jugador)
+RegisterCommand("trp:grant", grantCommand("grant"), false);
+// trp:revoke <id> <rol|permiso> [player]
+RegisterCommand("trp:revoke", grantCommand("revoke"), false);
+
+// trp:can <id> <permiso> → comprueba un permiso
+RegisterCommand(
+	"trp:can",
+	guardCommand("rbac.manage", async (source: number, args: string[]) => {
+		const target = Number(args[0]);
+		if (!target || !args[1]) {
+			reply(source, "uso: trp:can <id> <permiso>", true);
+			return;
+		}
+		reply(source, `${target} ${args[1]}: ${await can(target, args[1])}`);
+	}),
+	false,
+);
+
+// Desde otro recurso: await exports["trp-core"].can(source, "vehicle.spawn")
+exports("can", (source: number, permission: string) => can(source, permission));
@@ -0,0 +1,74 @@
+import {
+	admitPlayer,
+	endSession,
+	getOnlinePlayers,
+	getPlayer,
+	startSession,
+} from "../sessions";
+
+/** Deferrals de playerConnecting (subconjunto que usamos). */
+interface Deferrals {
+	defer(): void;
+	update(message: string): void;
+	done(failureReason?: string): void;
+}
+
+// Identificadores, alta en `players` y baneos antes de dejar entrar
+on(
+	"playerConnecting",
+	async (name: string, _setKickReason: unknown, deferrals: Deferrals) => {
+		const tempSource = Number(source);
+		deferrals.defer();
+		// FiveM ignora update() en el mismo tick que defer()
+		await new Promise((resolve) => setTimeout(resolve, 0));
+		deferrals.update("Comprobando tu cuenta...");
+		try {
+			deferrals.done(await admitPlayer(tempSource, name));
+		} catch (err) {
+			console.error(`[trp-core] no se pudo admitir a ${name}:`, err);
+			deferrals.done("No se pudo cargar tu cuenta. Inténtalo de nuevo.");
+		}
+	},
+);
+
+// El jugador ya tiene su id definitivo (source); oldId es el de playerConnecting
+on("playerJoining", async (oldId: string) => {
+	const player = Number(source);
+	try {
+		await startSession(player, Number(oldId));
+	} catch (err) {
+		console.error(`[trp-core] no se pudo abrir la sesión de ${player}:`, err);
+	}
+});
+
+on("playerDropped", async (reason: string) => {
+	const player = Number(source);
+	try {
+		await endSession(player, reason);
+	} catch (err) {
+		console.error(`[trp-core] no se pudo cerrar la sesión de ${player}:`, err);
+	}
+});
+
+// trp:players → jugadores conectados con su sesión
+RegisterCommand(
+	"trp:players",
+	() => {
+		const sessions = getOnlinePlayers();
+		if (sessions.length === 0) {
+			console.log("[trp-core] no hay jugadores conectados");
+			return;
+		}
+		for (const s of sessions) {
+			const minutes = Math.floor(
+				(Date.now() - s.connectedAt.getTime()) / 60_000,
+			);
+			console.log(
+				`[trp-core] ${s.source} ${s.name} (player ${s.playerId}, license:${s.identifiers.license}) ${minutes} min`,
+			);
+		}
+	},
+	true,
+);
+
+exports("getPlayer", (source: number) => getPlayer(source));
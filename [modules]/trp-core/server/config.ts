@@ -1,10 +1,12 @@
 import { z } from "zod";
-import { configFor } from "@trp/config";
+import { configFor, registerConfigSchema } from "@trp/config";
 
 export const CoreConfigSchema = z.object({
 	featureFlags: z
 		.object({
+			// Una fila en player_sessions por conexión (server/sessions.ts)
 			playerSessionAudit: z.boolean().default(true),
+			// Roles y permisos en la base de datos; sin él, can() usa los ACE de FiveM
 			rbac: z.boolean().default(true),
 		})
 		.default({}),
@@ -13,10 +15,23 @@ export const CoreConfigSchema = z.object({
 			maxCharactersPerPlayer: z.number().int().positive().default(3),
 		})
 		.default({}),
+	clock: z
+		.object({
+			// Minutos de juego por minuto real: 60 = 1 minuto real es 1 hora de juego
+			scale: z.number().positive().default(60),
+			// Zona horaria del calendario de juego (horas y días)
+			timezone: z.string().default("UTC"),
+			// Fecha de juego inicial (ISO) cuando aún no hay estado guardado
+			startAt: z.string().optional(),
+			syncIntervalSec: z.number().int().positive().default(60),
+		})
+		.default({}),
 });
 
 export type CoreConfig = z.infer<typeof CoreConfigSchema>;
 
+registerConfigSchema("modules.trp-core", CoreConfigSchema);
+
 export function getCoreConfig(): CoreConfig {
 	return configFor("trp-core", CoreConfigSchema);
 }
@@ -1,21 +1,103 @@
-import { DateWrapper } from "@trp/date";
-import { getMySqlConfig } from "@trp/config";
-import { dbFor, eq, getPool } from "@trp/db";
+import path from "node:path";
+import { configureDateFormats, DateWrapper } from "@trp/date";
+import { closeCache, configureCache } from "@trp/cache";
+import {
+	getDateConfig,
+	getDatasourceConfigs,
+	getRedisConfig,
+	getSchedulerConfig,
+} from "@trp/config";
+import {
+	close,
+	configureDatasources,
+	onDbStatusChange,
+	registerMigrations,
+	runMigrations,
+	waitForDb,
+} from "@trp/db";
+import {
+	configureScheduler,
+	startScheduler,
+	stopScheduler,
+} from "@trp/scheduler";
+import { startClock, stopClock } from "./clock";
 import schema from "./schema"; // el default export del archivo de arriba
+import { startRbac, stopRbac } from "./rbac";
+import { endAllSessions, restoreSessions } from "./sessions";
 
-const cfg = getMySqlConfig();
-const pool = getPool({
-	MYSQL_HOST: cfg.host,
-	MYSQL_PORT: cfg.port,
-	MYSQL_DATABASE: cfg.database,
-	MYSQL_USER: cfg.user,
-	MYSQL_PASSWORD: cfg.password,
-	MYSQL_POOL_LIMIT: cfg.poolLimit,
+// Idioma por defecto del server (logs, comandos); cada jugador tiene el suyo (./locale)
+configureDateFormats(getDateConfig());
+// db.mysql es "default"; db.datasources.* (y sus réplicas) se conectan al primer uso
+configureDatasources(getDatasourceConfigs());
+// Sin redis.host la caché vive en memoria (un solo nodo)
+configureCache({ redis: getRedisConfig() });
+// Los trabajos se registran con schedule() en cualquier script; arrancan tras las migraciones
+configureScheduler(getSchedulerConfig());
+
+registerMigrations({
+	module: "trp-core",
+	dir: path.join(GetResourcePath(GetCurrentResourceName()), "migrations"),
+	schema,
 });
-const db = dbFor(schema);
 
-on("onResourceStart", (resourceName: string) => {
+/**
+ * Un paso del arranque o la parada. FiveM no espera a los handlers async: un
+ * fallo se registra aquí y no impide que se intenten los pasos siguientes.
+ */
+async function step(name: string, run: () => unknown): Promise<boolean> {
+	try {
+		await run();
+		return true;
+	} catch (err) {
+		console.error(`[trp-core] ${name}:`, err);
+		return false;
+	}
+}
+
+on("onResourceStart", async (resourceName: string) => {
+	if (resourceName !== GetCurrentResourceName()) return;
 	console.log("Resource started:", resourceName);
+
+	// Si MariaDB aún no está arriba, @trp/db reintenta con backoff hasta que responda
+	if (!(await step("no se pudo conectar a la base de datos", waitForDb)))
+		return;
+	// Las tablas tienen que existir antes de la primera consulta: sin ellas no se sigue
+	const migrated = await step("fallaron las migraciones", () =>
+		runMigrations({ module: "trp-core" }),
+	);
+	if (!migrated) return;
+	// La fecha de juego se recupera de game_clock
+	await step("no se pudo arrancar el reloj de juego", startClock);
+	// Recupera las ejecuciones perdidas mientras el servidor estuvo parado
+	await step("no se pudo arrancar el scheduler", startScheduler);
+	// Cambios de permisos hechos en otros nodos
+	await step("no se pudo arrancar RBAC", startRbac);
+	// Jugadores que ya estaban dentro si el recurso se reinicia
+	await step("no se pudieron recuperar las sesiones", restoreSessions);
+});
+
+const offDbStatus = onDbStatusChange((status, prev) => {
+	console.log(`[trp-core] base de datos: ${prev} → ${status}`);
+});
+
+// El pool vive en globalThis: sin esto cada reinicio del recurso deja conexiones abiertas
+on("onResourceStop", async (resourceName: string) => {
+	if (resourceName !== GetCurrentResourceName()) return;
+	try {
+		offDbStatus();
+		await step("no se pudo parar el scheduler", stopScheduler);
+		await step("no se pudo parar RBAC", stopRbac);
+		// Guarda la fecha de juego antes de cerrar el pool
+		await step("no se pudo guardar el reloj de juego", stopClock);
+		// Última conexión y duración de las sesiones abiertas
+		await step("no se pudieron cerrar las sesiones", () =>
+			endAllSessions("Recurso detenido"),
+		);
+	} finally {
+		await step("no se pudieron cerrar las conexiones", () =>
+			Promise.all([close(), closeCache()]),
+		);
+	}
 });
 
 console.log(
@@ -23,14 +105,3 @@ console.log(
 	DateWrapper.now().format("YYYY-MM-DD"),
 	exports["rpjs-config"].getServerConfig(),
 );
-
-setImmediate(async () => {
-	console.log("Immediate callback executed");
-	await pool.getConnection();
-	const players = await db
-		.select()
-		.from(schema.players)
-		.where(eq(schema.players.id, 2));
-
-	console.log("players:", players);
-});
@@ -0,0 +1,46 @@
+import { getDateConfig } from "@trp/config";
+import { DateWrapper, matchLocale, type DateLocale } from "@trp/date";
+import { LocaleEvents, type LocaleSettings } from "../shared/locale";
+
+/*
+ * Idioma por jugador. El mapa vive en globalThis: lo comparten los scripts de
+ * server/ del recurso (cada uno es su propio bundle).
+ */
+
+const LOCALES_KEY = Symbol.for("__TRP_CORE_PLAYER_LOCALES__");
+
+const locales: Map<number, DateLocale> =
+	// eslint-disable-next-line @typescript-eslint/no-explicit-any
+	((globalThis as any)[LOCALES_KEY] as Map<number, DateLocale>) ?? new Map();
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+(globalThis as any)[LOCALES_KEY] = locales;
+
+/** Idioma del jugador, o el de `date.locale` si aún no se conoce. */
+export function getPlayerLocale(source: number): DateLocale {
+	return locales.get(source) ?? getDateConfig().locale;
+}
+
+/** Idioma del jugador y presets de `date.presets`, como los aplica su NUI. */
+export function getLocaleSettings(source: number): LocaleSettings {
+	return { locale: getPlayerLocale(source), presets: getDateConfig().presets };
+}
+
+/**
+ * Fija el idioma del jugador (etiquetas no soportadas → `date.locale`) y se lo
+ * manda a su cliente y a su NUI junto con los presets.
+ */
+export function setPlayerLocale(source: number, tag?: string): DateLocale {
+	const locale = matchLocale(tag) ?? getDateConfig().locale;
+	locales.set(source, locale);
+	emitNet(LocaleEvents.apply, source, getLocaleSettings(source));
+	return locale;
+}
+
+export function forgetPlayerLocale(source: number): void {
+	locales.delete(source);
+}
+
+/** Fecha en el idioma del jugador, lista para fromNow()/calendar()/preset(). */
+export function dateFor(source: number, date?: DateWrapper): DateWrapper {
+	return (date ?? DateWrapper.now()).locale(getPlayerLocale(source));
+}
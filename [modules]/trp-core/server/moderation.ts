@@ -0,0 +1,393 @@
+import { DateWrapper, Duration } from "@trp/date";
+import {
+	afterCommit,
+	and,
+	dbFor,
+	desc,
+	eq,
+	gt,
+	inArray,
+	isNull,
+	like,
+	lte,
+	or,
+	txFor,
+} from "@trp/db";
+import { RpcError } from "@trp/rpc";
+import type { z } from "zod";
+import {
+	ModerationEvents,
+	SanctionSchema,
+	UnbanSchema,
+	type Ban,
+	type HistoryEntry,
+	type ModerationAction,
+	type PlayerSummary,
+	type Sanction,
+} from "../shared/moderation";
+import { notify } from "./notify";
+import type { Player } from "./players";
+import schema from "./schema";
+import { getOnlinePlayers, type PlayerIdentifiers } from "./sessions";
+
+/*
+ * Moderación: avisos, expulsiones y baneos (temporales o permanentes) con
+ * historial. Un baneo cubre todos los identificadores conocidos del jugador;
+ * quien entra con uno de ellos desde otra cuenta es una evasión: se rechaza y
+ * sus identificadores se añaden al baneo. La comprobación al conectarse la
+ * registra commands/moderation.ts (addAdmissionCheck); la caducidad, un
+ * trabajo de @trp/scheduler.
+ *
+ * Los errores son RpcError ("invalid", "not_found", "offline") para que
+ * lleguen tal cual al panel de la NUI.
+ */
+
+type BanRow = typeof schema.bans.$inferSelect;
+
+const IDENTIFIER_KINDS = ["license", "discord", "steam"] as const;
+
+const db = dbFor(schema);
+
+function toBan(row: BanRow): Ban {
+	return {
+		id: row.id,
+		playerId: row.playerId,
+		reason: row.reason,
+		issuedBy: row.issuedBy,
+		createdAt: row.createdAt.toISOString(),
+		expiresAt: row.expiresAt?.toISOString() ?? null,
+	};
+}
+
+function parseInput<T>(schema: z.ZodType<T>, input: unknown): T {
+	const parsed = schema.safeParse(input);
+	if (!parsed.success) {
+		throw new RpcError("invalid", parsed.error.issues[0].message);
+	}
+	return parsed.data;
+}
+
+const parseSanction = (input: unknown): Sanction =>
+	parseInput(SanctionSchema, input);
+
+const activeBan = () =>
+	and(
+		isNull(schema.bans.liftedAt),
+		or(isNull(schema.bans.expiresAt), gt(schema.bans.expiresAt, new Date())),
+	);
+
+/** source del jugador si está conectado. */
+function sourceOf(playerId: number): number | undefined {
+	return getOnlinePlayers().find((s) => s.playerId === playerId)?.source;
+}
+
+async function findPlayerRow(playerId: number): Promise<Player> {
+	const rows = await db
+		.select()
+		.from(schema.players)
+		.where(eq(schema.players.id, playerId))
+		.limit(1);
+	if (!rows[0])
+		throw new RpcError("not_found", `No existe el jugador ${playerId}`);
+	return rows[0];
+}
+
+/** Identificadores guardados del jugador y los de su sesión actual. */
+function identifierPairs(
+	player: Player,
+	extra: PlayerIdentifiers = {},
+): Array<{ kind: string; value: string }> {
+	const pairs = new Map<string, { kind: string; value: string }>();
+	for (const from of [player, extra]) {
+		for (const kind of IDENTIFIER_KINDS) {
+			const value = from[kind];
+			if (value) pairs.set(`${kind}:${value}`, { kind, value });
+		}
+	}
+	return [...pairs.values()];
+}
+
+async function record(
+	action: ModerationAction,
+	playerId: number,
+	actor: string,
+	reason?: string | null,
+	banId?: number,
+): Promise<void> {
+	await db
+		.insert(schema.moderationHistory)
+		.values({ action, playerId, actor, reason, banId });
+	afterCommit(() =>
+		emit(ModerationEvents.action, action, playerId, reason ?? null, actor),
+	);
+}
+
+/** Mensaje de rechazo/expulsión de un baneo. */
+export function banMessage(ban: Pick<BanRow, "id" | "reason" | "expiresAt">) {
+	const until = ban.expiresAt
+		? `hasta el ${DateWrapper.from(ban.expiresAt).format("YYYY-MM-DD HH:mm")}`
+		: "de forma permanente";
+	return `Estás baneado ${until} (#${ban.id}). Motivo: ${ban.reason}`;
+}
+
+/** Baneo activo que cubre alguno de los identificadores. */
+export async function findActiveBan(
+	identifiers: PlayerIdentifiers,
+): Promise<BanRow | undefined> {
+	const pairs = IDENTIFIER_KINDS.filter((kind) => identifiers[kind]).map(
+		(kind) =>
+			and(
+				eq(schema.banIdentifiers.kind, kind),
+				eq(schema.banIdentifiers.value, identifiers[kind]!),
+			),
+	);
+	if (pairs.length === 0) return undefined;
+	const rows = await db
+		.select({ ban: schema.bans })
+		.from(schema.bans)
+		.innerJoin(
+			schema.banIdentifiers,
+			eq(schema.banIdentifiers.banId, schema.bans.id),
+		)
+		.where(and(activeBan(), or(...pairs)))
+		.limit(1);
+	return rows[0]?.ban;
+}
+
+/**
+ * Comprobación de playerConnecting: rechaza a los baneados. Si el baneo es
+ * de otra cuenta (identificador compartido) lo anota como evasión y amplía
+ * el baneo a los identificadores de esta.
+ */
+export async function checkBan(
+	player: Player,
+	identifiers: PlayerIdentifiers,
+): Promise<string | undefined> {
+	const ban = await findActiveBan(identifiers);
+	if (!ban) return undefined;
+	if (ban.playerId !== player.id) {
+		console.warn(
+			`[trp-core] evasión de baneo: jugador ${player.id} (${player.name}) comparte identificadores con el baneo #${ban.id}`,
+		);
+		await txFor(schema, async (tx) => {
+			for (const pair of identifierPairs(player, identifiers)) {
+				await tx
+					.insert(schema.banIdentifiers)
+					.values({ banId: ban.id, ...pair })
+					.onDuplicateKeyUpdate({ set: { value: pair.value } });
+			}
+			await record(
+				"evasion",
+				player.id,
+				"system",
+				`Evasión del baneo #${ban.id}`,
+				ban.id,
+			);
+		});
+	}
+	return banMessage(ban);
+}
+
+/** Aviso con motivo; si está conectado, lo ve como notificación. */
+export async function warn(actor: string, input: unknown): Promise<void> {
+	const { playerId, reason } = parseSanction(input);
+	await findPlayerRow(playerId);
+	await txFor(schema, () => record("warn", playerId, actor, reason));
+	const source = sourceOf(playerId);
+	if (source !== undefined) {
+		notify(source, {
+			type: "warning",
+			title: "Aviso de moderación",
+			message: reason,
+			duration: 15_000,
+		});
+	}
+}
+
+/** Expulsa al jugador conectado; RpcError "offline" si no lo está. */
+export async function kick(actor: string, input: unknown): Promise<void> {
+	const { playerId, reason } = parseSanction(input);
+	const source = sourceOf(playerId);
+	if (source === undefined) {
+		throw new RpcError("offline", `El jugador ${playerId} no está conectado`);
+	}
+	await txFor(schema, () => record("kick", playerId, actor, reason));
+	DropPlayer(String(source), `Expulsado: ${reason}`);
+}
+
+/** "2h", "7d 12h" → ms; undefined si no es una duración positiva con unidades. */
+function parseBanDuration(text: string): number | undefined {
+	// Un número suelto serían milisegundos: seguro que es un error
+	if (/^[\d.\s]+$/.test(text)) return undefined;
+	try {
+		const { ms } = Duration.parse(text);
+		return ms > 0 ? ms : undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Banea al jugador por todos sus identificadores; `duration` ("2h", "7d")
+ * lo hace temporal. Si está conectado, lo expulsa.
+ */
+export async function ban(actor: string, input: unknown): Promise<Ban> {
+	const { playerId, reason, duration } = parseSanction(input);
+	let expiresAt: Date | null = null;
+	if (duration) {
+		const ms = parseBanDuration(duration);
+		if (ms === undefined) {
+			throw new RpcError("invalid", `Duración no válida: ${duration}`);
+		}
+		expiresAt = new Date(Date.now() + ms);
+	}
+	const player = await findPlayerRow(playerId);
+	const source = sourceOf(playerId);
+	const session = getOnlinePlayers().find((s) => s.playerId === playerId);
+
+	const row = await txFor(schema, async (tx) => {
+		const [result] = await tx
+			.insert(schema.bans)
+			.values({ playerId, reason, issuedBy: actor, expiresAt });
+		const banId = result.insertId;
+		const pairs = identifierPairs(player, session?.identifiers);
+		if (pairs.length > 0) {
+			await tx
+				.insert(schema.banIdentifiers)
+				.values(pairs.map((pair) => ({ banId, ...pair })));
+		}
+		await record("ban", playerId, actor, reason, banId);
+		const rows = await tx
+			.select()
+			.from(schema.bans)
+			.where(eq(schema.bans.id, banId))
+			.limit(1);
+		return rows[0];
+	});
+	if (source !== undefined) DropPlayer(String(source), banMessage(row));
+	return toBan(row);
+}
+
+/**
+ * Levanta los baneos activos del jugador; false si no tenía ninguno.
+ * RpcError "invalid" si el id o el motivo no son válidos.
+ */
+export async function unban(
+	actor: string,
+	playerId: number,
+	reason?: string,
+): Promise<boolean> {
+	const input = parseInput(UnbanSchema, { playerId, reason });
+	return txFor(schema, async (tx) => {
+		const [result] = await tx
+			.update(schema.bans)
+			.set({ liftedAt: new Date(), liftedBy: actor })
+			.where(and(eq(schema.bans.playerId, input.playerId), activeBan()));
+		if (result.affectedRows === 0) return false;
+		await record("unban", input.playerId, actor, input.reason ?? null);
+		return true;
+	});
+}
+
+/** Trabajo "core:ban-expiry": cierra los baneos temporales vencidos. */
+export async function expireBans(): Promise<number> {
+	return txFor(schema, async (tx) => {
+		const now = new Date();
+		const expired = await tx
+			.select()
+			.from(schema.bans)
+			.where(and(isNull(schema.bans.liftedAt), lte(schema.bans.expiresAt, now)))
+			.for("update");
+		if (expired.length === 0) return 0;
+		await tx
+			.update(schema.bans)
+			.set({ liftedAt: now, liftedBy: "expiry" })
+			.where(
+				inArray(
+					schema.bans.id,
+					expired.map((b) => b.id),
+				),
+			);
+		for (const b of expired) {
+			if (b.playerId !== null) {
+				await record("expire", b.playerId, "expiry", b.reason, b.id);
+			}
+		}
+		return expired.length;
+	});
+}
+
+/** Baneo activo del jugador, si lo tiene. */
+export async function getActiveBan(playerId: number): Promise<Ban | null> {
+	const rows = await db
+		.select()
+		.from(schema.bans)
+		.where(and(eq(schema.bans.playerId, playerId), activeBan()))
+		.limit(1);
+	return rows[0] ? toBan(rows[0]) : null;
+}
+
+/** Historial del jugador, lo más reciente primero. */
+export async function getHistory(
+	playerId: number,
+	limit = 100,
+): Promise<HistoryEntry[]> {
+	const rows = await db
+		.select()
+		.from(schema.moderationHistory)
+		.where(eq(schema.moderationHistory.playerId, playerId))
+		.orderBy(desc(schema.moderationHistory.createdAt))
+		.limit(limit);
+	return rows.map((row) => ({
+		id: row.id,
+		action: row.action as ModerationAction,
+		reason: row.reason,
+		actor: row.actor,
+		banId: row.banId,
+		createdAt: row.createdAt.toISOString(),
+	}));
+}
+
+/** Búsqueda del panel: por id de jugador, licencia exacta o parte del nombre. */
+export async function searchPlayers(query: string): Promise<PlayerSummary[]> {
+	const text = query.trim();
+	if (text === "") return [];
+	const id = Number(text);
+	const rows = await db
+		.select()
+		.from(schema.players)
+		.where(
+			or(
+				Number.isInteger(id) ? eq(schema.players.id, id) : undefined,
+				eq(schema.players.license, text.replace(/^license:/, "")),
+				like(schema.players.name, `%${text.replace(/[%_\\]/g, "\\$&")}%`),
+			),
+		)
+		.orderBy(desc(schema.players.lastSeen))
+		.limit(25);
+	if (rows.length === 0) return [];
+
+	const activeBans = await db
+		.select()
+		.from(schema.bans)
+		.where(
+			and(
+				inArray(
+					schema.bans.playerId,
+					rows.map((p) => p.id),
+				),
+				activeBan(),
+			),
+		);
+	return rows.map((p) => {
+		const banRow = activeBans.find((b) => b.playerId === p.id);
+		return {
+			id: p.id,
+			name: p.name,
+			license: p.license,
+			lastSeen: p.lastSeen?.toISOString() ?? null,
+			source: sourceOf(p.id) ?? null,
+			ban: banRow ? toBan(banRow) : null,
+		};
+	});
+}
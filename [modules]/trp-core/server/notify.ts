@@ -0,0 +1,143 @@
+import { randomUUID } from "node:crypto";
+import {
+	NotifyEvents,
+	type Notification,
+	type NotifyOptions,
+} from "../shared/notify";
+
+/*
+ * Notificaciones a jugadores. Las que llevan acciones quedan pendientes hasta
+ * que el jugador elige una; el mapa vive en globalThis porque lo comparten
+ * los scripts de server/ del recurso (cada uno es su propio bundle).
+ */
+
+export type NotifyActionHandler = (
+	actionId: string,
+	source: number,
+) => void | Promise<void>;
+
+type Pending = {
+	source: number;
+	actions: Set<string>;
+	onAction?: NotifyActionHandler;
+	timer?: ReturnType<typeof setTimeout>;
+};
+
+const DEFAULT_DURATION_MS = 5000;
+/** Margen tras `duration`: la notificación pudo esperar en la cola del cliente */
+const ACTION_GRACE_MS = 5 * 60_000;
+
+const PENDING_KEY = Symbol.for("__TRP_CORE_NOTIFICATIONS__");
+
+const pending: Map<string, Pending> =
+	// eslint-disable-next-line @typescript-eslint/no-explicit-any
+	((globalThis as any)[PENDING_KEY] as Map<string, Pending>) ?? new Map();
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+(globalThis as any)[PENDING_KEY] = pending;
+
+/**
+ * Muestra una notificación al jugador (-1: a todos, sin acciones). Devuelve
+ * su id. `onAction` se llama con la acción elegida; además se emite el evento
+ * local NotifyEvents.action (source, id, actionId).
+ */
+export function notify(
+	source: number,
+	options: NotifyOptions,
+	onAction?: NotifyActionHandler,
+): string {
+	if (typeof options?.message !== "string" || options.message === "") {
+		throw new TypeError("[trp-core] notify: falta el mensaje");
+	}
+	let actions = options.actions ?? [];
+	if (source === -1 && actions.length > 0) {
+		console.warn("[trp-core] notify(-1): las acciones se ignoran en difusión");
+		actions = [];
+	}
+	const duration = options.duration ?? DEFAULT_DURATION_MS;
+	const id = randomUUID();
+	const notification: Notification = {
+		...options,
+		type: options.type ?? "info",
+		duration,
+		actions,
+		id,
+		// Con acciones, cada una espera su propia respuesta: no se fusionan
+		key:
+			actions.length > 0
+				? id
+				: (options.key ??
+					`${options.type ?? "info"}|${options.title ?? ""}|${options.message}`),
+		// Una persistente con acciones solo se cierra eligiendo una
+		dismissible: !(duration === 0 && actions.length > 0),
+	};
+
+	if (actions.length > 0) {
+		const entry: Pending = {
+			source,
+			actions: new Set(actions.map((action) => action.id)),
+			onAction,
+		};
+		if (duration > 0) {
+			entry.timer = setTimeout(
+				() => pending.delete(notification.id),
+				duration + ACTION_GRACE_MS,
+			);
+		}
+		pending.set(notification.id, entry);
+	}
+
+	emitNet(NotifyEvents.show, source, notification);
+	return notification.id;
+}
+
+/** Respuesta de un comando: a la consola, o como notificación a quien lo usó. */
+export function reply(source: number, message: string, error = false): void {
+	if (source === 0) console.log(`[trp-core] ${message}`);
+	else notify(source, { type: error ? "error" : "info", message });
+}
+
+/** Quita una notificación de la pantalla del jugador (y sus acciones pendientes). */
+export function dismissNotification(source: number, id: string): void {
+	const entry = pending.get(id);
+	if (entry && entry.source === source) {
+		clearTimeout(entry.timer);
+		pending.delete(id);
+	}
+	emitNet(NotifyEvents.dismiss, source, id);
+}
+
+/**
+ * Acción elegida por el jugador. false si la notificación no es suya, ya se
+ * respondió/caducó o la acción no existe.
+ */
+export async function resolveNotificationAction(
+	source: number,
+	id: string,
+	actionId: string,
+): Promise<boolean> {
+	const entry = pending.get(id);
+	if (!entry || entry.source !== source || !entry.actions.has(actionId)) {
+		return false;
+	}
+	clearTimeout(entry.timer);
+	pending.delete(id);
+	emit(NotifyEvents.action, source, id, actionId);
+	try {
+		await entry.onAction?.(actionId, source);
+	} catch (err) {
+		console.error(
+			`[trp-core] acción ${actionId} de la notificación ${id}:`,
+			err,
+		);
+	}
+	return true;
+}
+
+/** Al salir el jugador: sus acciones pendientes ya no pueden llegar. */
+export function forgetNotifications(source: number): void {
+	for (const [id, entry] of pending) {
+		if (entry.source !== source) continue;
+		clearTimeout(entry.timer);
+		pending.delete(id);
+	}
+}
@@ -0,0 +1,31 @@
+import { getCache } from "@trp/cache";
+import { dbFor, eq } from "@trp/db";
+import schema from "./schema";
+
+export type Player = typeof schema.players.$inferSelect;
+
+const db = dbFor(schema);
+
+// Perezoso: getCache() no debe correr antes de configureCache() en index.ts
+const playersById = () =>
+	getCache().entry<Player | null, number>("core:player:id", {
+		ttlMs: 60_000,
+		tags: (id) => [`player:${id}`],
+	});
+
+/** Jugador por id, cache-aside (Redis o memoria) durante un minuto. */
+export function findPlayer(id: number): Promise<Player | null> {
+	return playersById().wrap(id, async () => {
+		const rows = await db
+			.select()
+			.from(schema.players)
+			.where(eq(schema.players.id, id))
+			.limit(1);
+		return rows[0] ?? null;
+	});
+}
+
+/** Llamar tras modificar al jugador: borra su caché en todos los nodos. */
+export function invalidatePlayer(id: number): Promise<void> {
+	return getCache().invalidateTags(`player:${id}`);
+}
@@ -0,0 +1,370 @@
+import { getCache } from "@trp/cache";
+import { afterCommit, and, dbFor, eq, isNull, or, txFor } from "@trp/db";
+import { RpcError } from "@trp/rpc";
+import { getCoreConfig } from "./config";
+import { reply } from "./notify";
+import schema from "./schema";
+import { getPlayer } from "./sessions";
+
+/*
+ * Roles y permisos (featureFlags.rbac). Los permisos admiten comodines:
+ * "admin.*" vale para "admin.kick" y "admin.ban.temp"; "*" vale para todo.
+ * Los roles heredan de su padre y se conceden a un personaje o al jugador
+ * (todos sus personajes). Sin el flag, can() pregunta a los ACE de FiveM.
+ *
+ * Los permisos efectivos se calculan una vez por sesión (jugador + personaje)
+ * y se olvidan al cambiar una concesión o un rol, en todos los nodos (pub/sub
+ * de @trp/cache).
+ */
+
+/** A quién se concede: a un personaje o al jugador entero. */
+export type GrantSubject = { playerId: number } | { characterId: number };
+
+/** Qué se concede: un rol o un permiso suelto. */
+export type GrantTarget = { role: string } | { permission: string };
+
+export type DeniedHandler = (source: number, permission: string) => void;
+
+type Invalidation = { playerId?: number; characterId?: number; all?: true };
+
+type Memo = {
+	playerId: number;
+	characterId?: number;
+	patterns: Promise<string[]>;
+};
+
+type RbacState = {
+	memo: Map<number, Memo>;
+	unsubscribe?: () => void;
+};
+
+const CHANNEL = "core:rbac";
+const RBAC_KEY = Symbol.for("__TRP_CORE_RBAC__");
+
+const state: RbacState =
+	// eslint-disable-next-line @typescript-eslint/no-explicit-any
+	((globalThis as any)[RBAC_KEY] as RbacState) ?? { memo: new Map() };
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+(globalThis as any)[RBAC_KEY] = state;
+
+const db = dbFor(schema);
+
+/** true si `pattern` ("admin.*", "*", "vehicle.spawn") cubre `permission`. */
+export function matchesPermission(
+	pattern: string,
+	permission: string,
+): boolean {
+	if (pattern === "*" || pattern === permission) return true;
+	return pattern.endsWith(".*") && permission.startsWith(pattern.slice(0, -1));
+}
+
+/** Permisos efectivos (patrones) de un jugador con un personaje, roles heredados incluidos. */
+export async function permissionsFor(
+	playerId: number,
+	characterId?: number,
+): Promise<string[]> {
+	const subject =
+		characterId === undefined
+			? eq(schema.grants.playerId, playerId)
+			: or(
+					eq(schema.grants.playerId, playerId),
+					eq(schema.grants.characterId, characterId),
+				);
+	const [granted, roles, rolePermissions] = await Promise.all([
+		db.select().from(schema.grants).where(subject),
+		db.select().from(schema.roles),
+		db.select().from(schema.rolePermissions),
+	]);
+
+	const parents = new Map(roles.map((r) => [r.name, r.parent]));
+	const patterns = new Set<string>();
+	const seen = new Set<string>();
+	for (const row of granted) {
+		if (row.permission) patterns.add(row.permission);
+		// Sube por la herencia; `seen` corta los ciclos
+		for (let role = row.role; role && !seen.has(role); ) {
+			seen.add(role);
+			role = parents.get(role) ?? null;
+		}
+	}
+	for (const row of rolePermissions) {
+		if (seen.has(row.role)) patterns.add(row.permission);
+	}
+	return [...patterns];
+}
+
+/**
+ * ¿Puede `source` hacer `permission`? La consola (0) siempre puede; un
+ * jugador sin sesión todavía, no.
+ */
+export async function can(
+	source: number,
+	permission: string,
+): Promise<boolean> {
+	if (source === 0) return true;
+	if (!getCoreConfig().featureFlags.rbac) {
+		return IsPlayerAceAllowed(String(source), permission);
+	}
+	const session = getPlayer(source);
+	if (!session) return false;
+
+	let memo = state.memo.get(source);
+	if (
+		!memo ||
+		memo.playerId !== session.playerId ||
+		memo.characterId !== session.characterId
+	) {
+		memo = {
+			playerId: session.playerId,
+			characterId: session.characterId,
+			patterns: permissionsFor(session.playerId, session.characterId),
+		};
+		state.memo.set(source, memo);
+		// Un fallo de la base de datos no se queda memorizado
+		memo.patterns.catch(() => {
+			if (state.memo.get(source) === memo) state.memo.delete(source);
+		});
+	}
+	const patterns = await memo.patterns;
+	return patterns.some((pattern) => matchesPermission(pattern, permission));
+}
+
+/** Para handlers RPC: RpcError "forbidden" si `source` no tiene el permiso. */
+export async function requirePermission(
+	source: number,
+	permission: string,
+): Promise<void> {
+	if (!(await can(source, permission))) {
+		throw new RpcError("forbidden", "No tienes permiso para hacer esto");
+	}
+}
+
+function defaultDenied(source: number, permission: string): void {
+	console.warn(`[trp-core] ${source} sin permiso ${permission}`);
+}
+
+/**
+ * Envuelve un handler de onNet: solo corre si el jugador tiene el permiso.
+ * Los errores del permiso o del handler se registran en la consola.
+ *
+ * @example
+ *   onNet("vehicle:spawn", guard("vehicle.spawn", (source, model: string) => spawn(source, model)));
+ */
+export function guard<A extends unknown[]>(
+	permission: string,
+	handler: (source: number, ...args: A) => unknown,
+	onDenied: DeniedHandler = defaultDenied,
+): (...args: A) => Promise<void> {
+	return async (...args: A) => {
+		// `source` es global: hay que leerlo antes del primer await
+		const player = Number(source);
+		// onNet no espera la promesa: un fallo (la BD caída en can()) se registra aquí
+		try {
+			if (!(await can(player, permission))) {
+				onDenied(player, permission);
+				return;
+			}
+			await handler(player, ...args);
+		} catch (err) {
+			console.error(`[trp-core] guard ${permission}:`, err);
+		}
+	};
+}
+
+/**
+ * Envuelve un handler de RegisterCommand (regístralo con restricted false:
+ * el permiso lo decide RBAC). Al jugador sin permiso se le notifica; los
+ * errores del permiso o del handler se registran en la consola.
+ */
+export function guardCommand(
+	permission: string,
+	handler: (source: number, args: string[], raw: string) => unknown,
+): (source: number, args: string[], raw: string) => Promise<void> {
+	return async (source, args, raw) => {
+		// RegisterCommand no espera la promesa: un fallo aquí (p. ej. la BD
+		// caída en can()) se perdería sin avisar a nadie
+		try {
+			if (!(await can(source, permission))) {
+				reply(source, "No tienes permiso para usar este comando", true);
+				return;
+			}
+			await handler(source, args, raw);
+		} catch (err) {
+			console.error(`[trp-core] comando "${raw}":`, err);
+			if (source !== 0) reply(source, "El comando ha fallado", true);
+		}
+	};
+}
+
+/** Quién hace el cambio, para la auditoría: "console" o "player:<id>". */
+export function actorOf(source: number): string {
+	if (source === 0) return "console";
+	const session = getPlayer(source);
+	return session ? `player:${session.playerId}` : `source:${source}`;
+}
+
+function subjectOf(subject: GrantSubject): string {
+	return "playerId" in subject
+		? `player:${subject.playerId}`
+		: `character:${subject.characterId}`;
+}
+
+function invalidate(change: Invalidation): void {
+	dropMemo(change);
+	// El resto de nodos (y este, otra vez: no pasa nada)
+	getCache()
+		.publish(CHANNEL, change)
+		.catch((err) => console.warn("[trp-core] rbac: publish:", err));
+}
+
+function dropMemo(change: Invalidation): void {
+	for (const [source, memo] of state.memo) {
+		if (
+			change.all ||
+			memo.playerId === change.playerId ||
+			(change.characterId !== undefined &&
+				memo.characterId === change.characterId)
+		) {
+			state.memo.delete(source);
+		}
+	}
+}
+
+function whereGrant(subject: GrantSubject, target: GrantTarget) {
+	return and(
+		"playerId" in subject
+			? eq(schema.grants.playerId, subject.playerId)
+			: eq(schema.grants.characterId, subject.characterId),
+		"role" in target
+			? eq(schema.grants.role, target.role)
+			: eq(schema.grants.permission, target.permission),
+		"role" in target
+			? isNull(schema.grants.permission)
+			: isNull(schema.grants.role),
+	);
+}
+
+/** Concede un rol o permiso (si no lo tenía ya) y lo deja en rbac_audit. */
+export async function grant(
+	actor: string,
+	subject: GrantSubject,
+	target: GrantTarget,
+): Promise<boolean> {
+	return txFor(schema, async (tx) => {
+		if ("role" in target) {
+			const role = await tx
+				.select({ name: schema.roles.name })
+				.from(schema.roles)
+				.where(eq(schema.roles.name, target.role))
+				.limit(1);
+			if (!role[0])
+				throw new Error(`[trp-core] rol desconocido: ${target.role}`);
+		}
+		const existing = await tx
+			.select({ id: schema.grants.id })
+			.from(schema.grants)
+			.where(whereGrant(subject, target))
+			.limit(1);
+		if (existing[0]) return false;
+		await tx
+			.insert(schema.grants)
+			.values({ ...subject, ...target, grantedBy: actor });
+		await tx.insert(schema.rbacAudit).values({
+			actor,
+			action: "grant",
+			subject: subjectOf(subject),
+			...target,
+		});
+		afterCommit(() => invalidate(subject));
+		return true;
+	});
+}
+
+/** Retira un rol o permiso concedido; false si no lo tenía. */
+export async function revoke(
+	actor: string,
+	subject: GrantSubject,
+	target: GrantTarget,
+): Promise<boolean> {
+	return txFor(schema, async (tx) => {
+		const [result] = await tx
+			.delete(schema.grants)
+			.where(whereGrant(subject, target));
+		if (result.affectedRows === 0) return false;
+		await tx.insert(schema.rbacAudit).values({
+			actor,
+			action: "revoke",
+			subject: subjectOf(subject),
+			...target,
+		});
+		afterCommit(() => invalidate(subject));
+		return true;
+	});
+}
+
+/** Añade un permiso a un rol (afecta a todos los que lo tienen o lo heredan). */
+export async function addRolePermission(
+	actor: string,
+	role: string,
+	permission: string,
+): Promise<void> {
+	await txFor(schema, async (tx) => {
+		await tx
+			.insert(schema.rolePermissions)
+			.values({ role, permission })
+			.onDuplicateKeyUpdate({ set: { permission } });
+		await tx.insert(schema.rbacAudit).values({
+			actor,
+			action: "role:add",
+			subject: `role:${role}`,
+			permission,
+		});
+		afterCommit(() => invalidate({ all: true }));
+	});
+}
+
+export async function removeRolePermission(
+	actor: string,
+	role: string,
+	permission: string,
+): Promise<boolean> {
+	return txFor(schema, async (tx) => {
+		const [result] = await tx
+			.delete(schema.rolePermissions)
+			.where(
+				and(
+					eq(schema.rolePermissions.role, role),
+					eq(schema.rolePermissions.permission, permission),
+				),
+			);
+		if (result.affectedRows === 0) return false;
+		await tx.insert(schema.rbacAudit).values({
+			actor,
+			action: "role:remove",
+			subject: `role:${role}`,
+			permission,
+		});
+		afterCommit(() => invalidate({ all: true }));
+		return true;
+	});
+}
+
+/** Al salir el jugador: sus permisos memorizados ya no sirven. */
+export function forgetPermissions(source: number): void {
+	state.memo.delete(source);
+}
+
+/** Escucha los cambios de otros nodos. Tras configureCache() (index.ts). */
+export async function startRbac(): Promise<void> {
+	if (state.unsubscribe) return;
+	state.unsubscribe = await getCache().subscribe<Invalidation>(
+		CHANNEL,
+		dropMemo,
+	);
+}
+
+export function stopRbac(): void {
+	state.unsubscribe?.();
+	state.unsubscribe = undefined;
+	state.memo.clear();
+}
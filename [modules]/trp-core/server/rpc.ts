@@ -0,0 +1,13 @@
+import { getNuiConfig } from "@trp/config";
+import { serverRpc } from "@trp/rpc";
+import type { CoreRpc } from "../shared/rpc";
+import { getGameClock } from "./clock";
+
+const rpc = serverRpc<CoreRpc>();
+
+rpc.handle("core:getServerTime", () => ({
+	iso: new Date().toISOString(),
+	gameTime: getGameClock()?.now().toISOString() ?? null,
+}));
+
+rpc.handle("core:getNuiTheme", () => getNuiConfig().theme);
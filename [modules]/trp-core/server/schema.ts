@@ -1,21 +1,211 @@
 import { mysql } from "@trp/db";
-const { mysqlTable, int, varchar, timestamp, boolean, index, uniqueIndex } =
-	mysql;
+const {
+	mysqlTable,
+	int,
+	bigint,
+	date,
+	double,
+	varchar,
+	timestamp,
+	boolean,
+	index,
+	uniqueIndex,
+	primaryKey,
+} = mysql;
 
 export const players = mysqlTable(
 	"players",
 	{
-		id: int("id").primaryKey().notNull(),
-		createdAt: timestamp("created_at").notNull(),
+		id: int("id").primaryKey().autoincrement().notNull(),
+		// Identificadores sin prefijo ("license:"...); ver server/sessions.ts
+		license: varchar("license", { length: 64 }),
+		discord: varchar("discord", { length: 32 }),
+		steam: varchar("steam", { length: 32 }),
+		createdAt: timestamp("created_at").notNull().defaultNow(),
 		lastSeen: timestamp("last_seen"),
 		name: varchar("name", { length: 64 }),
-		isBanned: boolean("is_banned").notNull().default(false),
 	},
 	(t) => ({
 		idxLastSeen: index("i_players_last_seen").on(t.lastSeen),
-		uName: uniqueIndex("u_players_name").on(t.name),
+		uLicense: uniqueIndex("u_players_license").on(t.license),
+		idxName: index("i_players_name").on(t.name),
 	}),
 );
 
-const tables = { players } as const;
+// Auditoría de conexiones (featureFlags.playerSessionAudit)
+export const playerSessions = mysqlTable(
+	"player_sessions",
+	{
+		id: bigint("id", { mode: "number" }).primaryKey().autoincrement().notNull(),
+		playerId: int("player_id")
+			.notNull()
+			.references(() => players.id, { onDelete: "cascade" }),
+		connectedAt: timestamp("connected_at").notNull().defaultNow(),
+		disconnectedAt: timestamp("disconnected_at"),
+		durationSec: int("duration_sec"),
+		reason: varchar("reason", { length: 255 }),
+	},
+	(t) => ({
+		idxPlayer: index("i_player_sessions_player").on(t.playerId, t.connectedAt),
+	}),
+);
+
+// Personajes de cada jugador; el límite lo aplica server/characters.ts
+export const characters = mysqlTable(
+	"characters",
+	{
+		id: int("id").primaryKey().autoincrement().notNull(),
+		playerId: int("player_id")
+			.notNull()
+			.references(() => players.id, { onDelete: "cascade" }),
+		firstName: varchar("first_name", { length: 24 }).notNull(),
+		lastName: varchar("last_name", { length: 24 }).notNull(),
+		// "YYYY-MM-DD", como en shared/characters.ts
+		birthdate: date("birthdate", { mode: "string" }).notNull(),
+		sex: varchar("sex", { length: 8 }).notNull(),
+		createdAt: timestamp("created_at").notNull().defaultNow(),
+		lastPlayed: timestamp("last_played"),
+	},
+	(t) => ({
+		idxPlayer: index("i_characters_player").on(t.playerId),
+	}),
+);
+
+// RBAC (ver server/rbac.ts); los roles "user", "moderator" y "admin" vienen de la migración
+export const roles = mysqlTable("roles", {
+	name: varchar("name", { length: 32 }).primaryKey().notNull(),
+	label: varchar("label", { length: 64 }),
+	parent: varchar("parent", { length: 32 }),
+});
+
+export const rolePermissions = mysqlTable(
+	"role_permissions",
+	{
+		role: varchar("role", { length: 32 })
+			.notNull()
+			.references(() => roles.name, { onDelete: "cascade" }),
+		permission: varchar("permission", { length: 128 }).notNull(),
+	},
+	(t) => ({
+		pk: primaryKey({ columns: [t.role, t.permission] }),
+	}),
+);
+
+// player_id o character_id; role o permission
+export const grants = mysqlTable(
+	"grants",
+	{
+		id: int("id").primaryKey().autoincrement().notNull(),
+		playerId: int("player_id").references(() => players.id, {
+			onDelete: "cascade",
+		}),
+		characterId: int("character_id").references(() => characters.id, {
+			onDelete: "cascade",
+		}),
+		role: varchar("role", { length: 32 }).references(() => roles.name, {
+			onDelete: "cascade",
+		}),
+		permission: varchar("permission", { length: 128 }),
+		grantedBy: varchar("granted_by", { length: 64 }).notNull(),
+		createdAt: timestamp("created_at").notNull().defaultNow(),
+	},
+	(t) => ({
+		idxPlayer: index("i_grants_player").on(t.playerId),
+		idxCharacter: index("i_grants_character").on(t.characterId),
+	}),
+);
+
+export const rbacAudit = mysqlTable(
+	"rbac_audit",
+	{
+		id: bigint("id", { mode: "number" }).primaryKey().autoincrement().notNull(),
+		actor: varchar("actor", { length: 64 }).notNull(),
+		action: varchar("action", { length: 16 }).notNull(),
+		subject: varchar("subject", { length: 64 }).notNull(),
+		role: varchar("role", { length: 32 }),
+		permission: varchar("permission", { length: 128 }),
+		createdAt: timestamp("created_at").notNull().defaultNow(),
+	},
+	(t) => ({
+		idxSubject: index("i_rbac_audit_subject").on(t.subject, t.createdAt),
+	}),
+);
+
+// Moderación (ver server/moderation.ts): baneos por identificador e historial
+export const bans = mysqlTable(
+	"bans",
+	{
+		id: int("id").primaryKey().autoincrement().notNull(),
+		playerId: int("player_id").references(() => players.id, {
+			onDelete: "set null",
+		}),
+		reason: varchar("reason", { length: 255 }).notNull(),
+		issuedBy: varchar("issued_by", { length: 64 }).notNull(),
+		createdAt: timestamp("created_at").notNull().defaultNow(),
+		// null: permanente
+		expiresAt: timestamp("expires_at"),
+		liftedAt: timestamp("lifted_at"),
+		liftedBy: varchar("lifted_by", { length: 64 }),
+	},
+	(t) => ({
+		idxPlayer: index("i_bans_player").on(t.playerId),
+		idxExpiry: index("i_bans_expiry").on(t.liftedAt, t.expiresAt),
+	}),
+);
+
+export const banIdentifiers = mysqlTable(
+	"ban_identifiers",
+	{
+		banId: int("ban_id")
+			.notNull()
+			.references(() => bans.id, { onDelete: "cascade" }),
+		kind: varchar("kind", { length: 16 }).notNull(),
+		value: varchar("value", { length: 64 }).notNull(),
+	},
+	(t) => ({
+		pk: primaryKey({ columns: [t.banId, t.kind, t.value] }),
+		idxValue: index("i_ban_identifiers_value").on(t.kind, t.value),
+	}),
+);
+
+export const moderationHistory = mysqlTable(
+	"moderation_history",
+	{
+		id: bigint("id", { mode: "number" }).primaryKey().autoincrement().notNull(),
+		playerId: int("player_id")
+			.notNull()
+			.references(() => players.id, { onDelete: "cascade" }),
+		action: varchar("action", { length: 16 }).notNull(),
+		reason: varchar("reason", { length: 255 }),
+		actor: varchar("actor", { length: 64 }).notNull(),
+		banId: int("ban_id"),
+		createdAt: timestamp("created_at").notNull().defaultNow(),
+	},
+	(t) => ({
+		idxPlayer: index("i_moderation_history_player").on(t.playerId, t.createdAt),
+	}),
+);
+
+// Una fila por reloj ("default"); ver server/clock.ts
+export const gameClock = mysqlTable("game_clock", {
+	id: varchar("id", { length: 32 }).primaryKey().notNull(),
+	gameTime: bigint("game_time", { mode: "number" }).notNull(),
+	scale: double("scale").notNull(),
+	paused: boolean("paused").notNull().default(false),
+	updatedAt: timestamp("updated_at").notNull().defaultNow().onUpdateNow(),
+});
+
+const tables = {
+	players,
+	playerSessions,
+	characters,
+	roles,
+	rolePermissions,
+	grants,
+	rbacAudit,
+	bans,
+	banIdentifiers,
+	moderationHistory,
+	gameClock,
+} as const;
 export default tables;
@@ -0,0 +1,275 @@
+import { dbFor, eq } from "@trp/db";
+import { getCoreConfig } from "./config";
+import { invalidatePlayer, type Player } from "./players";
+import schema from "./schema";
+
+/*
+ * Sesiones de jugador: de playerConnecting (identificadores, alta en
+ * `players`, baneos) a playerDropped (last_seen y auditoría). Los eventos se
+ * registran en commands/sessions.ts; el estado vive en globalThis porque lo
+ * comparten los scripts de server/ del recurso (cada uno es su propio bundle).
+ */
+
+/** Identificadores de FiveM sin prefijo ("license:abc" → license "abc"). */
+export interface PlayerIdentifiers {
+	license?: string;
+	discord?: string;
+	steam?: string;
+}
+
+export interface PlayerSession {
+	source: number;
+	/** players.id */
+	playerId: number;
+	name: string;
+	identifiers: PlayerIdentifiers;
+	connectedAt: Date;
+	/** Personaje elegido (server/characters.ts), si ya eligió */
+	characterId?: number;
+	/** Fila de player_sessions (solo con featureFlags.playerSessionAudit) */
+	auditId?: number;
+}
+
+/**
+ * Comprobación al conectarse (baneos de server/moderation.ts...): devuelve
+ * el motivo del rechazo o undefined.
+ */
+export type AdmissionCheck = (
+	player: Player,
+	identifiers: PlayerIdentifiers,
+) => string | undefined | Promise<string | undefined>;
+
+export type PlayerLoadedHandler = (
+	session: PlayerSession,
+) => void | Promise<void>;
+
+/** Eventos locales del server (también para otros recursos). */
+export const SessionEvents = {
+	/** (source, playerId) tras cargar la sesión */
+	loaded: "trp:player:loaded",
+	/** (source, playerId, reason) tras cerrar la sesión */
+	dropped: "trp:player:dropped",
+} as const;
+
+type Admitted = {
+	player: Player;
+	identifiers: PlayerIdentifiers;
+	admittedAt: number;
+};
+
+/** Una conexión cancelada nunca llega a playerJoining: su admisión caduca */
+const ADMISSION_TTL_MS = 10 * 60_000;
+
+type SessionsState = {
+	/** Admitidos en playerConnecting, por su id temporal, hasta playerJoining */
+	admitted: Map<number, Admitted>;
+	sessions: Map<number, PlayerSession>;
+	loadedHandlers: Set<PlayerLoadedHandler>;
+	admissionChecks: Set<AdmissionCheck>;
+};
+
+const SESSIONS_KEY = Symbol.for("__TRP_CORE_SESSIONS__");
+
+const state: SessionsState =
+	// eslint-disable-next-line @typescript-eslint/no-explicit-any
+	((globalThis as any)[SESSIONS_KEY] as SessionsState) ?? {
+		admitted: new Map(),
+		sessions: new Map(),
+		loadedHandlers: new Set(),
+		admissionChecks: new Set(),
+	};
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+(globalThis as any)[SESSIONS_KEY] = state;
+
+const db = dbFor(schema);
+
+/** Identificadores del jugador (vale el id temporal de playerConnecting). */
+export function resolveIdentifiers(source: number): PlayerIdentifiers {
+	const identifiers: PlayerIdentifiers = {};
+	for (const identifier of getPlayerIdentifiers(source)) {
+		const [kind, value] = identifier.split(":", 2);
+		if (
+			(kind === "license" || kind === "discord" || kind === "steam") &&
+			value
+		) {
+			identifiers[kind] = value;
+		}
+	}
+	return identifiers;
+}
+
+/** Alta o actualización del jugador por su licencia; nombre e ids al día. */
+async function upsertPlayer(
+	name: string,
+	identifiers: PlayerIdentifiers,
+): Promise<Player> {
+	const license = identifiers.license!;
+	// Un identificador que hoy no llega (Discord cerrado) no borra el guardado
+	const linked = {
+		...(identifiers.discord && { discord: identifiers.discord }),
+		...(identifiers.steam && { steam: identifiers.steam }),
+	};
+	await db
+		.insert(schema.players)
+		.values({ license, name, ...linked })
+		.onDuplicateKeyUpdate({ set: { name, ...linked } });
+	const rows = await dbFor(schema, { readFrom: "primary" })
+		.select()
+		.from(schema.players)
+		.where(eq(schema.players.license, license))
+		.limit(1);
+	await invalidatePlayer(rows[0].id);
+	return rows[0];
+}
+
+/**
+ * Comprueba y da de alta al jugador que se conecta. Devuelve el motivo del
+ * rechazo (sin licencia, el de una AdmissionCheck) o undefined si puede entrar.
+ */
+export async function admitPlayer(
+	tempSource: number,
+	name: string,
+): Promise<string | undefined> {
+	const identifiers = resolveIdentifiers(tempSource);
+	if (!identifiers.license) {
+		return "No se encontró tu licencia de Rockstar. Abre el juego con una cuenta válida.";
+	}
+	const player = await upsertPlayer(name, identifiers);
+	for (const check of state.admissionChecks) {
+		const rejected = await check(player, identifiers);
+		if (rejected) return rejected;
+	}
+	const now = Date.now();
+	for (const [id, entry] of state.admitted) {
+		if (now - entry.admittedAt > ADMISSION_TTL_MS) state.admitted.delete(id);
+	}
+	state.admitted.set(tempSource, { player, identifiers, admittedAt: now });
+	return undefined;
+}
+
+/**
+ * Abre la sesión con el id definitivo. Sin admisión previa (reinicio del
+ * recurso con jugadores dentro) se resuelve aquí. Avisa a onPlayerLoaded.
+ */
+export async function startSession(
+	source: number,
+	tempSource?: number,
+): Promise<PlayerSession | undefined> {
+	let admitted =
+		tempSource === undefined ? undefined : state.admitted.get(tempSource);
+	if (tempSource !== undefined) state.admitted.delete(tempSource);
+	if (!admitted) {
+		const identifiers = resolveIdentifiers(source);
+		if (!identifiers.license) {
+			console.warn(`[trp-core] jugador ${source} sin licencia: sin sesión`);
+			return undefined;
+		}
+		const player = await upsertPlayer(
+			GetPlayerName(String(source)),
+			identifiers,
+		);
+		admitted = { player, identifiers, admittedAt: Date.now() };
+	}
+
+	const session: PlayerSession = {
+		source,
+		playerId: admitted.player.id,
+		name: admitted.player.name ?? GetPlayerName(String(source)),
+		identifiers: admitted.identifiers,
+		connectedAt: new Date(),
+	};
+	if (getCoreConfig().featureFlags.playerSessionAudit) {
+		const [result] = await db
+			.insert(schema.playerSessions)
+			.values({ playerId: session.playerId, connectedAt: session.connectedAt });
+		session.auditId = result.insertId;
+	}
+	state.sessions.set(source, session);
+
+	emit(SessionEvents.loaded, source, session.playerId);
+	for (const handler of state.loadedHandlers) {
+		try {
+			await handler(session);
+		} catch (err) {
+			console.error(`[trp-core] onPlayerLoaded (jugador ${source}):`, err);
+		}
+	}
+	return session;
+}
+
+/** Cierra la sesión: last_seen y, si se auditó, desconexión y duración. */
+export async function endSession(
+	source: number,
+	reason: string,
+): Promise<void> {
+	const session = state.sessions.get(source);
+	if (!session) return;
+	state.sessions.delete(source);
+
+	const now = new Date();
+	await db
+		.update(schema.players)
+		.set({ lastSeen: now })
+		.where(eq(schema.players.id, session.playerId));
+	if (session.auditId !== undefined) {
+		await db
+			.update(schema.playerSessions)
+			.set({
+				disconnectedAt: now,
+				durationSec: Math.round(
+					(now.getTime() - session.connectedAt.getTime()) / 1000,
+				),
+				reason: reason.slice(0, 255),
+			})
+			.where(eq(schema.playerSessions.id, session.auditId));
+	}
+	await invalidatePlayer(session.playerId);
+	emit(SessionEvents.dropped, source, session.playerId, reason);
+}
+
+/** Tras las migraciones: sesiones de los jugadores ya conectados (reinicio del recurso). */
+export async function restoreSessions(): Promise<void> {
+	for (const id of getPlayers()) {
+		const source = Number(id);
+		if (state.sessions.has(source)) continue;
+		try {
+			await startSession(source);
+		} catch (err) {
+			console.error(
+				`[trp-core] no se pudo restaurar la sesión de ${source}:`,
+				err,
+			);
+		}
+	}
+}
+
+/** Al parar el recurso: cierra todas las sesiones antes de cerrar el pool. */
+export async function endAllSessions(reason: string): Promise<void> {
+	await Promise.all(
+		[...state.sessions.keys()].map((source) => endSession(source, reason)),
+	);
+}
+
+/** Sesión del jugador conectado, o undefined (aún conectándose o fuera). */
+export function getPlayer(source: number): PlayerSession | undefined {
+	return state.sessions.get(source);
+}
+
+export function getOnlinePlayers(): PlayerSession[] {
+	return [...state.sessions.values()];
+}
+
+/**
+ * Llamado con cada sesión que se abre (no con las ya abiertas: ver
+ * getOnlinePlayers()). Devuelve un unsubscribe.
+ */
+export function onPlayerLoaded(handler: PlayerLoadedHandler): () => void {
+	state.loadedHandlers.add(handler);
+	return () => state.loadedHandlers.delete(handler);
+}
+
+/** Añade una comprobación a playerConnecting. Devuelve un unsubscribe. */
+export function addAdmissionCheck(check: AdmissionCheck): () => void {
+	state.admissionChecks.add(check);
+	return () => state.admissionChecks.delete(check);
+}
@@ -0,0 +1,71 @@
+import { z } from "zod";
+
+/**
+ * Personajes: validación compartida (el server la aplica siempre; la NUI la
+ * usa para avisar antes de enviar) y lo que viaja a la NUI.
+ */
+
+const NAME = /^[\p{L}][\p{L}' -]*$/u;
+
+const name = (label: string) =>
+	z
+		.string()
+		.trim()
+		.min(2, `${label}: mínimo 2 caracteres`)
+		.max(24, `${label}: máximo 24 caracteres`)
+		.regex(NAME, `${label}: solo letras, espacios, apóstrofos y guiones`);
+
+export const CHARACTER_SEXES = ["male", "female", "other"] as const;
+
+export const CharacterCreateSchema = z.object({
+	firstName: name("Nombre"),
+	lastName: name("Apellido"),
+	/** "YYYY-MM-DD" */
+	birthdate: z
+		.string()
+		.regex(/^\d{4}-\d{2}-\d{2}$/, "Fecha de nacimiento: formato AAAA-MM-DD")
+		.refine((value) => {
+			const date = new Date(`${value}T00:00:00Z`);
+			return (
+				!Number.isNaN(date.getTime()) &&
+				date.toISOString().startsWith(value) &&
+				date.getUTCFullYear() >= 1900 &&
+				date.getTime() <= Date.now()
+			);
+		}, "Fecha de nacimiento no válida"),
+	sex: z.enum(CHARACTER_SEXES, {
+		errorMap: () => ({ message: "Sexo no válido" }),
+	}),
+});
+
+export type CharacterCreate = z.infer<typeof CharacterCreateSchema>;
+
+/** Personaje tal y como lo ven el cliente y la NUI. */
+export interface Character extends CharacterCreate {
+	id: number;
+	/** ISO */
+	createdAt: string;
+	/** ISO; null si nunca se ha jugado */
+	lastPlayed: string | null;
+}
+
+/** Respuesta de "core:getCharacters". */
+export interface CharacterList {
+	characters: Character[];
+	/** limits.maxCharactersPerPlayer */
+	max: number;
+	/** Personaje elegido en esta sesión, si lo hay */
+	selectedId: number | null;
+}
+
+export const CharacterEvents = {
+	/** server → client: Character elegido (cierra la selección) */
+	selected: "trp:character:selected",
+	/**
+	 * local tras elegir personaje. Server: (source, characterId); cliente:
+	 * (Character)
+	 */
+	loaded: "trp:character:loaded",
+	/** local (server): (playerId, characterId) tras borrar un personaje */
+	deleted: "trp:character:deleted",
+} as const;
@@ -0,0 +1,16 @@
+import type { ClockSnapshot } from "@trp/date";
+
+/** Eventos del reloj de juego (server/clock.ts ↔ client/clock.ts). */
+export const ClockEvents = {
+	/** server → client: ClockSync autoritativo */
+	sync: "trp:clock:sync",
+	/** client → server: pide el ClockSync al cargar */
+	request: "trp:clock:request",
+	/** local (server y client): nueva hora de juego (hour, iso) */
+	hour: "trp:clock:hour",
+	/** local (server y client): nuevo día de juego (iso) */
+	day: "trp:clock:day",
+} as const;
+
+/** Lo que el server manda a los clientes: el snapshot y la zona del calendario. */
+export type ClockSync = ClockSnapshot & { tz: string };
@@ -0,0 +1,13 @@
+import type { DateFormatSettings } from "@trp/date";
+
+/** Idioma de cada jugador (server/commands/locale.ts ↔ client/locale.ts). */
+export const LocaleEvents = {
+	/** client → server: idioma del juego del jugador (etiqueta tipo "es-MX") */
+	detected: "trp:locale:detected",
+	/** server → client: DateFormatSettings a aplicar en el cliente y su NUI */
+	apply: "trp:locale:apply",
+	/** client → NUI (SendNUIMessage type) */
+	nui: "trp:locale",
+} as const;
+
+export type LocaleSettings = Required<DateFormatSettings>;
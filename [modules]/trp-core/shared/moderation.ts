@@ -0,0 +1,83 @@
+import { z } from "zod";
+
+/**
+ * Moderación: lo que comparten el server (server/moderation.ts) y el panel
+ * de la NUI (vista "moderation", comando trp:modpanel).
+ */
+
+export const ModerationEvents = {
+	/** server → client: abre el panel (el server ya comprobó el permiso) */
+	openPanel: "trp:moderation:open",
+	/** local (server): (action, playerId, reason, actor) tras cada sanción */
+	action: "trp:moderation:action",
+} as const;
+
+export type ModerationAction =
+	| "warn"
+	| "kick"
+	| "ban"
+	| "unban"
+	| "expire"
+	| "evasion";
+
+/** Permisos RBAC de cada acción (el rol "moderator" tiene "moderation.*"). */
+export const ModerationPermissions = {
+	panel: "moderation.panel",
+	warn: "moderation.warn",
+	kick: "moderation.kick",
+	ban: "moderation.ban",
+	unban: "moderation.unban",
+} as const;
+
+export const SanctionSchema = z.object({
+	playerId: z.number().int().positive(),
+	reason: z
+		.string()
+		.trim()
+		.min(3, "Motivo: mínimo 3 caracteres")
+		.max(255, "Motivo: máximo 255 caracteres"),
+	/** Solo baneos: "2h", "7d"...; sin él, permanente */
+	duration: z.string().optional(),
+});
+
+export type Sanction = z.infer<typeof SanctionSchema>;
+
+/** Levantar un baneo: el motivo es opcional, con las mismas reglas. */
+export const UnbanSchema = SanctionSchema.pick({ playerId: true }).extend({
+	reason: SanctionSchema.shape.reason.optional(),
+});
+
+export type Unban = z.infer<typeof UnbanSchema>;
+
+export interface Ban {
+	id: number;
+	playerId: number | null;
+	reason: string;
+	issuedBy: string;
+	/** ISO */
+	createdAt: string;
+	/** ISO; null: permanente */
+	expiresAt: string | null;
+}
+
+export interface HistoryEntry {
+	id: number;
+	action: ModerationAction;
+	reason: string | null;
+	actor: string;
+	banId: number | null;
+	/** ISO */
+	createdAt: string;
+}
+
+/** Resultado de la búsqueda del panel. */
+export interface PlayerSummary {
+	id: number;
+	name: string | null;
+	license: string | null;
+	/** ISO; null si nunca salió */
+	lastSeen: string | null;
+	/** source si está conectado */
+	source: number | null;
+	ban: Ban | null;
+}
@@ -0,0 +1,47 @@
+import type { ToastAction, ToastType } from "@trp/nui/components/types";
+
+/**
+ * Notificaciones server → cliente → NUI (toasts). Las acciones vuelven al
+ * server con la llamada RPC "core:notifyAction".
+ */
+export const NotifyEvents = {
+	/** server → client: Notification a mostrar */
+	show: "trp:notify:show",
+	/** server → client: id de la notificación a quitar */
+	dismiss: "trp:notify:dismiss",
+	/** client → NUI (SendNUIMessage type): Notification */
+	nui: "trp:notify",
+	/** client → NUI: id de la notificación a quitar */
+	nuiDismiss: "trp:notify:nui:dismiss",
+	/** local (server): (source, id, actionId) al pulsar una acción */
+	action: "trp:notify:action",
+} as const;
+
+export type NotifyType = ToastType;
+export type NotifyAction = ToastAction;
+
+export interface NotifyOptions {
+	type?: NotifyType;
+	title?: string;
+	message: string;
+	/**
+	 * ms en pantalla (por defecto 5000). 0 = persistente: se queda hasta que
+	 * el jugador elige una acción (o hasta dismissNotification()).
+	 */
+	duration?: number;
+	actions?: NotifyAction[];
+	/**
+	 * Las notificaciones con la misma clave se fusionan en el cliente (×2).
+	 * Por defecto: tipo, título y mensaje. Las que tienen acciones no se
+	 * fusionan nunca (se ignora).
+	 */
+	key?: string;
+}
+
+/** Lo que viaja al cliente y a la NUI. */
+export interface Notification extends NotifyOptions {
+	id: string;
+	key: string;
+	/** Persistente con acciones: no se puede cerrar sin elegir una */
+	dismissible: boolean;
+}
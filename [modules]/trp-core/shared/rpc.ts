@@ -0,0 +1,63 @@
+import { THEME_MESSAGE, type TrpThemeOverrides } from "@trp/nui/theme";
+import type { RpcContract } from "@trp/rpc";
+import type { Character, CharacterCreate, CharacterList } from "./characters";
+import type {
+	Ban,
+	HistoryEntry,
+	PlayerSummary,
+	Sanction,
+	Unban,
+} from "./moderation";
+import { LocaleEvents, type LocaleSettings } from "./locale";
+import { NotifyEvents, type Notification } from "./notify";
+
+/** Hora real del server y hora del reloj de juego (null si aún no arrancó). */
+export interface ServerTime {
+	iso: string;
+	gameTime: string | null;
+}
+
+/**
+ * Contrato RPC de trp-core, compartido por server/rpc.ts, client/rpc.ts y la
+ * NUI (useNuiRpc<CoreRpc>()).
+ */
+export interface CoreRpc extends RpcContract {
+	/** Llamadas que responde el server (desde el cliente o desde la NUI) */
+	server: {
+		"core:getServerTime": () => ServerTime;
+		/** Tema NUI del server (config `nui.theme`) */
+		"core:getNuiTheme": () => TrpThemeOverrides;
+		/** Idioma y presets de fechas del jugador (la NUI al montarse) */
+		"core:getLocale": () => LocaleSettings;
+		/** Acción elegida en una notificación; false si ya no es válida */
+		"core:notifyAction": (req: { id: string; actionId: string }) => boolean;
+		/** Personajes del jugador y el límite (RpcError "not_ready" sin sesión) */
+		"core:getCharacters": () => CharacterList;
+		/** Valida con CharacterCreateSchema; RpcError "invalid" / "limit" */
+		"core:createCharacter": (req: CharacterCreate) => Character;
+		"core:selectCharacter": (req: { id: number }) => Character;
+		/** RpcError "in_use" si es el personaje que se está jugando */
+		"core:deleteCharacter": (req: { id: number }) => void;
+		/** Panel de moderación; todas piden su permiso (RpcError "forbidden") */
+		"core:searchPlayers": (req: { query: string }) => PlayerSummary[];
+		"core:getModerationHistory": (req: { playerId: number }) => HistoryEntry[];
+		"core:warnPlayer": (req: Sanction) => void;
+		/** RpcError "offline" si no está conectado */
+		"core:kickPlayer": (req: Sanction) => void;
+		"core:banPlayer": (req: Sanction) => Ban;
+		/** false si no tenía baneos activos */
+		"core:unbanPlayer": (req: Unban) => boolean;
+	};
+	/** Callbacks NUI que responde el cliente */
+	client: {
+		/** Cierra la NUI y suelta el foco */
+		"core:close": () => void;
+	};
+	/** Mensajes cliente → NUI */
+	nui: {
+		[LocaleEvents.nui]: LocaleSettings;
+		[THEME_MESSAGE]: TrpThemeOverrides;
+		[NotifyEvents.nui]: Notification;
+		[NotifyEvents.nuiDismiss]: string;
+	};
+}
@@ -0,0 +1,269 @@
+/**
+ * Storage backends behind the Cache API.
+ *
+ * - RedisBackend: shared by every node; tags are Redis sets and pub/sub uses a
+ *   dedicated subscriber connection.
+ * - MemoryBackend: single process (dev, tests). Values live in a Keyv store
+ *   (in-memory Map by default, or any Keyv adapter) and pub/sub is an
+ *   in-process EventEmitter.
+ *
+ * Values are already serialized strings here; (de)serialization and key
+ * namespacing happen in Cache.
+ */
+
+import { EventEmitter } from "node:events";
+import { Redis, type RedisOptions } from "ioredis";
+import Keyv from "keyv";
+
+/* -------------------------------------------------------------------------- */
+/*                                   Types                                    */
+/* -------------------------------------------------------------------------- */
+
+export type MessageHandler = (message: string) => void;
+
+export interface CacheBackend {
+	readonly kind: "redis" | "memory";
+	get(key: string): Promise<string | undefined>;
+	/** `ttlMs` 0/undefined = no expiry. `tags` are full tag keys. */
+	set(
+		key: string,
+		value: string,
+		ttlMs?: number,
+		tags?: string[],
+	): Promise<void>;
+	delete(keys: string[]): Promise<void>;
+	/** Deletes every key attached to the tags (and the tags) and returns those keys. */
+	invalidateTags(tags: string[]): Promise<string[]>;
+	publish(channel: string, message: string): Promise<void>;
+	/** Returns a function that removes the handler. */
+	subscribe(channel: string, handler: MessageHandler): Promise<() => void>;
+	close(): Promise<void>;
+}
+
+/** Connection settings in the shape of TRPConfig `redis`. */
+export interface RedisSettings {
+	host?: string;
+	port?: number;
+	password?: string;
+	db?: number;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   Redis                                    */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Adds a key to a tag set and stretches the set's TTL so it outlives its
+ * longest-lived key (a tag expiring early would miss invalidations).
+ * KEYS[1] = tag, ARGV[1] = key, ARGV[2] = key TTL in ms (0 = none).
+ */
+const TAG_SCRIPT = `
+local ttl = redis.call('PTTL', KEYS[1])
+redis.call('SADD', KEYS[1], ARGV[1])
+local want = tonumber(ARGV[2])
+if want == 0 then
+	redis.call('PERSIST', KEYS[1])
+elseif ttl == -2 or (ttl >= 0 and ttl < want) then
+	redis.call('PEXPIRE', KEYS[1], want)
+end
+`;
+
+type TaggingPipeline = {
+	trpTag(tag: string, key: string, ttlMs: number): unknown;
+};
+
+export class RedisBackend implements CacheBackend {
+	readonly kind = "redis";
+	private readonly client: Redis;
+	private subscriber?: Redis;
+	private readonly handlers = new Map<string, Set<MessageHandler>>();
+
+	constructor(settings: RedisSettings, options: RedisOptions = {}) {
+		this.client = new Redis({
+			host: settings.host,
+			port: settings.port ?? 6379,
+			password: settings.password,
+			db: settings.db ?? 0,
+			// Commands wait (queued) while reconnecting instead of failing at once
+			maxRetriesPerRequest: 2,
+			...options,
+		});
+		this.client.on("error", (err) => {
+			console.warn(`[@trp/cache] redis: ${err.message}`);
+		});
+		this.client.defineCommand("trpTag", { numberOfKeys: 1, lua: TAG_SCRIPT });
+	}
+
+	async get(key: string): Promise<string | undefined> {
+		return (await this.client.get(key)) ?? undefined;
+	}
+
+	async set(
+		key: string,
+		value: string,
+		ttlMs?: number,
+		tags: string[] = [],
+	): Promise<void> {
+		const tx = this.client.multi();
+		if (ttlMs) tx.set(key, value, "PX", ttlMs);
+		else tx.set(key, value);
+		for (const tag of tags) {
+			(tx as unknown as TaggingPipeline).trpTag(tag, key, ttlMs ?? 0);
+		}
+		await tx.exec();
+	}
+
+	async delete(keys: string[]): Promise<void> {
+		if (keys.length) await this.client.del(...keys);
+	}
+
+	async invalidateTags(tags: string[]): Promise<string[]> {
+		if (tags.length === 0) return [];
+		const members = await Promise.all(
+			tags.map((tag) => this.client.smembers(tag)),
+		);
+		const keys = [...new Set(members.flat())];
+		await this.client.del(...keys, ...tags);
+		return keys;
+	}
+
+	async publish(channel: string, message: string): Promise<void> {
+		await this.client.publish(channel, message);
+	}
+
+	async subscribe(
+		channel: string,
+		handler: MessageHandler,
+	): Promise<() => void> {
+		if (!this.subscriber) {
+			// A connection in subscriber mode cannot run other commands
+			this.subscriber = this.client.duplicate();
+			this.subscriber.on("error", (err) => {
+				console.warn(`[@trp/cache] redis subscriber: ${err.message}`);
+			});
+			this.subscriber.on("message", (ch: string, message: string) => {
+				for (const h of this.handlers.get(ch) ?? []) h(message);
+			});
+		}
+		let set = this.handlers.get(channel);
+		if (!set) {
+			set = new Set();
+			this.handlers.set(channel, set);
+			await this.subscriber.subscribe(channel);
+		}
+		set.add(handler);
+		return () => {
+			set.delete(handler);
+			if (set.size === 0 && this.handlers.get(channel) === set) {
+				this.handlers.delete(channel);
+				void this.subscriber?.unsubscribe(channel);
+			}
+		};
+	}
+
+	async close(): Promise<void> {
+		this.handlers.clear();
+		await Promise.all([this.client.quit(), this.subscriber?.quit()]);
+	}
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                  Memory                                    */
+/* -------------------------------------------------------------------------- */
+
+/** Longest delay setTimeout accepts (~24.8 days); longer TTLs are not pruned. */
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+export class MemoryBackend implements CacheBackend {
+	readonly kind = "memory";
+	private readonly tags = new Map<string, Set<string>>();
+	/** Reverse index (key → tags) so expired or deleted keys leave the tag sets */
+	private readonly keyTags = new Map<string, Set<string>>();
+	/** Keyv expires lazily; this timer drops the key from its tags at its TTL */
+	private readonly expiries = new Map<string, NodeJS.Timeout>();
+	private readonly bus = new EventEmitter().setMaxListeners(0);
+
+	/** Pass a Keyv instance to use another store; defaults to an in-memory Map. */
+	constructor(private readonly store: Keyv<string> = new Keyv<string>()) {}
+
+	async get(key: string): Promise<string | undefined> {
+		return (await this.store.get(key)) ?? undefined;
+	}
+
+	async set(
+		key: string,
+		value: string,
+		ttlMs?: number,
+		tags: string[] = [],
+	): Promise<void> {
+		await this.store.set(key, value, ttlMs || undefined);
+		// The previous value's tags no longer apply
+		this.untag(key);
+		if (tags.length === 0) return;
+		for (const tag of tags) {
+			let keys = this.tags.get(tag);
+			if (!keys) {
+				keys = new Set();
+				this.tags.set(tag, keys);
+			}
+			keys.add(key);
+		}
+		this.keyTags.set(key, new Set(tags));
+		if (ttlMs && ttlMs <= MAX_TIMER_MS) {
+			const timer = setTimeout(() => this.untag(key), ttlMs);
+			// Pruning alone must not keep the process alive
+			timer.unref?.();
+			this.expiries.set(key, timer);
+		}
+	}
+
+	async delete(keys: string[]): Promise<void> {
+		for (const key of keys) this.untag(key);
+		if (keys.length) await this.store.delete(keys);
+	}
+
+	async invalidateTags(tags: string[]): Promise<string[]> {
+		const keys = new Set<string>();
+		for (const tag of tags) {
+			for (const key of this.tags.get(tag) ?? []) keys.add(key);
+			this.tags.delete(tag);
+		}
+		await this.delete([...keys]);
+		return [...keys];
+	}
+
+	/** Removes the key from its tag sets (dropping sets left empty). */
+	private untag(key: string): void {
+		clearTimeout(this.expiries.get(key));
+		this.expiries.delete(key);
+		for (const tag of this.keyTags.get(key) ?? []) {
+			const keys = this.tags.get(tag);
+			keys?.delete(key);
+			if (keys?.size === 0) this.tags.delete(tag);
+		}
+		this.keyTags.delete(key);
+	}
+
+	async publish(channel: string, message: string): Promise<void> {
+		this.bus.emit(channel, message);
+	}
+
+	async subscribe(
+		channel: string,
+		handler: MessageHandler,
+	): Promise<() => void> {
+		this.bus.on(channel, handler);
+		return () => {
+			this.bus.off(channel, handler);
+		};
+	}
+
+	async close(): Promise<void> {
+		this.bus.removeAllListeners();
+		for (const timer of this.expiries.values()) clearTimeout(timer);
+		this.expiries.clear();
+		this.keyTags.clear();
+		this.tags.clear();
+		await this.store.clear();
+	}
+}
@@ -0,0 +1,401 @@
+/**
+ * @trp/cache (Redis or in-memory)
+ *
+ * What it provides:
+ * - A process-wide Cache (hot-reload friendly): configureCache() + getCache().
+ *   Redis when `redis.host` is configured, an in-memory Keyv store otherwise
+ *   (single-node dev, tests); same API for both.
+ * - Typed get/set with TTL, JSON-serialized, under a namespace ("trp:" by default).
+ * - Cache-aside: wrap(key, loader) loads once (concurrent callers share the
+ *   same load) and caches the result.
+ * - Tags: set(key, value, { tags: ["player:42"] }) + invalidateTags("player:42").
+ * - Pub/sub: publish()/subscribe() on namespaced channels. Deletions and tag
+ *   invalidations are broadcast so other nodes drop their local (L1) copies.
+ *
+ * Usage (server-side only):
+ *   import { getCache } from "@trp/cache";
+ *   const byLicense = getCache().entry<Player>("player:license", { ttlMs: 60_000 });
+ *   const player = await byLicense.wrap(license, () => findPlayer(license));
+ *   await byLicense.delete(license);
+ */
+
+import os from "node:os";
+import { randomUUID } from "node:crypto";
+import {
+	MemoryBackend,
+	RedisBackend,
+	type CacheBackend,
+	type RedisSettings,
+} from "./backends";
+
+export {
+	MemoryBackend,
+	RedisBackend,
+	type CacheBackend,
+	type MessageHandler,
+	type RedisSettings,
+} from "./backends";
+
+/* -------------------------------------------------------------------------- */
+/*                                   Types                                    */
+/* -------------------------------------------------------------------------- */
+
+export interface CacheOptions {
+	/** Prefix for keys, tags and channels. Default "trp". */
+	namespace?: string;
+	/** TTL when set() gets none. Default 0 (no expiry). */
+	defaultTtlMs?: number;
+	/**
+	 * In-process copy of values read from a shared backend, kept this long.
+	 * Other nodes' deletions reach it via pub/sub; it stays off until that
+	 * subscription works. Default 0 (disabled).
+	 */
+	localTtlMs?: number;
+	/** Max entries of the local copy. Default 10000. */
+	localMaxEntries?: number;
+}
+
+export interface SetOptions {
+	ttlMs?: number;
+	tags?: string[];
+}
+
+export interface WrapOptions extends SetOptions {
+	/** Also cache null/undefined results (as null). Default false. */
+	cacheEmpty?: boolean;
+}
+
+export interface EntryOptions<K> {
+	ttlMs?: number;
+	/** Tags for each id, e.g. (license) => [`player:${license}`]. */
+	tags?: (id: K) => string[];
+}
+
+/** Typed view of the keys `<prefix>:<id>`; see Cache.entry(). */
+export interface CacheEntry<T, K extends string | number> {
+	key(id: K): string;
+	get(id: K): Promise<T | undefined>;
+	set(id: K, value: T, opts?: SetOptions): Promise<void>;
+	delete(...ids: K[]): Promise<void>;
+	wrap(id: K, loader: () => Promise<T>, opts?: WrapOptions): Promise<T>;
+}
+
+/** Settings accepted by configureCache(), in the shape of TRPConfig `redis`. */
+export interface CacheSettings extends CacheOptions {
+	/** Without `host` the in-memory backend is used. */
+	redis?: RedisSettings;
+}
+
+/** Longest wait between attempts to subscribe to invalidations. */
+const SUBSCRIBE_RETRY_MAX_MS = 30_000;
+
+/** Broadcast on `<namespace>:invalidate` */
+type InvalidationMessage = { from: string; keys: string[] };
+
+/* -------------------------------------------------------------------------- */
+/*                                   Cache                                    */
+/* -------------------------------------------------------------------------- */
+
+export class Cache {
+	readonly namespace: string;
+	/** Identifies this process in invalidation broadcasts. */
+	readonly nodeId = `${os.hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+	private readonly defaultTtlMs: number;
+	private readonly localTtlMs: number;
+	private readonly localMaxEntries: number;
+	private readonly local = new Map<
+		string,
+		{ value: string; expiresAt: number }
+	>();
+	private readonly inflight = new Map<string, Promise<unknown>>();
+	private offInvalidate?: () => void;
+	/** Invalidations from other nodes reach us: only then is the local copy used. */
+	private localReady = false;
+	private subscribeRetry?: ReturnType<typeof setTimeout>;
+	private closed = false;
+
+	constructor(
+		readonly backend: CacheBackend,
+		opts: CacheOptions = {},
+	) {
+		this.namespace = opts.namespace ?? "trp";
+		this.defaultTtlMs = opts.defaultTtlMs ?? 0;
+		// A local copy in front of an in-process store would only duplicate it
+		this.localTtlMs = backend.kind === "memory" ? 0 : (opts.localTtlMs ?? 0);
+		this.localMaxEntries = opts.localMaxEntries ?? 10_000;
+		if (this.localTtlMs > 0) this.listenInvalidations(0);
+	}
+
+	/**
+	 * Subscribes to the other nodes' invalidations. Until that succeeds the
+	 * local copy stays off (it could serve stale values); failures are retried
+	 * with backoff.
+	 */
+	private listenInvalidations(attempt: number): void {
+		this.subscribeRaw(`${this.namespace}:invalidate`, (raw) => {
+			const msg = JSON.parse(raw) as InvalidationMessage;
+			if (msg.from === this.nodeId) return;
+			for (const key of msg.keys) this.local.delete(key);
+		}).then(
+			(off) => {
+				if (this.closed) return off();
+				this.offInvalidate = off;
+				this.localReady = true;
+			},
+			(err) => {
+				if (this.closed) return;
+				const delay = Math.min(SUBSCRIBE_RETRY_MAX_MS, 1000 * 2 ** attempt);
+				console.warn(
+					`[@trp/cache] invalidation subscribe failed, local copy off; retrying in ${delay / 1000}s: ${(err as Error).message}`,
+				);
+				this.subscribeRetry = setTimeout(
+					() => this.listenInvalidations(attempt + 1),
+					delay,
+				);
+				this.subscribeRetry.unref?.();
+			},
+		);
+	}
+
+	/* ------------------------------- Keys ---------------------------------- */
+
+	private k(key: string): string {
+		return `${this.namespace}:${key}`;
+	}
+
+	private tagKey(tag: string): string {
+		return `${this.namespace}:tag:${tag}`;
+	}
+
+	private channel(name: string): string {
+		return `${this.namespace}:ch:${name}`;
+	}
+
+	/* ----------------------------- Local copy ------------------------------ */
+
+	private readLocal(fullKey: string): string | undefined {
+		if (!this.localReady) return undefined;
+		const hit = this.local.get(fullKey);
+		if (!hit) return undefined;
+		if (hit.expiresAt > Date.now()) return hit.value;
+		this.local.delete(fullKey);
+		return undefined;
+	}
+
+	private writeLocal(fullKey: string, value: string): void {
+		if (!this.localReady) return;
+		if (this.local.size >= this.localMaxEntries) {
+			// Map keeps insertion order: drop the oldest entry
+			const oldest = this.local.keys().next().value;
+			if (oldest !== undefined) this.local.delete(oldest);
+		}
+		this.local.set(fullKey, {
+			value,
+			expiresAt: Date.now() + this.localTtlMs,
+		});
+	}
+
+	/** Drops local copies here and tells the other nodes to do the same. */
+	private async broadcastInvalidation(fullKeys: string[]): Promise<void> {
+		for (const key of fullKeys) this.local.delete(key);
+		if (this.localTtlMs <= 0 || fullKeys.length === 0) return;
+		const msg: InvalidationMessage = { from: this.nodeId, keys: fullKeys };
+		await this.backend.publish(
+			`${this.namespace}:invalidate`,
+			JSON.stringify(msg),
+		);
+	}
+
+	/* ------------------------------ Values --------------------------------- */
+
+	async get<T>(key: string): Promise<T | undefined> {
+		const fullKey = this.k(key);
+		let raw = this.readLocal(fullKey);
+		if (raw === undefined) {
+			raw = await this.backend.get(fullKey);
+			if (raw === undefined) return undefined;
+			this.writeLocal(fullKey, raw);
+		}
+		return JSON.parse(raw) as T;
+	}
+
+	async set<T>(key: string, value: T, opts: SetOptions = {}): Promise<void> {
+		const fullKey = this.k(key);
+		const raw = JSON.stringify(value ?? null);
+		await this.backend.set(
+			fullKey,
+			raw,
+			opts.ttlMs ?? this.defaultTtlMs,
+			(opts.tags ?? []).map((t) => this.tagKey(t)),
+		);
+		// Other nodes may hold the previous value
+		await this.broadcastInvalidation([fullKey]);
+		this.writeLocal(fullKey, raw);
+	}
+
+	async delete(...keys: string[]): Promise<void> {
+		const fullKeys = keys.map((k) => this.k(k));
+		await this.backend.delete(fullKeys);
+		await this.broadcastInvalidation(fullKeys);
+	}
+
+	/**
+	 * Cache-aside: returns the cached value or runs `loader`, caches and
+	 * returns its result. Concurrent calls for the same key share one load.
+	 * A loader error is not cached.
+	 *
+	 * @example
+	 *   const player = await cache.wrap(`player:license:${license}`, () =>
+	 *     db.query.players.findFirst({ where: eq(players.license, license) }),
+	 *     { ttlMs: 60_000, tags: ["players"] });
+	 */
+	async wrap<T>(
+		key: string,
+		loader: () => Promise<T>,
+		opts: WrapOptions = {},
+	): Promise<T> {
+		const cached = await this.get<T>(key);
+		if (cached !== undefined && (cached !== null || opts.cacheEmpty)) {
+			return cached;
+		}
+		const pending = this.inflight.get(key);
+		if (pending) return pending as Promise<T>;
+
+		const load = (async () => {
+			const value = await loader();
+			if (value != null || opts.cacheEmpty) await this.set(key, value, opts);
+			return value;
+		})().finally(() => this.inflight.delete(key));
+		this.inflight.set(key, load);
+		return load;
+	}
+
+	/** Deletes every key set with any of these tags, on every node. */
+	async invalidateTags(...tags: string[]): Promise<void> {
+		const fullKeys = await this.backend.invalidateTags(
+			tags.map((t) => this.tagKey(t)),
+		);
+		await this.broadcastInvalidation(fullKeys);
+	}
+
+	/**
+	 * Typed accessors for the keys `<prefix>:<id>`, with default TTL and tags.
+	 *
+	 * @example
+	 *   const byLicense = cache.entry<Player, string>("player:license", {
+	 *     ttlMs: 60_000,
+	 *     tags: (license) => [`player:${license}`],
+	 *   });
+	 */
+	entry<T, K extends string | number = string>(
+		prefix: string,
+		defaults: EntryOptions<K> = {},
+	): CacheEntry<T, K> {
+		const key = (id: K) => `${prefix}:${id}`;
+		const withDefaults = <O extends SetOptions>(id: K, opts?: O) =>
+			({
+				ttlMs: defaults.ttlMs,
+				...opts,
+				tags: [...(defaults.tags?.(id) ?? []), ...(opts?.tags ?? [])],
+			}) as O;
+		return {
+			key,
+			get: (id) => this.get<T>(key(id)),
+			set: (id, value, opts) =>
+				this.set(key(id), value, withDefaults(id, opts)),
+			delete: (...ids) => this.delete(...ids.map(key)),
+			wrap: (id, loader, opts) =>
+				this.wrap(key(id), loader, withDefaults(id, opts)),
+		};
+	}
+
+	/* ------------------------------ Pub/sub -------------------------------- */
+
+	/** Publishes a JSON payload to every subscriber (all nodes with Redis). */
+	async publish<T>(channel: string, payload: T): Promise<void> {
+		await this.backend.publish(this.channel(channel), JSON.stringify(payload));
+	}
+
+	/** Returns a function that removes the handler. */
+	async subscribe<T>(
+		channel: string,
+		handler: (payload: T) => void,
+	): Promise<() => void> {
+		return this.subscribeRaw(this.channel(channel), (raw) =>
+			handler(JSON.parse(raw) as T),
+		);
+	}
+
+	private subscribeRaw(
+		channel: string,
+		handler: (raw: string) => void,
+	): Promise<() => void> {
+		return this.backend.subscribe(channel, (raw) => {
+			try {
+				handler(raw);
+			} catch (err) {
+				console.error(`[@trp/cache] handler for "${channel}" failed:`, err);
+			}
+		});
+	}
+
+	async close(): Promise<void> {
+		this.closed = true;
+		this.localReady = false;
+		clearTimeout(this.subscribeRetry);
+		this.offInvalidate?.();
+		this.local.clear();
+		await this.backend.close();
+	}
+}
+
+/* -------------------------------------------------------------------------- */
+/*                           Global (hot-reload safe)                          */
+/* -------------------------------------------------------------------------- */
+
+const GLOBAL_STATE_KEY = Symbol.for("__TRP_CACHE_SINGLETON__");
+
+type GlobalState = { cache?: Cache };
+
+const globalState: GlobalState =
+	// eslint-disable-next-line @typescript-eslint/no-explicit-any
+	((globalThis as any)[GLOBAL_STATE_KEY] as GlobalState) ?? {};
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+(globalThis as any)[GLOBAL_STATE_KEY] = globalState;
+
+/* -------------------------------------------------------------------------- */
+/*                                Public API                                  */
+/* -------------------------------------------------------------------------- */
+
+/** Builds a Cache for these settings: Redis if `redis.host` is set, memory otherwise. */
+export function createCache(settings: CacheSettings = {}): Cache {
+	const { redis, ...opts } = settings;
+	const backend = redis?.host ? new RedisBackend(redis) : new MemoryBackend();
+	return new Cache(backend, opts);
+}
+
+/**
+ * Creates the process-wide cache. Call once at startup, before getCache();
+ * later calls are ignored with a warning.
+ */
+export function configureCache(settings: CacheSettings): Cache {
+	if (globalState.cache) {
+		console.warn("[@trp/cache] cache already created; new settings ignored");
+		return globalState.cache;
+	}
+	globalState.cache = createCache(settings);
+	return globalState.cache;
+}
+
+/** The process-wide cache (in-memory unless configureCache() chose Redis). */
+export function getCache(): Cache {
+	globalState.cache ??= createCache();
+	return globalState.cache;
+}
+
+/** Closes the process-wide cache (Redis connections included). */
+export async function closeCache(): Promise<void> {
+	const cache = globalState.cache;
+	globalState.cache = undefined;
+	await cache?.close();
+}
@@ -0,0 +1,238 @@
+// Loaders de formato para archivos de configuración (elegidos por extensión)
+import fs from "node:fs";
+import path from "node:path";
+import { parse as parseJSON5 } from "json5";
+import { parse as parseYAML, YAMLParseError } from "yaml";
+import { parse as parseTOML, TomlError } from "smol-toml";
+
+/* ---------------------------------- Tipos --------------------------------- */
+export interface ConfigFormat {
+	/** Nombre legible (aparece en errores) */
+	name: string;
+	/** Extensiones sin punto, en minúsculas: ["yaml", "yml"] */
+	extensions: string[];
+	/** Parsea el contenido crudo. Debe lanzar ConfigError con línea/columna si puede. */
+	parse(raw: string, file: string): unknown;
+}
+
+/**
+ * Error de configuración con ubicación. Se lanza en lugar de tragarse el fallo
+ * para que un archivo mal escrito no caiga silenciosamente a los defaults.
+ */
+export class ConfigError extends Error {
+	constructor(
+		message: string,
+		readonly file?: string,
+		readonly line?: number,
+		readonly column?: number,
+	) {
+		super(ConfigError.describe(message, file, line, column));
+		this.name = "ConfigError";
+	}
+
+	private static describe(
+		message: string,
+		file?: string,
+		line?: number,
+		column?: number,
+	): string {
+		if (!file) return message;
+		const loc = line ? `:${line}${column ? `:${column}` : ""}` : "";
+		return `${file}${loc}: ${message}`;
+	}
+}
+
+/* ------------------------------- Utilidades -------------------------------- */
+/** Convierte un offset (JSON.parse) a línea/columna 1-based. */
+function offsetToLineCol(raw: string, offset: number) {
+	const before = raw.slice(0, offset).split("\n");
+	return { line: before.length, column: before[before.length - 1].length + 1 };
+}
+
+function parseJSONStrict(raw: string, file: string): unknown {
+	try {
+		return JSON.parse(raw);
+	} catch (e) {
+		const msg = (e as Error).message;
+		// Node >= 22: "... (line 3 column 5)"; antes: "... at position 42"
+		const lc = /line (\d+) column (\d+)/.exec(msg);
+		if (lc) throw new ConfigError(msg, file, Number(lc[1]), Number(lc[2]));
+		const pos = /position (\d+)/.exec(msg);
+		if (pos) {
+			const { line, column } = offsetToLineCol(raw, Number(pos[1]));
+			throw new ConfigError(msg, file, line, column);
+		}
+		throw new ConfigError(msg, file);
+	}
+}
+
+function parseJSON5Located(raw: string, file: string): unknown {
+	try {
+		return parseJSON5(raw);
+	} catch (e) {
+		const err = e as SyntaxError & {
+			lineNumber?: number;
+			columnNumber?: number;
+		};
+		// json5 antepone "JSON5: " y añade " at L:C" al mensaje
+		const msg = err.message
+			.replace(/^JSON5:\s*/, "")
+			.replace(/ at \d+:\d+$/, "");
+		throw new ConfigError(msg, file, err.lineNumber, err.columnNumber);
+	}
+}
+
+/* --------------------------------- Formatos -------------------------------- */
+export const JsonFormat: ConfigFormat = {
+	name: "JSON",
+	extensions: ["json"],
+	parse: parseJSONStrict,
+};
+
+export const Json5Format: ConfigFormat = {
+	name: "JSON5",
+	extensions: ["json5"],
+	parse: parseJSON5Located,
+};
+
+// JSONC (comentarios + comas finales) es un subconjunto de JSON5
+export const JsoncFormat: ConfigFormat = {
+	name: "JSONC",
+	extensions: ["jsonc"],
+	parse: parseJSON5Located,
+};
+
+export const YamlFormat: ConfigFormat = {
+	name: "YAML",
+	extensions: ["yaml", "yml"],
+	parse(raw, file) {
+		try {
+			return parseYAML(raw);
+		} catch (e) {
+			if (e instanceof YAMLParseError) {
+				const pos = e.linePos?.[0];
+				// El mensaje de yaml incluye posición y extracto; nos quedamos con el texto
+				const msg = e.message
+					.split("\n")[0]
+					.replace(/ at line \d+, column \d+:?$/, "");
+				throw new ConfigError(msg, file, pos?.line, pos?.col);
+			}
+			throw new ConfigError((e as Error).message, file);
+		}
+	},
+};
+
+export const TomlFormat: ConfigFormat = {
+	name: "TOML",
+	extensions: ["toml"],
+	parse(raw, file) {
+		try {
+			return parseTOML(raw);
+		} catch (e) {
+			if (e instanceof TomlError) {
+				throw new ConfigError(e.message.split("\n")[0], file, e.line, e.column);
+			}
+			throw new ConfigError((e as Error).message, file);
+		}
+	},
+};
+
+/* -------------------------------- Registro --------------------------------- */
+const formats: ConfigFormat[] = [
+	JsoncFormat,
+	Json5Format,
+	JsonFormat,
+	YamlFormat,
+	TomlFormat,
+];
+
+/**
+ * Registra (o reemplaza) un loader. Un formato nuevo que declare una extensión
+ * ya registrada tiene prioridad sobre el anterior.
+ */
+export function registerConfigFormat(format: ConfigFormat): void {
+	const exts = new Set(format.extensions.map((e) => e.toLowerCase()));
+	for (let i = formats.length - 1; i >= 0; i--) {
+		const extensions = formats[i].extensions.filter((e) => !exts.has(e));
+		if (extensions.length === 0) formats.splice(i, 1);
+		// Una copia: JsoncFormat, YamlFormat... son de quien los importa
+		else formats[i] = { ...formats[i], extensions };
+	}
+	formats.unshift({ ...format, extensions: [...exts] });
+}
+
+export function supportedExtensions(): string[] {
+	return formats.flatMap((f) => f.extensions);
+}
+
+export function formatFor(file: string): ConfigFormat | undefined {
+	const ext = path.extname(file).slice(1).toLowerCase();
+	return formats.find((f) => f.extensions.includes(ext));
+}
+
+/** Separa "trp-core.yaml" → { base: "trp-core", ext: "yaml" } si la extensión está soportada. */
+export function splitConfigFile(
+	entry: string,
+): { base: string; ext: string } | undefined {
+	const ext = path.extname(entry).slice(1).toLowerCase();
+	if (!ext || !formatFor(entry)) return undefined;
+	return { base: entry.slice(0, -(ext.length + 1)), ext };
+}
+
+/* --------------------------------- Lectura --------------------------------- */
+/**
+ * Lee y parsea un archivo según su extensión.
+ * - Devuelve undefined si el archivo no existe o está vacío.
+ * - Lanza ConfigError si la extensión no está soportada, el contenido no es
+ *   válido o la raíz no es un objeto.
+ */
+export function readConfigFile(
+	file: string,
+): Record<string, unknown> | undefined {
+	const format = formatFor(file);
+	if (!format) {
+		throw new ConfigError(
+			`extensión no soportada (soportadas: ${supportedExtensions().join(", ")})`,
+			file,
+		);
+	}
+	if (!fs.existsSync(file)) return undefined;
+	const raw = fs.readFileSync(file, "utf8");
+	if (!raw.trim()) return undefined;
+
+	const data = format.parse(raw, file);
+	if (data === null || data === undefined) return undefined;
+	if (typeof data !== "object" || Array.isArray(data)) {
+		throw new ConfigError(
+			`la raíz de un archivo ${format.name} debe ser un objeto`,
+			file,
+		);
+	}
+	return data as Record<string, unknown>;
+}
+
+/**
+ * Busca `<dir>/<base>.<ext>` para todas las extensiones soportadas.
+ * Regla: como mucho UN archivo por nombre base. Si hay varios (p. ej.
+ * `trp-core.yaml` y `trp-core.json5`) se lanza ConfigError en lugar de elegir
+ * uno en silencio.
+ */
+export function findConfigFile(dir: string, base: string): string | undefined {
+	if (!fs.existsSync(dir)) return undefined;
+	const matches = fs
+		.readdirSync(dir)
+		.filter((entry) => splitConfigFile(entry)?.base === base)
+		.map((entry) => path.join(dir, entry))
+		.filter((file) => fs.statSync(file).isFile());
+	if (matches.length > 1) throw ambiguousError(base, matches);
+	return matches[0];
+}
+
+export function ambiguousError(base: string, files: string[]): ConfigError {
+	return new ConfigError(
+		`varios archivos para "${base}" con distinta extensión: ${files
+			.map((f) => path.basename(f))
+			.join(", ")}. Deja solo uno.`,
+		path.dirname(files[0]),
+	);
+}
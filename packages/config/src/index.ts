@@ -1,10 +1,63 @@
-// config-loader.single-json5.ts
+// config-loader.ts
 import fs from "node:fs";
 import path from "node:path";
 import os from "node:os";
 import { z } from "zod";
-import { parse as parseJSON5 } from "json5";
 import { TRPConfig } from "@trp/types";
+import {
+	ambiguousError,
+	findConfigFile,
+	readConfigFile,
+	splitConfigFile,
+} from "./formats";
+import {
+	CONVAR_PREFIX,
+	ENV_PREFIX,
+	convarLayer,
+	envLayer,
+	getAtPath,
+	leafPaths,
+} from "./overrides";
+
+import { checkConfig, registerConfigSchema } from "./registry";
+import {
+	SECRETS_KEY_ENV,
+	hasSecretKey,
+	openSecretsFile,
+	redactTree,
+	resolveSecretRefs,
+} from "./secrets";
+
+export { ENV_PREFIX, CONVAR_PREFIX } from "./overrides";
+export {
+	checkConfig,
+	configJsonSchema,
+	registerConfigSchema,
+	registeredSchemas,
+	type ConfigIssue,
+	type ConfigReport,
+	type SectionReport,
+} from "./registry";
+export {
+	REDACTED,
+	SECRETS_KEY_ENV,
+	decryptSecrets,
+	encryptSecrets,
+	generateSecretsKey,
+	isSecretsEnvelope,
+	type SecretsEnvelope,
+} from "./secrets";
+export {
+	ConfigError,
+	JsonFormat,
+	Json5Format,
+	JsoncFormat,
+	YamlFormat,
+	TomlFormat,
+	registerConfigFormat,
+	supportedExtensions,
+	type ConfigFormat,
+} from "./formats";
 
 /* ---------------------------------- Tipos --------------------------------- */
 export type DeepPartial<T> = {
@@ -14,10 +67,18 @@ export type DeepPartial<T> = {
 export interface LoadOptions {
 	/** Carpeta de config. Por defecto TRP_CONFIG_DIR o ./config */
 	configDir?: string;
-	/** Desactivar carga de config/modules/*.json5 */
+	/** Desactivar carga de config/modules/<modulo>.<ext> */
 	loadPerModuleFiles?: boolean;
-	/** Desactivar mezcla de secrets.json5 */
+	/** Desactivar mezcla de secrets.<ext> */
 	loadSecrets?: boolean;
+	/** Desactivar overrides por variables de entorno TRP__* */
+	loadEnv?: boolean;
+	/** Desactivar overrides por convars trp:* */
+	loadConvars?: boolean;
+	/** Entorno a usar en lugar de process.env */
+	env?: NodeJS.ProcessEnv;
+	/** Forzar perfil (por defecto: convar trp_env/trp_node o TRP_ENV/TRP_NODE) */
+	profile?: Partial<ConfigProfile>;
 }
 
 /* ------------------------------- Utilidades -------------------------------- */
@@ -34,19 +95,6 @@ function deepMerge<T>(base: T, override: DeepPartial<T>): T {
 	return out;
 }
 
-function tryRead(file: string): unknown | undefined {
-	try {
-		// Acepta .json5 y .json (JSON es válido en JSON5)
-		if (!/\.(json5|json)$/i.test(file)) return undefined;
-		if (!fs.existsSync(file)) return undefined;
-		const raw = fs.readFileSync(file, "utf8");
-		if (!raw.trim()) return undefined;
-		return parseJSON5(raw);
-	} catch {
-		return undefined;
-	}
-}
-
 function findConfigDir(start: string): string | undefined {
 	let cur = path.resolve(start);
 	for (let i = 0; i < 6; i++) {
@@ -60,78 +108,423 @@ function findConfigDir(start: string): string | undefined {
 	return undefined;
 }
 
-/* --------------------------------- Carga ----------------------------------- */
-let cachedConfig: TRPConfig | null = null;
+/**
+ * Archivos de config/modules agrupados por nombre base ("trp-core",
+ * "trp-core.staging"). Dos archivos con el mismo nombre base y distinta
+ * extensión (trp-core.yaml + trp-core.json5) son un error.
+ */
+function listModuleFiles(configDir: string): Map<string, string> {
+	const modulesDir = path.join(configDir, "modules");
+	const byModule = new Map<string, string[]>();
+	if (!fs.existsSync(modulesDir)) return new Map();
+	for (const entry of fs.readdirSync(modulesDir).sort()) {
+		const parsed = splitConfigFile(entry);
+		if (!parsed) continue;
+		const file = path.join(modulesDir, entry);
+		if (!fs.statSync(file).isFile()) continue;
+		byModule.set(parsed.base, [...(byModule.get(parsed.base) ?? []), file]);
+	}
+	const out = new Map<string, string>();
+	for (const [modName, files] of byModule) {
+		if (files.length > 1) throw ambiguousError(modName, files);
+		out.set(modName, files[0]);
+	}
+	return out;
+}
 
-export function loadConfig(opts: LoadOptions = {}): TRPConfig {
-	if (cachedConfig) return cachedConfig;
+/** "trp-core" siempre aplica; "trp-core.<perfil>" solo si es el perfil activo. */
+function isActiveModuleFile(entry: string, env: string): boolean {
+	const [, profile, ...rest] = entry.split(".");
+	return rest.length === 0 && (profile === undefined || profile === env);
+}
+
+/* --------------------------------- Capas ----------------------------------- */
+/**
+ * Orden de precedencia (de menor a mayor):
+ *   defaults < config < modules/* < secrets < env < convars
+ *
+ * Dentro de "config": config < config.<env> < config.node.<node>.
+ * Dentro de "modules": <modulo> < <modulo>.<env>.
+ */
+export type ConfigLayerName =
+	| "defaults"
+	| "config"
+	| "modules"
+	| "secrets"
+	| "env"
+	| "convars";
+
+export interface ConfigLayer {
+	name: ConfigLayerName;
+	/** Archivo, "TRP__*", "trp:*"... lo que sirva para localizar el valor */
+	source: string;
+	data: DeepPartial<TRPConfig>;
+	/** Origen concreto por hoja (p. ej. la variable exacta) cuando difiere de `source` */
+	sources?: Map<string, string>;
+	/** Hojas secretas que aporta la capa (se redactan en volcados) */
+	secretPaths?: string[];
+}
+
+export interface ConfigExplanation {
+	/** Ruta con puntos: "db.mysql.host" */
+	path: string;
+	value: unknown;
+	layer: ConfigLayerName;
+	source: string;
+	/** Si es true, `value` viene redactado salvo que se pida { reveal: true } */
+	secret: boolean;
+}
+
+interface LoadedConfig {
+	config: TRPConfig;
+	layers: ConfigLayer[];
+	/** ruta de hoja → capa (y origen) que la aportó */
+	provenance: Map<string, { layer: ConfigLayerName; source: string }>;
+	/** Rutas de hojas secretas. Una vez secreta, lo es aunque otra capa la pise. */
+	secretPaths: Set<string>;
+	profile: ConfigProfile;
+	configDir: string;
+}
+
+/** Perfil activo: decide qué archivos config.<env>/config.node.<node> se cargan. */
+export interface ConfigProfile {
+	env: string;
+	node: string;
+}
+
+function pathKey(p: string[]): string {
+	return p.join(".");
+}
+
+/** true si `key` es secreta o tiene alguna hoja secreta debajo (p. ej. un array). */
+function coversSecret(secretPaths: Set<string>, key: string): boolean {
+	if (secretPaths.has(key)) return true;
+	for (const p of secretPaths) {
+		if (p.startsWith(key + ".")) return true;
+	}
+	return false;
+}
+
+/** Mezcla las capas en orden registrando qué capa aportó cada hoja. */
+function mergeLayers(
+	layers: ConfigLayer[],
+): Omit<LoadedConfig, "profile" | "configDir"> {
+	let config = {} as TRPConfig;
+	const provenance: LoadedConfig["provenance"] = new Map();
+	const secretPaths = new Set<string>();
+	for (const layer of layers) {
+		config = deepMerge(config, layer.data);
+		for (const p of layer.secretPaths ?? []) secretPaths.add(p);
+		for (const leaf of leafPaths(layer.data)) {
+			const key = pathKey(leaf);
+			// TRP__* y convars no traen referencias que las marquen: son secretas
+			// por el nombre de la clave o si ya lo eran en una capa inferior
+			if (
+				(layer.name === "env" || layer.name === "convars") &&
+				(hasSecretKey(leaf[leaf.length - 1], getAtPath(layer.data, leaf)) ||
+					coversSecret(secretPaths, key))
+			) {
+				secretPaths.add(key);
+			}
+			// Una hoja que reemplaza un objeto entero borra el origen de sus hijas
+			for (const k of provenance.keys()) {
+				if (k.startsWith(key + ".")) provenance.delete(k);
+			}
+			provenance.set(key, {
+				layer: layer.name,
+				source: layer.sources?.get(key) ?? layer.source,
+			});
+		}
+	}
+	return { config, layers, provenance, secretPaths };
+}
+
+/**
+ * Capa a partir de un archivo: resuelve las referencias ${env:..}/${file:..}
+ * y marca como secretas esas hojas (o todas, si la capa es "secrets").
+ */
+function fileLayer(
+	name: ConfigLayerName,
+	source: string,
+	data: Record<string, unknown>,
+	configDir: string,
+	processEnv: NodeJS.ProcessEnv,
+): ConfigLayer {
+	const resolved = resolveSecretRefs(data, configDir, source, processEnv);
+	return {
+		name,
+		source,
+		data: resolved.data,
+		secretPaths:
+			name === "secrets"
+				? leafPaths(resolved.data).map(pathKey)
+				: resolved.secretPaths,
+	};
+}
+
+/* --------------------------------- Perfil ---------------------------------- */
+type ProfileValue = { value: string; layer: ConfigLayerName; source: string };
+
+function readConvar(name: string): string | undefined {
+	if (typeof GetConvar !== "function") return undefined;
+	const v = GetConvar(name, "");
+	return v === "" ? undefined : v;
+}
+
+/**
+ * Resuelve env/node, de mayor a menor prioridad:
+ *   LoadOptions.profile > convar trp_env/trp_node > TRP_ENV/TRP_NODE >
+ *   clave env/node de config.<ext> > "single" / hostname
+ */
+function resolveProfileValue(
+	key: keyof ConfigProfile,
+	opts: LoadOptions,
+	baseFile: string | undefined,
+	baseData: Record<string, unknown> | undefined,
+	fallback: string,
+): ProfileValue {
+	const optValue = opts.profile?.[key];
+	if (optValue)
+		return {
+			value: optValue,
+			layer: "defaults",
+			source: "LoadOptions.profile",
+		};
+	const convar = `trp_${key}`;
+	const fromConvar = readConvar(convar);
+	if (fromConvar)
+		return { value: fromConvar, layer: "convars", source: convar };
+	const envVar = `TRP_${key.toUpperCase()}`;
+	const fromEnv = (opts.env ?? process.env)[envVar];
+	if (fromEnv) return { value: fromEnv, layer: "env", source: envVar };
+	const fromFile = baseData?.[key];
+	if (baseFile && typeof fromFile === "string" && fromFile) {
+		return { value: fromFile, layer: "config", source: baseFile };
+	}
+	return { value: fallback, layer: "defaults", source: "@trp/config" };
+}
+
+/* --------------------------------- Carga ----------------------------------- */
+let cached: LoadedConfig | null = null;
+let lastOptions: LoadOptions = {};
 
+function buildConfig(opts: LoadOptions): LoadedConfig {
 	const configDir =
 		opts.configDir ??
 		process.env.TRP_CONFIG_DIR ??
 		findConfigDir(process.cwd()) ??
 		path.join(process.cwd(), "config");
+	// Para ${env:X}, TRP__* y TRP_SECRETS_KEY: el mismo entorno en todas las capas
+	const processEnv = opts.env ?? process.env;
 
-	// Único archivo requerido
-	const baseCandidates = [
-		path.join(configDir, "config.json5"),
-		path.join(configDir, "config.json"), // fallback
-	];
-	const baseData =
-		(tryRead(
-			baseCandidates.find(fs.existsSync) ?? "",
-		) as DeepPartial<TRPConfig>) ?? {};
+	// Único archivo requerido: config.<ext> (jsonc, json5, json, yaml, yml, toml)
+	const baseFile = findConfigFile(configDir, "config");
+	const baseData = baseFile ? readConfigFile(baseFile) : undefined;
 
-	// Base mínima
-	let cfg: TRPConfig = deepMerge(
-		{
-			env: "single",
-			node: os.hostname().toLowerCase(),
-			modules: {},
-		} as TRPConfig,
+	const env = resolveProfileValue("env", opts, baseFile, baseData, "single");
+	const node = resolveProfileValue(
+		"node",
+		opts,
+		baseFile,
 		baseData,
+		os.hostname().toLowerCase(),
 	);
 
-	// Opcional: mezclar config/modules/*.json5|.json en cfg.modules[name]
+	// Base mínima
+	const layers: ConfigLayer[] = [
+		{
+			name: "defaults",
+			source: "@trp/config",
+			data: { modules: {} },
+		},
+	];
+
+	if (baseFile && baseData) {
+		layers.push(fileLayer("config", baseFile, baseData, configDir, processEnv));
+	}
+
+	// Perfil: config.<env>.<ext> y después config.node.<node>.<ext>
+	for (const base of [`config.${env.value}`, `config.node.${node.value}`]) {
+		const file = findConfigFile(configDir, base);
+		const data = file ? readConfigFile(file) : undefined;
+		if (file && data) {
+			layers.push(fileLayer("config", file, data, configDir, processEnv));
+		}
+	}
+
+	// Opcional: mezclar config/modules/<modulo>.<ext> en cfg.modules[modulo],
+	// y encima config/modules/<modulo>.<env>.<ext>
 	if (opts.loadPerModuleFiles !== false) {
-		const modulesDir = path.join(configDir, "modules");
-		if (fs.existsSync(modulesDir)) {
-			for (const entry of fs.readdirSync(modulesDir)) {
-				if (!/\.(json5|json)$/i.test(entry)) continue;
-				const modName = entry.replace(/\.(json5|json)$/i, "");
-				const data = tryRead(path.join(modulesDir, entry));
-				if (data) {
-					const prev = (cfg.modules ?? {})[modName] ?? {};
-					cfg.modules = {
-						...(cfg.modules ?? {}),
-						[modName]: deepMerge(prev, data as Record<string, unknown>),
-					};
-				}
+		const files = listModuleFiles(configDir);
+		const ordered = [...files.entries()]
+			.filter(([entry]) => isActiveModuleFile(entry, env.value))
+			.sort(([a], [b]) => a.split(".").length - b.split(".").length);
+		for (const [entry, file] of ordered) {
+			const data = readConfigFile(file);
+			if (data) {
+				layers.push(
+					fileLayer(
+						"modules",
+						file,
+						{ modules: { [entry.split(".")[0]]: data } },
+						configDir,
+						processEnv,
+					),
+				);
 			}
 		}
 	}
 
-	// Opcional: mezclar secrets.json5|.json (gitignored)
+	// Opcional: mezclar secrets.<ext> (gitignored) y encima secrets.enc.json
+	// (cifrado con TRP_SECRETS_KEY; se puede versionar)
 	if (opts.loadSecrets !== false) {
-		const secretsCandidates = [
-			path.join(configDir, "secrets.json5"),
-			path.join(configDir, "secrets.json"),
-		];
-		const secrets = tryRead(secretsCandidates.find(fs.existsSync) ?? "");
-		if (secrets) cfg = deepMerge(cfg, secrets as DeepPartial<TRPConfig>);
+		const secretsFile = findConfigFile(configDir, "secrets");
+		const secrets = secretsFile ? readConfigFile(secretsFile) : undefined;
+		if (secretsFile && secrets) {
+			layers.push(
+				fileLayer("secrets", secretsFile, secrets, configDir, processEnv),
+			);
+		}
+		const encFile = findConfigFile(configDir, "secrets.enc");
+		const envelope = encFile ? readConfigFile(encFile) : undefined;
+		if (encFile && envelope) {
+			const data = openSecretsFile(
+				envelope,
+				encFile,
+				processEnv[SECRETS_KEY_ENV],
+			);
+			layers.push(fileLayer("secrets", encFile, data, configDir, processEnv));
+		}
+	}
+
+	// Opcional: variables de entorno TRP__SECCION__CLAVE
+	if (opts.loadEnv !== false) {
+		const base = mergeLayers(layers).config as Record<string, unknown>;
+		const { data, sources } = envLayer(base, processEnv);
+		if (sources.size) {
+			layers.push({ name: "env", source: `${ENV_PREFIX}*`, data, sources });
+		}
+	}
+
+	// Opcional: convars trp:<ruta> (solo dentro de FXServer)
+	if (opts.loadConvars !== false) {
+		const base = mergeLayers(layers).config as Record<string, unknown>;
+		const { data, sources } = convarLayer(base);
+		if (sources.size) {
+			layers.push({
+				name: "convars",
+				source: `${CONVAR_PREFIX}*`,
+				data,
+				sources,
+			});
+		}
+	}
+
+	// env/node son los del perfil resuelto aunque algún archivo diga otra cosa
+	const merged = mergeLayers(layers);
+	merged.config.env = env.value;
+	merged.config.node = node.value;
+	merged.provenance.set("env", { layer: env.layer, source: env.source });
+	merged.provenance.set("node", { layer: node.layer, source: node.source });
+	return {
+		...merged,
+		profile: { env: env.value, node: node.value },
+		configDir,
+	};
+}
+
+export function loadConfig(opts: LoadOptions = {}): TRPConfig {
+	if (!cached) {
+		cached = buildConfig(opts);
+		lastOptions = opts;
 	}
+	return cached.config;
+}
+
+/** Perfil (env/node) con el que se cargó la config. */
+export function activeProfile(): ConfigProfile {
+	loadConfig();
+	return { ...(cached as LoadedConfig).profile };
+}
+
+/** Capas cargadas, en orden de precedencia. */
+export function configLayers(): ConfigLayer[] {
+	loadConfig();
+	return [...(cached as LoadedConfig).layers];
+}
 
-	cachedConfig = cfg;
-	return cfg;
+/**
+ * true si la hoja es un secreto: viene de secrets.* o de una referencia, o es
+ * una clave secreta (password) pisada con TRP__* o una convar.
+ */
+export function isSecretPath(configPath: string): boolean {
+	loadConfig();
+	return (cached as LoadedConfig).secretPaths.has(configPath);
+}
+
+/**
+ * Copia de `value` con los secretos redactados. `rootPath` es la ruta en la
+ * que vive `value` dentro de la config ("" = raíz).
+ *
+ * @example
+ *   redactConfig(getMySqlConfig(), "db.mysql"); // { ..., password: "[redacted]" }
+ */
+export function redactConfig<T>(value: T, rootPath = ""): T {
+	return redactTree(value, rootPath, isSecretPath) as T;
+}
+
+/** Config completa (o una rama) lista para volcar en logs: secretos redactados. */
+export function dumpConfig(configPath = ""): unknown {
+	const root = configPath ? configPath.split(".") : [];
+	return redactConfig(getAtPath(loadConfig(), root), configPath);
+}
+
+/**
+ * Explica de qué capa sale cada valor bajo `configPath` ("" = toda la config).
+ * Pensado para depurar despliegues: qué archivo, variable o convar ganó.
+ * Los secretos salen redactados salvo con { reveal: true }.
+ *
+ * @example
+ *   explainConfig("db.mysql");
+ *   // [{ path: "db.mysql.host", value: "10.0.0.5", layer: "env", source: "TRP__DB__MYSQL__HOST", secret: false }, ...]
+ */
+export function explainConfig(
+	configPath = "",
+	opts: { reveal?: boolean } = {},
+): ConfigExplanation[] {
+	loadConfig();
+	const { config, provenance, secretPaths } = cached as LoadedConfig;
+	const root = configPath ? configPath.split(".") : [];
+	const value = getAtPath(config, root);
+	return leafPaths(value, root).flatMap((leaf) => {
+		const key = pathKey(leaf);
+		const origin = provenance.get(key);
+		if (!origin) return [];
+		const secret = coversSecret(secretPaths, key);
+		const leafValue = getAtPath(config, leaf);
+		return [
+			{
+				path: key,
+				// Un array es una sola hoja: se redacta lo secreto que tenga dentro
+				value:
+					secret && !opts.reveal
+						? redactTree(leafValue, key, (p) => secretPaths.has(p))
+						: leafValue,
+				layer: origin.layer,
+				source: origin.source,
+				secret,
+			},
+		];
+	});
 }
 
 /* ---------------------------- Helpers de módulos --------------------------- */
-export function configFor<T extends z.ZodTypeAny>(
+function moduleSlice<T extends z.ZodTypeAny>(
+	cfg: TRPConfig,
 	moduleName: string,
 	schema: T,
 	defaults?: z.input<T>,
 ): z.infer<T> {
-	const cfg = loadConfig();
 	const raw = ((cfg.modules ?? {})[moduleName] ?? {}) as unknown;
 	const merged = defaults
 		? deepMerge(defaults, (raw as any) ?? {})
@@ -139,7 +532,155 @@ export function configFor<T extends z.ZodTypeAny>(
 	return schema.parse(merged);
 }
 
+export function configFor<T extends z.ZodTypeAny>(
+	moduleName: string,
+	schema: T,
+	defaults?: z.input<T>,
+): z.infer<T> {
+	return moduleSlice(loadConfig(), moduleName, schema, defaults);
+}
+
+/* -------------------------- Recarga en caliente ---------------------------- */
+export type ConfigChangeHandler<T> = (next: T, prev: T) => void;
+
+interface Subscription {
+	moduleName: string;
+	schema: z.ZodTypeAny;
+	/** Recibe lo que `schema` valida: el tipo concreto se pierde al guardarla */
+	handler: ConfigChangeHandler<unknown>;
+}
+
+export type ReloadResult =
+	| { ok: true; changed: string[] }
+	| { ok: false; error: Error };
+
+const subscriptions = new Set<Subscription>();
+let watcher: fs.FSWatcher | null = null;
+let reloadTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Suscribe un módulo a cambios de su sección. El handler recibe los valores
+ * ya validados (nuevo y anterior) y solo se llama si la sección cambió.
+ * Devuelve una función para cancelar la suscripción.
+ *
+ * @example
+ *   onConfigChange("trp-core", CoreConfigSchema, (next, prev) => {
+ *     if (next.featureFlags.rbac !== prev.featureFlags.rbac) ...
+ *   });
+ */
+export function onConfigChange<T extends z.ZodTypeAny>(
+	moduleName: string,
+	schema: T,
+	handler: ConfigChangeHandler<z.infer<T>>,
+): () => void {
+	const sub: Subscription = {
+		moduleName,
+		schema,
+		handler: handler as ConfigChangeHandler<unknown>,
+	};
+	subscriptions.add(sub);
+	return () => subscriptions.delete(sub);
+}
+
+/**
+ * Vuelve a leer todas las capas. Si algún archivo no parsea o alguna sección
+ * registrada o suscrita deja de validar, se descarta la recarga entera y se
+ * mantiene la última config buena.
+ */
+export function reloadConfig(): ReloadResult {
+	const prev = cached ?? buildConfig(lastOptions);
+	let next: LoadedConfig;
+	try {
+		next = buildConfig(lastOptions);
+	} catch (e) {
+		console.error("[@trp/config] recarga descartada:", (e as Error).message);
+		return { ok: false, error: e as Error };
+	}
+
+	const report = checkConfig(next.config);
+	if (!report.ok) {
+		const issues = report.sections.flatMap((section) => section.errors);
+		console.error(
+			"[@trp/config] recarga descartada: la config no valida:\n" +
+				issues.map((i) => `  - ${i.path}: ${i.message}`).join("\n"),
+		);
+		return { ok: false, error: new Error(issues[0]?.message) };
+	}
+
+	const pending: Array<() => void> = [];
+	const changed = new Set<string>();
+	for (const sub of subscriptions) {
+		const parsed = sub.schema.safeParse(
+			(next.config.modules ?? {})[sub.moduleName] ?? {},
+		);
+		if (!parsed.success) {
+			console.error(
+				`[@trp/config] recarga descartada: "${sub.moduleName}" no valida:\n` +
+					parsed.error.issues
+						.map((issue) => `  - ${issue.path.join(".")}: ${issue.message}`)
+						.join("\n"),
+			);
+			return { ok: false, error: parsed.error };
+		}
+		const old = moduleSlice(prev.config, sub.moduleName, sub.schema);
+		if (JSON.stringify(old) === JSON.stringify(parsed.data)) continue;
+		changed.add(sub.moduleName);
+		pending.push(() => sub.handler(parsed.data, old));
+	}
+
+	cached = next;
+	for (const notify of pending) {
+		try {
+			notify();
+		} catch (e) {
+			console.error("[@trp/config] error en handler de onConfigChange:", e);
+		}
+	}
+	return { ok: true, changed: [...changed] };
+}
+
+/**
+ * Vigila la carpeta de config (incluida modules/) y recarga al detectar
+ * cambios. Los eventos se agrupan (debounce) porque los editores suelen
+ * escribir el archivo en varios pasos.
+ */
+export function watchConfig(debounceMs = 250): void {
+	if (watcher) return;
+	loadConfig(lastOptions);
+	const { configDir } = cached as LoadedConfig;
+	watcher = fs.watch(configDir, { recursive: true }, (_event, file) => {
+		if (file && !splitConfigFile(path.basename(file.toString()))) return;
+		if (reloadTimer) clearTimeout(reloadTimer);
+		reloadTimer = setTimeout(() => {
+			reloadTimer = null;
+			const result = reloadConfig();
+			if (result.ok && result.changed.length) {
+				console.log(
+					`[@trp/config] config recargada (${result.changed.join(", ")})`,
+				);
+			}
+		}, debounceMs);
+	});
+}
+
+export function unwatchConfig(): void {
+	if (reloadTimer) clearTimeout(reloadTimer);
+	reloadTimer = null;
+	watcher?.close();
+	watcher = null;
+}
+
 /* ----------------------------- DB: ejemplo MySQL --------------------------- */
+/** Réplica de solo lectura: lo que no defina lo hereda del primario */
+export const DbReplicaSchema = z.object({
+	host: z.string(),
+	port: z.number().optional(),
+	database: z.string().optional(),
+	user: z.string().optional(),
+	password: z.string().optional(),
+	poolLimit: z.number().optional(),
+});
+
 export const DbConfigSchema = z.object({
 	host: z.string(),
 	port: z.number().default(3306),
@@ -147,11 +688,97 @@ export const DbConfigSchema = z.object({
 	user: z.string(),
 	password: z.string(),
 	poolLimit: z.number().default(30),
+	/** Las lecturas fuera de transacciones se reparten entre las réplicas */
+	replicas: z.array(DbReplicaSchema).default([]),
+	/** Consultas a partir de esta duración se registran como lentas */
+	slowQueryMs: z.number().default(200),
+	/** Fracción (0..1) de consultas que llega a los hooks de onQuery */
+	metricsSampleRate: z.number().min(0).max(1).default(1),
 });
 export type DbConfig = z.infer<typeof DbConfigSchema>;
 
+/** Orígenes de datos adicionales (p. ej. "audit"), con la misma forma que db.mysql */
+export const DbDatasourcesSchema = z.record(DbConfigSchema);
+
+registerConfigSchema("db.mysql", DbConfigSchema);
+registerConfigSchema("db.datasources", DbDatasourcesSchema);
+
 export function getMySqlConfig(): DbConfig {
 	const cfg = loadConfig({});
 	const mysql = DbConfigSchema.parse(cfg.db?.mysql ?? {});
 	return mysql;
 }
+
+/**
+ * Todos los orígenes de datos: "default" (db.mysql) más db.datasources.*.
+ * Listo para pasarlo a configureDatasources() de @trp/db.
+ */
+export function getDatasourceConfigs(): Record<string, DbConfig> {
+	const cfg = loadConfig({});
+	return {
+		...DbDatasourcesSchema.parse(cfg.db?.datasources ?? {}),
+		default: getMySqlConfig(),
+	};
+}
+
+export const RedisConfigSchema = z.object({
+	/** Sin host, @trp/cache usa un almacén en memoria (un solo nodo, dev) */
+	host: z.string().optional(),
+	port: z.number().default(6379),
+	password: z.string().optional(),
+	db: z.number().default(0),
+});
+export type RedisConfig = z.infer<typeof RedisConfigSchema>;
+
+registerConfigSchema("redis", RedisConfigSchema);
+
+export function getRedisConfig(): RedisConfig {
+	const cfg = loadConfig({});
+	return RedisConfigSchema.parse(cfg.redis ?? {});
+}
+
+export const SchedulerConfigSchema = z.object({
+	/** Zona horaria de las expresiones cron (cada trabajo puede fijar la suya) */
+	timezone: z.string().default("UTC"),
+	/** false: este nodo registra y lista los trabajos pero no los ejecuta */
+	enabled: z.boolean().default(true),
+});
+export type SchedulerConfig = z.infer<typeof SchedulerConfigSchema>;
+
+registerConfigSchema("scheduler", SchedulerConfigSchema);
+
+export function getSchedulerConfig(): SchedulerConfig {
+	const cfg = loadConfig({});
+	return SchedulerConfigSchema.parse(cfg.scheduler ?? {});
+}
+
+export const DateConfigSchema = z.object({
+	/** Idioma por defecto de fechas y duraciones; cada jugador puede tener el suyo */
+	locale: z.enum(["es", "en"]).default("es"),
+	/** Formatos con nombre para DateWrapper.preset(), p. ej. { ticket: "DD/MM HH:mm" } */
+	presets: z.record(z.string()).default({}),
+});
+export type DateConfig = z.infer<typeof DateConfigSchema>;
+
+registerConfigSchema("date", DateConfigSchema);
+
+export function getDateConfig(): DateConfig {
+	const cfg = loadConfig({});
+	return DateConfigSchema.parse(cfg.date ?? {});
+}
+
+export const NuiConfigSchema = z.object({
+	/**
+	 * Variables de tema de los componentes NUI (--trp-<token>), p. ej.
+	 * { primary: "#e11d48", radius: "2px" }; las que falten usan el tema base
+	 */
+	theme: z.record(z.string()).default({}),
+});
+export type NuiConfig = z.infer<typeof NuiConfigSchema>;
+
+registerConfigSchema("nui", NuiConfigSchema);
+
+export function getNuiConfig(): NuiConfig {
+	const cfg = loadConfig({});
+	return NuiConfigSchema.parse(cfg.nui ?? {});
+}
@@ -0,0 +1,182 @@
+// Overrides por despliegue: variables de entorno (TRP__*) y convars de FiveM
+import { ConfigError } from "./formats";
+
+/* ---------------------------------- Tipos --------------------------------- */
+type Tree = Record<string, unknown>;
+
+export interface OverrideLayer {
+	data: Tree;
+	/** ruta de hoja ("db.mysql.host") → variable o convar que la fija */
+	sources: Map<string, string>;
+}
+
+/** Prefijo de las variables de entorno. Los segmentos se separan con "__". */
+export const ENV_PREFIX = "TRP__";
+/** Prefijo de las convars: `set "trp:db.mysql.host" "10.0.0.5"` */
+export const CONVAR_PREFIX = "trp:";
+
+/* ------------------------------- Utilidades -------------------------------- */
+function isObject(x: unknown): x is Tree {
+	return !!x && typeof x === "object" && !Array.isArray(x);
+}
+
+/** "trp-core", "TRP_CORE", "maxCharactersPerPlayer" y "MAXCHARACTERSPERPLAYER" → misma clave */
+function normalizeKey(key: string): string {
+	return key.toLowerCase().replace(/[-_]/g, "");
+}
+
+/**
+ * Convierte el texto al tipo del valor que sustituye. Si no hay valor previo se
+ * infiere: true/false, números y JSON ([...] / {...}); el resto queda string.
+ */
+export function coerceValue(
+	raw: string,
+	current: unknown,
+	origin: string,
+): unknown {
+	const fail = (expected: string) =>
+		new ConfigError(`${origin}: "${raw}" no es un ${expected} válido`);
+
+	if (typeof current === "number") {
+		const n = Number(raw);
+		if (raw.trim() === "" || Number.isNaN(n)) throw fail("número");
+		return n;
+	}
+	if (typeof current === "boolean") {
+		const v = raw.trim().toLowerCase();
+		if (["true", "1", "yes", "on"].includes(v)) return true;
+		if (["false", "0", "no", "off"].includes(v)) return false;
+		throw fail("booleano");
+	}
+	if (Array.isArray(current) || isObject(current)) {
+		try {
+			return JSON.parse(raw);
+		} catch {
+			throw fail("JSON");
+		}
+	}
+	if (typeof current === "string") return raw;
+
+	const v = raw.trim();
+	if (v === "true" || v === "false") return v === "true";
+	if (/^-?\d+(\.\d+)?$/.test(v)) return Number(v);
+	if (/^[[{]/.test(v)) {
+		try {
+			return JSON.parse(v);
+		} catch {
+			/* no era JSON: se queda como string */
+		}
+	}
+	return raw;
+}
+
+/**
+ * Resuelve los segmentos del nombre contra las claves que ya existen en la
+ * config (sin distinguir mayúsculas, "-" ni "_"). Los segmentos sin clave
+ * existente se crean en minúsculas.
+ */
+function resolvePath(base: Tree, segments: string[]): string[] {
+	const out: string[] = [];
+	let cur: unknown = base;
+	for (const seg of segments) {
+		const match = isObject(cur)
+			? Object.keys(cur).find((k) => normalizeKey(k) === normalizeKey(seg))
+			: undefined;
+		const key = match ?? seg.toLowerCase();
+		out.push(key);
+		cur = isObject(cur) ? cur[key] : undefined;
+	}
+	return out;
+}
+
+export function getAtPath(obj: unknown, path: string[]): unknown {
+	let cur = obj;
+	for (const key of path) {
+		if (!isObject(cur)) return undefined;
+		cur = cur[key];
+	}
+	return cur;
+}
+
+function setAtPath(obj: Tree, path: string[], value: unknown): void {
+	let cur = obj;
+	for (const key of path.slice(0, -1)) {
+		if (!isObject(cur[key])) cur[key] = {};
+		cur = cur[key] as Tree;
+	}
+	cur[path[path.length - 1]] = value;
+}
+
+/** Rutas de todas las hojas (valores no-objeto) del árbol. */
+export function leafPaths(obj: unknown, prefix: string[] = []): string[][] {
+	if (!isObject(obj)) return prefix.length ? [prefix] : [];
+	const keys = Object.keys(obj);
+	if (keys.length === 0) return prefix.length ? [prefix] : [];
+	return keys.flatMap((k) => leafPaths(obj[k], [...prefix, k]));
+}
+
+/* ---------------------------------- Capas ---------------------------------- */
+/**
+ * Capa de variables de entorno.
+ *
+ *   TRP__DB__MYSQL__HOST=10.0.0.5                                → db.mysql.host
+ *   TRP__MODULES__TRP_CORE__LIMITS__MAXCHARACTERSPERPLAYER=4     → modules["trp-core"].limits.maxCharactersPerPlayer
+ *
+ * `base` es la config ya mezclada: de ahí salen el casing real de las claves
+ * y el tipo al que se convierte cada valor.
+ */
+export function envLayer(base: Tree, env: NodeJS.ProcessEnv): OverrideLayer {
+	const out: Tree = {};
+	const sources = new Map<string, string>();
+	const names = Object.keys(env)
+		.filter(
+			(n) => n.toUpperCase().startsWith(ENV_PREFIX) && env[n] !== undefined,
+		)
+		.sort();
+	for (const name of names) {
+		const segments = name.slice(ENV_PREFIX.length).split("__").filter(Boolean);
+		if (segments.length === 0) continue;
+		const path = resolvePath(base, segments);
+		setAtPath(
+			out,
+			path,
+			coerceValue(env[name] as string, getAtPath(base, path), name),
+		);
+		sources.set(path.join("."), name);
+	}
+	return { data: out, sources };
+}
+
+type ConvarReader = (name: string, fallback: string) => string;
+
+function defaultConvarReader(): ConvarReader | undefined {
+	return typeof GetConvar === "function" ? GetConvar : undefined;
+}
+
+/**
+ * Capa de convars del servidor FiveM (solo existe dentro de FXServer).
+ * Como las convars no se pueden listar, se consulta `trp:<ruta>` para cada
+ * hoja conocida de la config: solo sobrescriben claves que ya existen en
+ * alguna capa inferior.
+ *
+ *   set "trp:db.mysql.host" "10.0.0.5"
+ *   set "trp:modules.trp-core.limits.maxCharactersPerPlayer" "4"
+ */
+export function convarLayer(
+	base: Tree,
+	read: ConvarReader | undefined = defaultConvarReader(),
+): OverrideLayer {
+	const out: Tree = {};
+	const sources = new Map<string, string>();
+	if (!read) return { data: out, sources };
+	// Centinela: GetConvar devuelve el fallback cuando la convar no existe
+	const unset = "__trp_unset__";
+	for (const path of leafPaths(base)) {
+		const name = CONVAR_PREFIX + path.join(".");
+		const raw = read(name, unset);
+		if (raw === unset) continue;
+		setAtPath(out, path, coerceValue(raw, getAtPath(base, path), name));
+		sources.set(path.join("."), name);
+	}
+	return { data: out, sources };
+}
@@ -0,0 +1,168 @@
+// Registro de schemas: cada módulo declara la forma de su sección de config
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+
+/* ---------------------------------- Tipos --------------------------------- */
+export interface ConfigIssue {
+	/** Ruta completa: "modules.trp-core.limits.maxCharactersPerPlayer" */
+	path: string;
+	message: string;
+}
+
+export interface SectionReport {
+	/** Destino registrado: "db.mysql", "modules.trp-core"... */
+	target: string;
+	errors: ConfigIssue[];
+	/** Claves presentes en la config que el schema no declara */
+	unknownKeys: string[];
+	/** Valor ya validado, con los defaults del schema aplicados */
+	resolved?: unknown;
+}
+
+export interface ConfigReport {
+	ok: boolean;
+	sections: SectionReport[];
+	/** Claves bajo `modules` sin schema registrado (p. ej. un nombre mal escrito) */
+	unknownModules: string[];
+}
+
+/* ------------------------------- Utilidades -------------------------------- */
+function isObject(x: unknown): x is Record<string, unknown> {
+	return !!x && typeof x === "object" && !Array.isArray(x);
+}
+
+function getAtPath(obj: unknown, path: string[]): unknown {
+	let cur = obj;
+	for (const key of path) {
+		if (!isObject(cur)) return undefined;
+		cur = cur[key];
+	}
+	return cur;
+}
+
+/** Quita envoltorios (optional, default, effects...) hasta el tipo "real". */
+function unwrap(schema: z.ZodTypeAny): z.ZodTypeAny {
+	let cur = schema;
+	for (;;) {
+		if (
+			cur instanceof z.ZodOptional ||
+			cur instanceof z.ZodNullable ||
+			cur instanceof z.ZodDefault
+		) {
+			cur = cur._def.innerType;
+		} else if (cur instanceof z.ZodEffects) {
+			cur = cur._def.schema;
+		} else if (cur instanceof z.ZodLazy) {
+			cur = cur._def.getter();
+		} else {
+			return cur;
+		}
+	}
+}
+
+/** Claves de `data` que el schema no conoce (z.object descarta en silencio). */
+function findUnknownKeys(
+	schema: z.ZodTypeAny,
+	data: unknown,
+	prefix: string,
+): string[] {
+	const s = unwrap(schema);
+	if (s instanceof z.ZodObject && isObject(data)) {
+		const shape = s.shape as Record<string, z.ZodTypeAny>;
+		const passthrough =
+			s._def.unknownKeys === "passthrough" ||
+			!(s._def.catchall instanceof z.ZodNever);
+		return Object.entries(data).flatMap(([key, value]) => {
+			const child = `${prefix}.${key}`;
+			if (!(key in shape)) return passthrough ? [] : [child];
+			return findUnknownKeys(shape[key], value, child);
+		});
+	}
+	if (s instanceof z.ZodRecord && isObject(data)) {
+		return Object.entries(data).flatMap(([key, value]) =>
+			findUnknownKeys(s._def.valueType, value, `${prefix}.${key}`),
+		);
+	}
+	if (s instanceof z.ZodArray && Array.isArray(data)) {
+		return data.flatMap((value, i) =>
+			findUnknownKeys(s._def.type, value, `${prefix}.${i}`),
+		);
+	}
+	return [];
+}
+
+/* -------------------------------- Registro --------------------------------- */
+const registry = new Map<string, z.ZodTypeAny>();
+
+/**
+ * Registra el schema de una sección de la config.
+ * `target` es la ruta con puntos dentro de TRPConfig.
+ *
+ * @example
+ *   registerConfigSchema("modules.trp-core", CoreConfigSchema);
+ *   registerConfigSchema("db.mysql", DbConfigSchema);
+ */
+export function registerConfigSchema(
+	target: string,
+	schema: z.ZodTypeAny,
+): void {
+	const prev = registry.get(target);
+	if (prev && prev !== schema) {
+		console.warn(`[@trp/config] schema de "${target}" registrado dos veces`);
+	}
+	registry.set(target, schema);
+}
+
+export function registeredSchemas(): ReadonlyMap<string, z.ZodTypeAny> {
+	return registry;
+}
+
+/**
+ * Valida toda la config contra los schemas registrados: errores, claves
+ * desconocidas (dentro de cada sección y módulos sin schema) y valores
+ * resueltos con defaults.
+ */
+export function checkConfig(config: unknown): ConfigReport {
+	const sections = [...registry.entries()]
+		.sort(([a], [b]) => a.localeCompare(b))
+		.map(([target, schema]): SectionReport => {
+			const raw = getAtPath(config, target.split("."));
+			const parsed = schema.safeParse(raw ?? {});
+			return {
+				target,
+				errors: parsed.success
+					? []
+					: parsed.error.issues.map((issue) => ({
+							path: [target, ...issue.path].join("."),
+							message: issue.message,
+						})),
+				unknownKeys: findUnknownKeys(schema, raw, target),
+				resolved: parsed.success ? parsed.data : undefined,
+			};
+		});
+
+	const modules = getAtPath(config, ["modules"]);
+	const unknownModules = isObject(modules)
+		? Object.keys(modules)
+				.filter((name) => !registry.has(`modules.${name}`))
+				.map((name) => `modules.${name}`)
+		: [];
+
+	return {
+		ok: sections.every((s) => s.errors.length === 0),
+		sections,
+		unknownModules,
+	};
+}
+
+/** JSON Schema de una sección registrada (para autocompletado en editores). */
+export function configJsonSchema(target: string): Record<string, unknown> {
+	const schema = registry.get(target);
+	if (!schema) throw new Error(`no hay schema registrado para "${target}"`);
+	// El tipado de zodToJsonSchema es demasiado profundo para un ZodTypeAny genérico
+	const toJsonSchema = zodToJsonSchema as (
+		schema: unknown,
+		opts: { $refStrategy: "none" },
+	) => Record<string, unknown>;
+	return { title: target, ...toJsonSchema(schema, { $refStrategy: "none" }) };
+}
@@ -0,0 +1,237 @@
+// Secretos: referencias ${env:X} / ${file:/ruta} y archivos cifrados (AES-256-GCM)
+import fs from "node:fs";
+import path from "node:path";
+import crypto from "node:crypto";
+import { ConfigError, formatFor } from "./formats";
+
+/* ---------------------------------- Tipos --------------------------------- */
+type Tree = Record<string, unknown>;
+
+/** Variable de entorno con la clave (o frase) para descifrar secrets.enc.* */
+export const SECRETS_KEY_ENV = "TRP_SECRETS_KEY";
+/** Valor que sustituye a los secretos en volcados y explainConfig */
+export const REDACTED = "[redacted]";
+
+/**
+ * Sobre de un archivo cifrado. Se guarda como JSON (secrets.enc.json) y se
+ * puede versionar: sin la clave no revela nada.
+ */
+export interface SecretsEnvelope {
+	trpSecrets: 1;
+	alg: "aes-256-gcm";
+	kdf: "scrypt";
+	/** base64 */
+	salt: string;
+	iv: string;
+	tag: string;
+	data: string;
+	/** Formato del texto plano ("jsonc", "yaml"...) */
+	format: string;
+}
+
+/* ------------------------------- Referencias ------------------------------- */
+const REF = /\$\{(env|file):([^}]+)\}/g;
+
+function isObject(x: unknown): x is Tree {
+	return !!x && typeof x === "object" && !Array.isArray(x);
+}
+
+function resolveRef(
+	kind: string,
+	arg: string,
+	baseDir: string,
+	origin: string,
+	env: NodeJS.ProcessEnv,
+): string {
+	if (kind === "env") {
+		const v = env[arg];
+		if (v === undefined) {
+			throw new ConfigError(`\${env:${arg}}: la variable no existe`, origin);
+		}
+		return v;
+	}
+	const file = path.resolve(baseDir, arg);
+	try {
+		// Los secretos montados (docker/k8s) suelen acabar en salto de línea
+		return fs.readFileSync(file, "utf8").replace(/\r?\n$/, "");
+	} catch (e) {
+		throw new ConfigError(
+			`\${file:${arg}}: no se pudo leer (${(e as Error).message})`,
+			origin,
+		);
+	}
+}
+
+/**
+ * Sustituye las referencias dentro de los strings del árbol. Devuelve una
+ * copia y las rutas resueltas, que se tratan como secretas.
+ *
+ *   "password": "${env:MYSQL_PASSWORD}"
+ *   "password": "${file:/run/secrets/db}"      (relativa = a la carpeta de config)
+ *
+ * `env` es el de LoadOptions (por defecto process.env), el mismo que usan los
+ * overrides TRP__*.
+ */
+export function resolveSecretRefs(
+	data: Tree,
+	baseDir: string,
+	origin: string,
+	env: NodeJS.ProcessEnv = process.env,
+): { data: Tree; secretPaths: string[] } {
+	const secretPaths: string[] = [];
+	const walk = (value: unknown, at: string[]): unknown => {
+		if (typeof value === "string") {
+			if (!value.includes("${")) return value;
+			const out = value.replace(REF, (_m, kind: string, arg: string) =>
+				resolveRef(kind, arg.trim(), baseDir, origin, env),
+			);
+			if (out !== value) secretPaths.push(at.join("."));
+			return out;
+		}
+		if (Array.isArray(value))
+			return value.map((v, i) => walk(v, [...at, `${i}`]));
+		if (isObject(value)) {
+			return Object.fromEntries(
+				Object.entries(value).map(([k, v]) => [k, walk(v, [...at, k])]),
+			);
+		}
+		return value;
+	};
+	return { data: walk(data, []) as Tree, secretPaths };
+}
+
+/* --------------------------------- Cifrado --------------------------------- */
+function deriveKey(secret: string, salt: Buffer): Buffer {
+	return crypto.scryptSync(secret, salt, 32);
+}
+
+/** Genera una clave aleatoria apta para TRP_SECRETS_KEY. */
+export function generateSecretsKey(): string {
+	return crypto.randomBytes(32).toString("base64");
+}
+
+export function encryptSecrets(
+	plaintext: string,
+	key: string,
+	format = "jsonc",
+): SecretsEnvelope {
+	const salt = crypto.randomBytes(16);
+	const iv = crypto.randomBytes(12);
+	const cipher = crypto.createCipheriv("aes-256-gcm", deriveKey(key, salt), iv);
+	const data = Buffer.concat([
+		cipher.update(plaintext, "utf8"),
+		cipher.final(),
+	]);
+	return {
+		trpSecrets: 1,
+		alg: "aes-256-gcm",
+		kdf: "scrypt",
+		salt: salt.toString("base64"),
+		iv: iv.toString("base64"),
+		tag: cipher.getAuthTag().toString("base64"),
+		data: data.toString("base64"),
+		format,
+	};
+}
+
+export function isSecretsEnvelope(x: unknown): x is SecretsEnvelope {
+	return isObject(x) && x.trpSecrets === 1 && x.alg === "aes-256-gcm";
+}
+
+export function decryptSecrets(envelope: SecretsEnvelope, key: string): string {
+	const decipher = crypto.createDecipheriv(
+		"aes-256-gcm",
+		deriveKey(key, Buffer.from(envelope.salt, "base64")),
+		Buffer.from(envelope.iv, "base64"),
+	);
+	decipher.setAuthTag(Buffer.from(envelope.tag, "base64"));
+	try {
+		return Buffer.concat([
+			decipher.update(Buffer.from(envelope.data, "base64")),
+			decipher.final(),
+		]).toString("utf8");
+	} catch {
+		throw new ConfigError(
+			"no se pudo descifrar: clave incorrecta o archivo alterado",
+		);
+	}
+}
+
+/**
+ * Descifra y parsea un sobre leído de `file`. La clave sale de
+ * TRP_SECRETS_KEY salvo que se pase explícitamente.
+ */
+export function openSecretsFile(
+	envelope: unknown,
+	file: string,
+	key = process.env[SECRETS_KEY_ENV],
+): Tree {
+	if (!isSecretsEnvelope(envelope)) {
+		throw new ConfigError("no es un archivo de secretos cifrado válido", file);
+	}
+	if (!key) {
+		throw new ConfigError(`falta ${SECRETS_KEY_ENV} para descifrarlo`, file);
+	}
+	const format = formatFor(`x.${envelope.format}`);
+	if (!format) {
+		throw new ConfigError(
+			`formato interno no soportado: ${envelope.format}`,
+			file,
+		);
+	}
+	let plaintext: string;
+	try {
+		plaintext = decryptSecrets(envelope, key);
+	} catch (e) {
+		throw new ConfigError((e as Error).message, file);
+	}
+	const data = plaintext.trim()
+		? format.parse(plaintext, `${file} (descifrado)`)
+		: {};
+	if (!isObject(data)) {
+		throw new ConfigError("la raíz de los secretos debe ser un objeto", file);
+	}
+	return data;
+}
+
+/* -------------------------------- Redacción -------------------------------- */
+/** Claves secretas por su nombre, aunque lleguen sin referencia (TRP__*, convars). */
+const SECRET_KEYS = new Set(["password"]);
+
+/** true si `key` es una clave secreta o `value` contiene alguna (arrays incluidos). */
+export function hasSecretKey(key: string, value: unknown): boolean {
+	if (SECRET_KEYS.has(key)) return true;
+	if (Array.isArray(value)) return value.some((v) => hasSecretKey("", v));
+	if (isObject(value)) {
+		return Object.entries(value).some(([k, v]) => hasSecretKey(k, v));
+	}
+	return false;
+}
+
+/**
+ * Copia de `value` (que vive en `rootPath`) con los secretos sustituidos por
+ * REDACTED. `isSecret` recibe la ruta completa de cada hoja.
+ */
+export function redactTree(
+	value: unknown,
+	rootPath: string,
+	isSecret: (path: string) => boolean,
+): unknown {
+	if (rootPath && isSecret(rootPath)) return REDACTED;
+	if (Array.isArray(value)) {
+		return value.map((v, i) => redactTree(v, join(rootPath, `${i}`), isSecret));
+	}
+	if (isObject(value)) {
+		return Object.fromEntries(
+			Object.entries(value).map(([k, v]) => [
+				k,
+				redactTree(v, join(rootPath, k), isSecret),
+			]),
+		);
+	}
+	return value;
+}
+
+function join(a: string, b: string): string {
+	return a ? `${a}.${b}` : b;
+}
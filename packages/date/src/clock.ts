@@ -0,0 +1,243 @@
+import { DateWrapper, type DateInput } from "./index";
+
+/**
+ * In-game clock: game time advances `scale` times faster than real time
+ * (scale 60 = 1 real minute is 1 game hour) and can be set, paused or
+ * re-scaled at any moment. The server owns the authoritative clock and sends
+ * its snapshot to clients, which run a local copy with sync().
+ *
+ * Time is kept as epoch ms anchored to a real instant:
+ *   game(real) = gameTime + (real - realTime) * scale      (paused: gameTime)
+ *
+ * @example
+ *   const clock = new GameClock({ scale: GameClock.scaleOf(60_000, 3_600_000) });
+ *   clock.onGameHour((hour) => console.log("game hour", hour));
+ *   clock.start();
+ *   clock.now().format("HH:mm");
+ */
+
+/** What survives a restart: the game date, speed and whether it is frozen. */
+export interface ClockSnapshot {
+	/** Game time, epoch ms */
+	gameTime: number;
+	/** Game ms per real ms */
+	scale: number;
+	paused: boolean;
+}
+
+export interface GameClockState extends ClockSnapshot {
+	/** Real epoch ms at which `gameTime` was the game time */
+	realTime: number;
+}
+
+/** Persistence for the clock (e.g. a DB row); see GameClock.restore(). */
+export interface ClockStore {
+	load(): Promise<ClockSnapshot | undefined>;
+	save(snapshot: ClockSnapshot): Promise<void>;
+}
+
+export interface GameClockOptions extends Partial<ClockSnapshot> {
+	/** Time zone of the in-game calendar (hours/days). Default "UTC". */
+	tz?: string;
+	/** Real-time source, for tests. Default Date.now. */
+	realNow?: () => number;
+}
+
+type ChangeListener = (state: GameClockState) => void;
+type HourListener = (hour: number, now: DateWrapper) => void;
+type DayListener = (now: DateWrapper) => void;
+
+function toMs(input: DateInput | DateWrapper): number {
+	return (input instanceof DateWrapper ? input : new DateWrapper(input))
+		.toDate()
+		.getTime();
+}
+
+export class GameClock {
+	readonly tz: string;
+	private readonly realNow: () => number;
+	private state: GameClockState;
+	private readonly changeListeners = new Set<ChangeListener>();
+	private readonly hourListeners = new Set<HourListener>();
+	private readonly dayListeners = new Set<DayListener>();
+	private timer?: ReturnType<typeof setInterval>;
+	private lastHour?: string;
+	private lastDay?: string;
+
+	constructor(opts: GameClockOptions = {}) {
+		this.tz = opts.tz ?? "UTC";
+		this.realNow = opts.realNow ?? Date.now;
+		const scale = opts.scale ?? 1;
+		GameClock.assertScale(scale);
+		this.state = {
+			realTime: this.realNow(),
+			gameTime: opts.gameTime ?? this.realNow(),
+			scale,
+			paused: opts.paused ?? false,
+		};
+	}
+
+	/** Scale for "`realMs` of real time is `gameMs` of game time". */
+	static scaleOf(realMs: number, gameMs: number): number {
+		return gameMs / realMs;
+	}
+
+	private static assertScale(scale: number): void {
+		if (!(scale > 0) || !Number.isFinite(scale)) {
+			throw new RangeError(`GameClock: invalid scale ${scale} (use pause())`);
+		}
+	}
+
+	/* ------------------------------ Reading -------------------------------- */
+
+	/** Game time (epoch ms) at a real instant (default: now). */
+	gameMs(realMs = this.realNow()): number {
+		const { gameTime, realTime, scale, paused } = this.state;
+		return paused ? gameTime : gameTime + (realMs - realTime) * scale;
+	}
+
+	/** Current in-game date. */
+	now(): DateWrapper {
+		return this.toGame(this.realNow());
+	}
+
+	/** In-game date at a real instant. */
+	toGame(real: DateInput | DateWrapper): DateWrapper {
+		return DateWrapper.from(this.gameMs(toMs(real)), undefined, this.tz);
+	}
+
+	/**
+	 * Real instant at which the game reaches `game` (may be in the past).
+	 * Undefined while paused: the game would never get there.
+	 */
+	toReal(game: DateInput | DateWrapper): DateWrapper | undefined {
+		const { gameTime, realTime, scale, paused } = this.state;
+		if (paused) return undefined;
+		return DateWrapper.from(realTime + (toMs(game) - gameTime) / scale);
+	}
+
+	get scale(): number {
+		return this.state.scale;
+	}
+
+	get paused(): boolean {
+		return this.state.paused;
+	}
+
+	/** Full state, anchored at the current real time (to send to clients). */
+	getState(): GameClockState {
+		const realTime = this.realNow();
+		return { ...this.state, realTime, gameTime: this.gameMs(realTime) };
+	}
+
+	snapshot(): ClockSnapshot {
+		const { gameTime, scale, paused } = this.getState();
+		return { gameTime, scale, paused };
+	}
+
+	/* ------------------------------ Changing ------------------------------- */
+
+	/** Re-anchors at now and applies `patch`; every mutation goes through here. */
+	private update(patch: Partial<ClockSnapshot>): void {
+		this.state = { ...this.getState(), ...patch };
+		const state = { ...this.state };
+		for (const listener of this.changeListeners) listener(state);
+	}
+
+	/** Jumps the game to a date (server-authoritative offset). */
+	set(game: DateInput | DateWrapper): void {
+		this.update({ gameTime: toMs(game) });
+	}
+
+	/** Moves the game forward (or back, with a negative value). */
+	advance(gameMs: number): void {
+		this.update({ gameTime: this.gameMs() + gameMs });
+	}
+
+	setScale(scale: number): void {
+		GameClock.assertScale(scale);
+		this.update({ scale });
+	}
+
+	/** Freezes the game time. */
+	pause(): void {
+		if (!this.state.paused) this.update({ paused: true });
+	}
+
+	resume(): void {
+		if (this.state.paused) this.update({ paused: false });
+	}
+
+	/**
+	 * Adopts a snapshot received from the server (or loaded from a store),
+	 * anchored at the local real time.
+	 */
+	sync(snapshot: ClockSnapshot): void {
+		GameClock.assertScale(snapshot.scale);
+		this.update({ ...snapshot });
+	}
+
+	/** Loads the saved snapshot (if any) and saves on every later change. */
+	async restore(store: ClockStore): Promise<() => void> {
+		const saved = await store.load();
+		if (saved) this.sync(saved);
+		return this.onChange(() => {
+			store.save(this.snapshot()).catch((err) => {
+				console.error("[@trp/date] GameClock: save failed:", err);
+			});
+		});
+	}
+
+	/* ------------------------------- Events -------------------------------- */
+
+	/** After set/advance/setScale/pause/resume/sync. Returns an unsubscribe. */
+	onChange(listener: ChangeListener): () => void {
+		this.changeListeners.add(listener);
+		return () => this.changeListeners.delete(listener);
+	}
+
+	/**
+	 * When the in-game hour changes (checked every tick: with very high scales
+	 * several hours may pass between ticks and only the last one fires).
+	 */
+	onGameHour(listener: HourListener): () => void {
+		this.hourListeners.add(listener);
+		return () => this.hourListeners.delete(listener);
+	}
+
+	/** When the in-game day changes (same caveat as onGameHour). */
+	onGameDay(listener: DayListener): () => void {
+		this.dayListeners.add(listener);
+		return () => this.dayListeners.delete(listener);
+	}
+
+	/** Checks hour/day boundaries; start() calls it periodically. */
+	tick(): void {
+		const now = this.now();
+		const day = now.format("YYYY-MM-DD");
+		const hour = now.format("YYYY-MM-DD HH");
+		const first = this.lastHour === undefined;
+		const hourChanged = hour !== this.lastHour;
+		const dayChanged = day !== this.lastDay;
+		this.lastHour = hour;
+		this.lastDay = day;
+		// The first tick only records where we are
+		if (first) return;
+		if (dayChanged) for (const listener of this.dayListeners) listener(now);
+		if (hourChanged) {
+			for (const listener of this.hourListeners) listener(now.get("hour"), now);
+		}
+	}
+
+	/** Starts ticking every `intervalMs` real ms (default 1000). */
+	start(intervalMs = 1000): void {
+		this.stop();
+		this.tick();
+		this.timer = setInterval(() => this.tick(), intervalMs);
+	}
+
+	stop(): void {
+		if (this.timer) clearInterval(this.timer);
+		this.timer = undefined;
+	}
+}
@@ -0,0 +1,243 @@
+import dayjs from "dayjs";
+import { DateWrapper, type DateInput } from "./index";
+
+/**
+ * Standard 5-field cron expressions (minute hour day-of-month month
+ * day-of-week) evaluated in a time zone.
+ *
+ * Fields accept `*`, lists (`1,15`), ranges (`1-5`), steps (`*\/15`, `8-18/2`)
+ * and month/day names (`jan`, `mon-fri`); day-of-week 0 and 7 are Sunday.
+ * Macros: @yearly, @monthly, @weekly, @daily (@midnight), @hourly.
+ * As in Vixie cron, when both day fields are restricted a day matching either
+ * one matches.
+ *
+ * DST: a time skipped by a spring-forward transition runs at the first valid
+ * minute after it; a time repeated by fall-back runs once.
+ *
+ * @example
+ *   CronExpression.parse("0 20 * * fri").next(undefined, "Europe/Madrid");
+ *   CronExpression.parse("@daily").nextRuns(3);
+ */
+
+const MACROS: Record<string, string> = {
+	"@yearly": "0 0 1 1 *",
+	"@annually": "0 0 1 1 *",
+	"@monthly": "0 0 1 * *",
+	"@weekly": "0 0 * * 0",
+	"@daily": "0 0 * * *",
+	"@midnight": "0 0 * * *",
+	"@hourly": "0 * * * *",
+};
+
+const MONTH_NAMES = "jan feb mar apr may jun jul aug sep oct nov dec".split(
+	" ",
+);
+const DAY_NAMES = "sun mon tue wed thu fri sat".split(" ");
+
+interface FieldSpec {
+	name: string;
+	min: number;
+	max: number;
+	names?: string[];
+	/** Offset of names[0] (months start at 1) */
+	namesFrom?: number;
+}
+
+const FIELDS: FieldSpec[] = [
+	{ name: "minute", min: 0, max: 59 },
+	{ name: "hour", min: 0, max: 23 },
+	{ name: "day-of-month", min: 1, max: 31 },
+	{ name: "month", min: 1, max: 12, names: MONTH_NAMES, namesFrom: 1 },
+	{ name: "day-of-week", min: 0, max: 7, names: DAY_NAMES, namesFrom: 0 },
+];
+
+/** Searching further than this without a match means the expression never fires (e.g. 30 feb). */
+const MAX_SEARCH_YEARS = 8;
+
+function parseValue(text: string, spec: FieldSpec, expr: string): number {
+	const index = spec.names?.indexOf(text.toLowerCase()) ?? -1;
+	const value = index >= 0 ? index + (spec.namesFrom ?? 0) : Number(text);
+	if (!Number.isInteger(value) || value < spec.min || value > spec.max) {
+		throw new RangeError(
+			`CronExpression: invalid ${spec.name} "${text}" in "${expr}"`,
+		);
+	}
+	return value;
+}
+
+function parseField(text: string, spec: FieldSpec, expr: string): Set<number> {
+	const values = new Set<number>();
+	for (const item of text.split(",")) {
+		const [range, stepText] = item.split("/");
+		const step = stepText === undefined ? 1 : Number(stepText);
+		if (!Number.isInteger(step) || step < 1) {
+			throw new RangeError(
+				`CronExpression: invalid step "${item}" in "${expr}"`,
+			);
+		}
+		let from: number;
+		let to: number;
+		if (range === "*") {
+			from = spec.min;
+			to = spec.max;
+		} else if (range.includes("-")) {
+			const [a, b] = range.split("-");
+			from = parseValue(a, spec, expr);
+			to = parseValue(b, spec, expr);
+		} else {
+			from = parseValue(range, spec, expr);
+			// "5/15" = from 5 to the end, every 15
+			to = stepText === undefined ? from : spec.max;
+		}
+		if (from > to) {
+			throw new RangeError(
+				`CronExpression: empty range "${item}" in "${expr}"`,
+			);
+		}
+		for (let v = from; v <= to; v += step) values.add(v);
+	}
+	return values;
+}
+
+/** UTC Date used as a plain wall-clock calendar (no zone, no DST). */
+function wallOf(instant: number, tz: string): Date {
+	const local = dayjs(instant).tz(tz);
+	return new Date(
+		Date.UTC(
+			local.year(),
+			local.month(),
+			local.date(),
+			local.hour(),
+			local.minute(),
+		),
+	);
+}
+
+/**
+ * Instant of a wall-clock minute in `tz`. A wall time inside a spring-forward
+ * gap does not exist: dayjs.tz would shift it by the whole gap (02:30 → 03:30),
+ * so it is clamped to the end of the gap, the first valid minute after it.
+ */
+function instantOf(wall: Date, tz: string): number {
+	const local = wall.toISOString().slice(0, 16).replace("T", " ");
+	let instant = dayjs.tz(local, "YYYY-MM-DD HH:mm", tz).valueOf();
+	if (wallOf(instant, tz).getTime() === wall.getTime()) return instant;
+	// Back minute by minute while the wall clock is still past `wall`
+	while (wallOf(instant - 60_000, tz).getTime() > wall.getTime()) {
+		instant -= 60_000;
+	}
+	return instant;
+}
+
+export class CronExpression {
+	private readonly minutes: Set<number>;
+	private readonly hours: Set<number>;
+	private readonly days: Set<number>;
+	private readonly months: Set<number>;
+	private readonly weekdays: Set<number>;
+	private readonly anyDay: boolean;
+	private readonly anyWeekday: boolean;
+
+	private constructor(readonly source: string) {
+		const expr = MACROS[source.trim().toLowerCase()] ?? source.trim();
+		const fields = expr.split(/\s+/);
+		if (fields.length !== 5) {
+			throw new RangeError(
+				`CronExpression: expected 5 fields in "${source}", got ${fields.length}`,
+			);
+		}
+		const [m, h, dom, mon, dow] = fields.map((f, i) =>
+			parseField(f, FIELDS[i], source),
+		);
+		this.minutes = m;
+		this.hours = h;
+		this.days = dom;
+		this.months = mon;
+		if (dow.delete(7)) dow.add(0);
+		this.weekdays = dow;
+		this.anyDay = fields[2] === "*";
+		this.anyWeekday = fields[4] === "*";
+	}
+
+	static parse(expr: string): CronExpression {
+		return new CronExpression(expr);
+	}
+
+	/** True if `expr` parses. */
+	static isValid(expr: string): boolean {
+		try {
+			CronExpression.parse(expr);
+			return true;
+		} catch {
+			return false;
+		}
+	}
+
+	private dayMatches(wall: Date): boolean {
+		const dom = this.days.has(wall.getUTCDate());
+		const dow = this.weekdays.has(wall.getUTCDay());
+		if (this.anyDay) return dow;
+		if (this.anyWeekday) return dom;
+		return dom || dow;
+	}
+
+	/** Next wall-clock minute strictly after `wall` that matches, or undefined. */
+	private nextWall(wall: Date): Date | undefined {
+		const d = new Date(wall.getTime() + 60_000);
+		const limit = d.getUTCFullYear() + MAX_SEARCH_YEARS;
+		while (d.getUTCFullYear() <= limit) {
+			if (!this.months.has(d.getUTCMonth() + 1)) {
+				d.setUTCMonth(d.getUTCMonth() + 1, 1);
+				d.setUTCHours(0, 0, 0, 0);
+			} else if (!this.dayMatches(d)) {
+				d.setUTCDate(d.getUTCDate() + 1);
+				d.setUTCHours(0, 0, 0, 0);
+			} else if (!this.hours.has(d.getUTCHours())) {
+				d.setUTCHours(d.getUTCHours() + 1, 0, 0, 0);
+			} else if (!this.minutes.has(d.getUTCMinutes())) {
+				d.setUTCMinutes(d.getUTCMinutes() + 1, 0, 0);
+			} else {
+				return d;
+			}
+		}
+		return undefined;
+	}
+
+	/**
+	 * First run strictly after `after` (default: now) in time zone `tz`
+	 * (default "UTC"), or undefined if the expression can never match.
+	 */
+	next(after?: DateInput | DateWrapper, tz = "UTC"): DateWrapper | undefined {
+		const from = (after instanceof DateWrapper ? after : new DateWrapper(after))
+			.toDate()
+			.getTime();
+		let wall: Date | undefined = wallOf(from, tz);
+		while ((wall = this.nextWall(wall))) {
+			const instant = instantOf(wall, tz);
+			// Fall-back repeats wall times: an instant not after `from` already ran
+			if (instant > from) return DateWrapper.from(instant, undefined, tz);
+		}
+		return undefined;
+	}
+
+	/** The next `count` runs after `after`, in order. */
+	nextRuns(
+		count: number,
+		after?: DateInput | DateWrapper,
+		tz = "UTC",
+	): DateWrapper[] {
+		const runs: DateWrapper[] = [];
+		let cursor: DateInput | DateWrapper = after;
+		while (runs.length < count) {
+			const next = this.next(cursor, tz);
+			if (!next) break;
+			runs.push(next);
+			cursor = next;
+		}
+		return runs;
+	}
+
+	toString(): string {
+		return this.source;
+	}
+}
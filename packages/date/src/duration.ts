@@ -0,0 +1,169 @@
+import { DateWrapper, type DateInput } from "./index";
+import { defaultLocale, resolveLocale, type DateLocale } from "./locale";
+
+/**
+ * A length of time in milliseconds, written the way configs and commands use
+ * it: "2h30m", "1d 4h", "90s", "1.5h", "250ms".
+ *
+ * @example
+ *   Duration.parse("2h30m").ms;                 // 9000000
+ *   Duration.of(90_000).format();               // "1m30s"
+ *   Duration.of("26h").humanize();              // "1 day 2 hours"
+ *   Duration.of("26h").humanize({ locale: "es" }); // "1 día 2 horas"
+ *   Duration.between(start, end).humanize({ largest: 1 });
+ */
+
+export interface DurationParts {
+	weeks?: number;
+	days?: number;
+	hours?: number;
+	minutes?: number;
+	seconds?: number;
+	milliseconds?: number;
+}
+
+/** Milliseconds, a "2h30m" string, parts or another Duration. */
+export type DurationInput = number | string | DurationParts | Duration;
+
+type Unit = keyof DurationParts;
+
+const UNITS: ReadonlyArray<[Unit, string, number]> = [
+	["weeks", "w", 604_800_000],
+	["days", "d", 86_400_000],
+	["hours", "h", 3_600_000],
+	["minutes", "m", 60_000],
+	["seconds", "s", 1_000],
+	["milliseconds", "ms", 1],
+];
+
+const SUFFIX_MS = new Map(UNITS.map(([, suffix, ms]) => [suffix, ms]));
+
+const NAMES: Record<DateLocale, Record<Unit, [string, string]>> = {
+	en: {
+		weeks: ["week", "weeks"],
+		days: ["day", "days"],
+		hours: ["hour", "hours"],
+		minutes: ["minute", "minutes"],
+		seconds: ["second", "seconds"],
+		milliseconds: ["millisecond", "milliseconds"],
+	},
+	es: {
+		weeks: ["semana", "semanas"],
+		days: ["día", "días"],
+		hours: ["hora", "horas"],
+		minutes: ["minuto", "minutos"],
+		seconds: ["segundo", "segundos"],
+		milliseconds: ["milisegundo", "milisegundos"],
+	},
+};
+
+const TOKEN = /(\d+(?:\.\d+)?)\s*(ms|w|d|h|m|s)/gy;
+
+export class Duration {
+	private constructor(readonly ms: number) {}
+
+	static of(input: DurationInput): Duration {
+		if (input instanceof Duration) return input;
+		if (typeof input === "number") return new Duration(input);
+		if (typeof input === "string") return Duration.parse(input);
+		let ms = 0;
+		for (const [unit, , unitMs] of UNITS) ms += (input[unit] ?? 0) * unitMs;
+		return new Duration(ms);
+	}
+
+	/** Parses "2h30m", "1d 4h", "-15m"... A bare number is milliseconds. */
+	static parse(text: string): Duration {
+		const source = text.trim();
+		if (/^-?\d+(?:\.\d+)?$/.test(source)) return new Duration(Number(source));
+		const negative = source.startsWith("-");
+		const body = (negative ? source.slice(1) : source).replace(/\s+/g, "");
+		let ms = 0;
+		let consumed = 0;
+		TOKEN.lastIndex = 0;
+		let match: RegExpExecArray | null;
+		while ((match = TOKEN.exec(body))) {
+			ms += Number(match[1]) * (SUFFIX_MS.get(match[2]) as number);
+			consumed = TOKEN.lastIndex;
+		}
+		if (body.length === 0 || consumed !== body.length) {
+			throw new RangeError(`Duration: cannot parse "${text}"`);
+		}
+		return new Duration(negative ? -ms : ms);
+	}
+
+	/** Time from `start` to `end` (negative if `end` is earlier). */
+	static between(
+		start: DateInput | DateWrapper,
+		end: DateInput | DateWrapper,
+	): Duration {
+		const ms = (d: DateInput | DateWrapper) =>
+			(d instanceof DateWrapper ? d : new DateWrapper(d)).toDate().getTime();
+		return new Duration(ms(end) - ms(start));
+	}
+
+	/** Whole units from weeks down to milliseconds (all with the sign of ms). */
+	parts(): Required<DurationParts> {
+		const sign = this.ms < 0 ? -1 : 1;
+		let rest = Math.abs(Math.round(this.ms));
+		const parts = {} as Required<DurationParts>;
+		for (const [unit, , unitMs] of UNITS) {
+			parts[unit] = sign * Math.floor(rest / unitMs) || 0;
+			rest %= unitMs;
+		}
+		return parts;
+	}
+
+	/** Value in one unit, fractional: Duration.parse("90m").as("hours") = 1.5. */
+	as(unit: Unit): number {
+		const [, , unitMs] = UNITS.find(([u]) => u === unit) as [
+			Unit,
+			string,
+			number,
+		];
+		return this.ms / unitMs;
+	}
+
+	plus(other: DurationInput): Duration {
+		return new Duration(this.ms + Duration.of(other).ms);
+	}
+
+	minus(other: DurationInput): Duration {
+		return new Duration(this.ms - Duration.of(other).ms);
+	}
+
+	/** Compact form, parseable back: "2h30m", "1d", "0s". */
+	format(): string {
+		const parts = this.parts();
+		const text = UNITS.filter(([unit]) => parts[unit] !== 0)
+			.map(([unit, suffix]) => `${Math.abs(parts[unit])}${suffix}`)
+			.join("");
+		return text ? `${this.ms < 0 ? "-" : ""}${text}` : "0s";
+	}
+
+	/**
+	 * Words, largest units first: "2 hours 30 minutes" / "2 horas 30 minutos"
+	 * (default locale unless given). `largest` caps how many units are shown
+	 * (the rest is dropped, not rounded).
+	 */
+	humanize(opts: { largest?: number; locale?: string } = {}): string {
+		const names =
+			NAMES[opts.locale ? resolveLocale(opts.locale) : defaultLocale()];
+		const parts = this.parts();
+		const words = UNITS.filter(([unit]) => parts[unit] !== 0)
+			.slice(0, opts.largest ?? UNITS.length)
+			.map(([unit]) => {
+				const n = Math.abs(parts[unit]);
+				return `${n} ${names[unit][n === 1 ? 0 : 1]}`;
+			});
+		if (words.length === 0) return `0 ${names.seconds[1]}`;
+		return `${this.ms < 0 ? "-" : ""}${words.join(" ")}`;
+	}
+
+	toJSON(): string {
+		return this.format();
+	}
+
+	toString(): string {
+		return this.format();
+	}
+}
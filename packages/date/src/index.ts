@@ -3,6 +3,12 @@ import utc from "dayjs/plugin/utc";
 import timezone from "dayjs/plugin/timezone";
 import customParseFormat from "dayjs/plugin/customParseFormat";
 import { UnitType } from "dayjs";
+import {
+	calendarFormats,
+	presetFormat,
+	resolveLocale,
+	type DateLocale,
+} from "./locale";
 
 dayjs.extend(utc);
 dayjs.extend(timezone);
@@ -80,6 +86,42 @@ export class DateWrapper {
 		return this._date.get(unit);
 	}
 
+	/** Same instant in another locale ("es", "en", or a tag like "es-MX"). */
+	locale(locale: string): DateWrapper {
+		return new DateWrapper(this._date.locale(resolveLocale(locale)));
+	}
+
+	getLocale(): DateLocale {
+		return this._date.locale() as DateLocale;
+	}
+
+	/** Relative to now: "hace 5 minutos" / "in 3 hours". */
+	fromNow(withoutSuffix = false): string {
+		return this._date.fromNow(withoutSuffix);
+	}
+
+	/** Now relative to this date: "en 5 minutos" for a date 5 minutes ago. */
+	toNow(withoutSuffix = false): string {
+		return this._date.toNow(withoutSuffix);
+	}
+
+	/** "ayer a las 18:00", "Tomorrow at 9:30 AM"; past a week, the "date" form. */
+	calendar(reference?: DateInput): string {
+		return this._date.calendar(
+			reference === undefined ? undefined : dayjs(reference),
+			calendarFormats(this.getLocale()),
+		);
+	}
+
+	/** Formats with a named preset (built-in or from configureDateFormats()). */
+	preset(name: string): string {
+		const fmt = presetFormat(name);
+		if (fmt === undefined) {
+			throw new RangeError(`DateWrapper: unknown format preset "${name}"`);
+		}
+		return this._date.format(fmt);
+	}
+
 	toUnix(): number {
 		return this._date.unix();
 	}
@@ -93,5 +135,10 @@ export class DateWrapper {
 	}
 }
 
+export * from "./clock";
+export * from "./cron";
+export * from "./duration";
+export * from "./locale";
+
 // Example usage:
 // const date = DateWrapper.now().add(1, 'day').format('YYYY-MM-DD');
@@ -0,0 +1,120 @@
+import dayjs, { type Dayjs } from "dayjs";
+import calendar from "dayjs/plugin/calendar";
+import localizedFormat from "dayjs/plugin/localizedFormat";
+import relativeTime from "dayjs/plugin/relativeTime";
+import "dayjs/locale/es";
+
+/**
+ * Locales and named formats shared by DateWrapper and Duration. Nothing here
+ * touches Node APIs: the same settings work on the server, the client and in
+ * NUI bundles (each runtime configures its own copy).
+ *
+ * @example
+ *   configureDateFormats({ locale: "es", presets: { ticket: "DD/MM HH:mm" } });
+ *   DateWrapper.now().preset("ticket");
+ *   DateWrapper.from(ts).locale(playerLocale).calendar(); // "ayer a las 18:00"
+ */
+
+dayjs.extend(calendar);
+dayjs.extend(localizedFormat);
+dayjs.extend(relativeTime);
+
+export const DATE_LOCALES = ["es", "en"] as const;
+export type DateLocale = (typeof DATE_LOCALES)[number];
+
+/**
+ * Built-in presets. Localized tokens (L, LT...) follow the wrapper's locale:
+ * "date" is 19/10/2026 in es and 10/19/2026 in en.
+ */
+export const DEFAULT_DATE_PRESETS: Readonly<Record<string, string>> = {
+	date: "L",
+	time: "LT",
+	dateTime: "L LT",
+	long: "LLLL",
+	iso: "YYYY-MM-DDTHH:mm:ssZ",
+};
+
+export interface DateFormatSettings {
+	/** Locale of new wrappers and durations. Default "en" (dayjs default). */
+	locale?: DateLocale;
+	/** Named formats for DateWrapper.preset(); merged over the built-in ones. */
+	presets?: Record<string, string>;
+}
+
+type CalendarFormats = Record<string, string | ((this: Dayjs) => string)>;
+
+/** "a la 1:00" but "a las 18:00". */
+const esAt = (d: Dayjs) => (d.hour() === 1 ? "[a la]" : "[a las]");
+
+/** dayjs ships no calendar strings for es; en mirrors the plugin defaults. */
+const CALENDAR: Record<DateLocale, CalendarFormats> = {
+	es: {
+		sameDay() {
+			return this.format(`[hoy] ${esAt(this)} H:mm`);
+		},
+		nextDay() {
+			return this.format(`[mañana] ${esAt(this)} H:mm`);
+		},
+		lastDay() {
+			return this.format(`[ayer] ${esAt(this)} H:mm`);
+		},
+		nextWeek() {
+			return this.format(`dddd ${esAt(this)} H:mm`);
+		},
+		lastWeek() {
+			return this.format(`[el] dddd [pasado] ${esAt(this)} H:mm`);
+		},
+		sameElse: "L",
+	},
+	en: {
+		sameDay: "[Today at] h:mm A",
+		nextDay: "[Tomorrow at] h:mm A",
+		lastDay: "[Yesterday at] h:mm A",
+		nextWeek: "dddd [at] h:mm A",
+		lastWeek: "[Last] dddd [at] h:mm A",
+		sameElse: "L",
+	},
+};
+
+const settings: { locale: DateLocale; presets: Record<string, string> } = {
+	locale: "en",
+	presets: { ...DEFAULT_DATE_PRESETS },
+};
+
+/** Sets the default locale and/or presets of this runtime. */
+export function configureDateFormats(next: DateFormatSettings): void {
+	if (next.locale) {
+		settings.locale = resolveLocale(next.locale);
+		// New dayjs instances (and so new wrappers) start in this locale
+		dayjs.locale(settings.locale);
+	}
+	if (next.presets) {
+		settings.presets = { ...DEFAULT_DATE_PRESETS, ...next.presets };
+	}
+}
+
+export function defaultLocale(): DateLocale {
+	return settings.locale;
+}
+
+/** Supported locale for a language tag ("es-MX" → "es"), or undefined. */
+export function matchLocale(tag?: string | null): DateLocale | undefined {
+	const lang = tag?.toLowerCase().split(/[-_]/)[0] ?? "";
+	return (DATE_LOCALES as readonly string[]).includes(lang)
+		? (lang as DateLocale)
+		: undefined;
+}
+
+/** Like matchLocale(), falling back to the default locale. */
+export function resolveLocale(tag?: string | null): DateLocale {
+	return matchLocale(tag) ?? settings.locale;
+}
+
+/** Format string of a preset, or undefined if there is no such preset. */
+export function presetFormat(name: string): string | undefined {
+	return settings.presets[name];
+}
+
+export function calendarFormats(locale: DateLocale): CalendarFormats {
+	return CALENDAR[locale];
+}
@@ -0,0 +1,240 @@
+/**
+ * Database readiness and recovery.
+ *
+ * As soon as the pool exists a background probe (SELECT 1) tracks whether the
+ * database answers:
+ *   connecting → up            first successful probe
+ *   up         → down          a probe or a query fails with a connection error
+ *   down       → up            the database is back (after a restart, failover...)
+ *   *          → closed        close() was called
+ *
+ * While not up, the probe retries with exponential backoff; once up it checks
+ * every MYSQL_HEALTH_INTERVAL_MS. Broken connections are discarded by mysql2,
+ * so recovery needs no manual pool rebuild.
+ *
+ * Usage (server-side):
+ *   await waitForDb();                 // gate startup work on readiness
+ *   onDbStatusChange((s) => ...);      // e.g. pause jobs while "down"
+ */
+
+import type { Pool } from "mysql2/promise";
+
+/* -------------------------------------------------------------------------- */
+/*                                   Types                                    */
+/* -------------------------------------------------------------------------- */
+
+export type DbStatus = "connecting" | "up" | "down" | "closed";
+
+export interface DbHealth {
+	status: DbStatus;
+	/** Epoch ms of the last status change. */
+	since: number;
+	/** Error of the last failed probe while not up. */
+	lastError?: Error;
+	/** Consecutive failed probes. */
+	failures: number;
+}
+
+export type DbStatusListener = (
+	status: DbStatus,
+	prev: DbStatus,
+	error?: Error,
+) => void;
+
+export interface HealthOptions {
+	/** Probe interval while up. Default 10000. */
+	intervalMs: number;
+	/** First retry delay while connecting/down; doubles up to maxRetryMs. Default 500. */
+	retryMs: number;
+	maxRetryMs: number;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                           Global (hot-reload safe)                          */
+/* -------------------------------------------------------------------------- */
+
+const HEALTH_KEY = Symbol.for("__TRP_DB_HEALTH__");
+
+type HealthState = DbHealth & {
+	listeners: Set<DbStatusListener>;
+	timer?: ReturnType<typeof setTimeout>;
+	/** Bumped on start/stop so a probe in flight from a previous pool is ignored. */
+	generation: number;
+};
+
+const state: HealthState =
+	// eslint-disable-next-line @typescript-eslint/no-explicit-any
+	((globalThis as any)[HEALTH_KEY] as HealthState) ?? {
+		status: "closed",
+		since: Date.now(),
+		failures: 0,
+		listeners: new Set(),
+		generation: 0,
+	};
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+(globalThis as any)[HEALTH_KEY] = state;
+
+/* -------------------------------------------------------------------------- */
+/*                                 Internals                                  */
+/* -------------------------------------------------------------------------- */
+
+/** mysql2/Node error codes meaning "the server is unreachable", not "bad SQL". */
+const CONNECTION_ERRORS = new Set([
+	"ECONNREFUSED",
+	"ECONNRESET",
+	"ETIMEDOUT",
+	"EHOSTUNREACH",
+	"ENOTFOUND",
+	"EPIPE",
+	"PROTOCOL_CONNECTION_LOST",
+	"PROTOCOL_SEQUENCE_TIMEOUT",
+	"ER_CON_COUNT_ERROR",
+	"ER_SERVER_SHUTDOWN",
+]);
+
+export function isConnectionError(err: unknown): boolean {
+	const e = err as { code?: string; fatal?: boolean } | undefined;
+	return !!e && (CONNECTION_ERRORS.has(e.code ?? "") || e.fatal === true);
+}
+
+function setStatus(status: DbStatus, error?: Error): void {
+	const prev = state.status;
+	state.lastError = status === "up" ? undefined : (error ?? state.lastError);
+	if (prev === status) return;
+	state.status = status;
+	state.since = Date.now();
+
+	if (status === "up" && prev !== "connecting") {
+		console.log("[@trp/db-mysql] database reachable again");
+	} else if (status === "down") {
+		console.warn(`[@trp/db-mysql] database unreachable: ${error?.message}`);
+	}
+	for (const listener of state.listeners) {
+		try {
+			listener(status, prev, error);
+		} catch (err) {
+			console.error("[@trp/db-mysql] status listener failed:", err);
+		}
+	}
+}
+
+function schedule(pool: Pool, opts: HealthOptions, delayMs: number): void {
+	clearTimeout(state.timer);
+	const generation = state.generation;
+	state.timer = setTimeout(() => void probe(pool, opts, generation), delayMs);
+	// Never keep a CLI process alive just for the healthcheck
+	state.timer.unref?.();
+}
+
+async function probe(
+	pool: Pool,
+	opts: HealthOptions,
+	generation: number,
+): Promise<void> {
+	try {
+		await pool.query("SELECT 1");
+		if (generation !== state.generation) return;
+		state.failures = 0;
+		setStatus("up");
+		schedule(pool, opts, opts.intervalMs);
+	} catch (err) {
+		if (generation !== state.generation) return;
+		state.failures++;
+		const error = err as Error;
+		// Until the first success we stay "connecting" (startup retry)
+		setStatus(state.status === "connecting" ? "connecting" : "down", error);
+		if (state.status === "connecting" && state.failures % 5 === 1) {
+			console.warn(
+				`[@trp/db-mysql] waiting for database (attempt ${state.failures}): ${error.message}`,
+			);
+		}
+		const delay = Math.min(
+			opts.maxRetryMs,
+			opts.retryMs * 2 ** (state.failures - 1),
+		);
+		schedule(pool, opts, delay);
+	}
+}
+
+/**
+ * Starts probing a freshly created pool. Called by getPool(); the status goes
+ * to "connecting" until the first successful probe.
+ */
+export function startHealth(pool: Pool, opts: HealthOptions): void {
+	state.generation++;
+	state.failures = 0;
+	setStatus("connecting");
+	schedule(pool, opts, 0);
+}
+
+/** Stops probing and marks the database as closed. Called by close(). */
+export function stopHealth(): void {
+	state.generation++;
+	clearTimeout(state.timer);
+	state.timer = undefined;
+	setStatus("closed");
+}
+
+/**
+ * Feeds query failures into the health state: a connection error while up
+ * flips the status to "down" at once instead of waiting for the next probe.
+ */
+export function reportQueryError(
+	err: unknown,
+	pool: Pool,
+	opts: HealthOptions,
+): void {
+	if (state.status !== "up" || !isConnectionError(err)) return;
+	state.failures = 1;
+	setStatus("down", err as Error);
+	schedule(pool, opts, opts.retryMs);
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                Public API                                  */
+/* -------------------------------------------------------------------------- */
+
+/** Current readiness of the shared pool. */
+export function dbHealth(): DbHealth {
+	const { status, since, lastError, failures } = state;
+	return { status, since, lastError, failures };
+}
+
+/**
+ * Subscribes to status changes ("connecting" | "up" | "down" | "closed").
+ * Returns a function that removes the listener.
+ */
+export function onDbStatusChange(listener: DbStatusListener): () => void {
+	state.listeners.add(listener);
+	return () => {
+		state.listeners.delete(listener);
+	};
+}
+
+/**
+ * Resolves once the database is up. Rejects after `timeoutMs` (default: wait
+ * forever) or if the pool is closed meanwhile. The pool must already exist
+ * (getPool() was called, e.g. by the module's dbFor()).
+ */
+export function waitForDb(timeoutMs?: number): Promise<void> {
+	if (state.status === "up") return Promise.resolve();
+	return new Promise((resolve, reject) => {
+		let timer: ReturnType<typeof setTimeout> | undefined;
+		const off = onDbStatusChange((status) => {
+			if (status === "up") done();
+			else if (status === "closed") done(new Error("database pool closed"));
+		});
+		const done = (error?: Error) => {
+			off();
+			clearTimeout(timer);
+			if (error) reject(error);
+			else resolve();
+		};
+		if (timeoutMs !== undefined) {
+			timer = setTimeout(() => {
+				const cause = state.lastError ? `: ${state.lastError.message}` : "";
+				done(new Error(`database not ready after ${timeoutMs}ms${cause}`));
+			}, timeoutMs);
+		}
+	});
+}
@@ -3,19 +3,31 @@
  *
  * What it provides:
  * - A single shared Pool (mysql2/promise) per process (hot-reload friendly).
- * - Drizzle database instances scoped to a module schema: dbFor(schema).
- * - Transaction helper scoped to a module schema: txFor(schema, fn).
- * - Raw query helper: query(sql, params?) → T[].
+ * - Named datasources with optional read replicas: configureDatasources() and
+ *   dbFor(schema, { datasource: "audit" }). Reads (SELECT/WITH/SHOW...) go to a
+ *   replica, writes and anything inside a transaction to the primary.
+ * - Drizzle database instances scoped to a module schema: dbFor(schema, opts?).
+ * - Transaction helper scoped to a module schema: txFor(schema, fn, opts?).
+ *   The transaction is ambient (AsyncLocalStorage): dbFor/query/withConn called
+ *   anywhere inside fn join it; nested txFor calls become SAVEPOINTs.
+ * - After-commit hooks: afterCommit(() => ...) runs only once the outermost
+ *   transaction has committed.
+ * - Raw query helper: query(sql, params?, opts?) → T[].
  * - Connection helper: withConn(conn => ...) → T.
  * - Healthcheck and graceful shutdown.
+ * - Readiness: startup retry with backoff and automatic recovery, waitForDb()
+ *   and onDbStatusChange() to gate work on the database being up.
+ * - Query instrumentation: onQuery() hooks, slow-query log, topQueries(), poolStats().
+ * - Per-module SQL migrations with an advisory lock: registerMigrations() + runMigrations().
  *
  * Usage in a module (server-side only):
- *   import { dbFor, txFor, query, withConn, ping, close } from "@trp/db-mysql";
+ *   import { dbFor, txFor, afterCommit, query, withConn, waitForDb, close } from "@trp/db-mysql";
  *   import * as schema from "../shared/schema";
  *   const db = dbFor(schema);
  *   const rows = await db.select().from(schema.myTable);
  */
 
+import { AsyncLocalStorage } from "node:async_hooks";
 import {
 	createPool,
 	type Pool,
@@ -24,6 +36,21 @@ import {
 } from "mysql2/promise";
 import { drizzle, type MySql2Database } from "drizzle-orm/mysql2";
 import { z } from "zod";
+import {
+	configureDbMetrics,
+	readPoolStats,
+	type DbMetricsOptions,
+	recordQuery,
+	sqlOf,
+	type PoolStats,
+} from "./metrics";
+import {
+	isConnectionError,
+	reportQueryError,
+	startHealth,
+	stopHealth,
+	type HealthOptions,
+} from "./health";
 
 /* -------------------------------------------------------------------------- */
 /*                                   Types                                    */
@@ -33,6 +60,57 @@ export type DrizzleDB<TSchema extends Record<string, unknown>> =
 	MySql2Database<TSchema>;
 export type QueryParams = ReadonlyArray<any> | any[];
 
+export type IsolationLevel =
+	| "READ UNCOMMITTED"
+	| "READ COMMITTED"
+	| "REPEATABLE READ"
+	| "SERIALIZABLE";
+
+/** Name of the datasource used when none is given (the getPool() pool). */
+export const DEFAULT_DATASOURCE = "default";
+
+export interface DbForOptions {
+	/** Named datasource (see configureDatasources). Default "default". */
+	datasource?: string;
+	/**
+	 * Where read-only statements go when the datasource has replicas.
+	 * Use "primary" for read-your-own-writes. Default "replica".
+	 */
+	readFrom?: "replica" | "primary";
+}
+
+/**
+ * Connection settings in the shape of TRPConfig `db.mysql` and
+ * `db.datasources.<name>`. Replicas inherit every field they do not set.
+ */
+export interface DatasourceSettings {
+	host?: string;
+	port?: number;
+	database?: string;
+	user?: string;
+	password?: string;
+	poolLimit?: number;
+	slowQueryMs?: number;
+	metricsSampleRate?: number;
+	replicas?: Omit<DatasourceSettings, "replicas">[];
+}
+
+export interface TxOptions {
+	/** Datasource whose primary runs the transaction. Default "default". */
+	datasource?: string;
+	/** Isolation level for the outermost transaction (ignored by nested savepoints). */
+	isolation?: IsolationLevel;
+	/**
+	 * How many times to re-run the whole transaction after a deadlock (1213)
+	 * or lock wait timeout (1205). Default 3. Only the outermost txFor retries.
+	 */
+	retries?: number;
+	/** Base delay for the exponential backoff between retries. Default 50ms. */
+	retryDelayMs?: number;
+}
+
+export type AfterCommitHook = () => unknown | Promise<unknown>;
+
 /**
  * Environment/runtime configuration accepted by this package.
  * You can pass these via process.env or as an argument to getPool()/dbFor()/txFor().
@@ -61,6 +139,19 @@ const MySqlEnvSchema = z.object({
 	MYSQL_SUPPORT_BIG_NUMBERS: z.coerce.boolean().optional().default(true),
 	MYSQL_BIG_NUMBER_STRINGS: z.coerce.boolean().optional().default(true),
 	MYSQL_DATE_STRINGS: z.coerce.boolean().optional().default(true), // dates as strings to avoid TZ surprises
+
+	/** Instrumentation (see ./metrics) */
+	MYSQL_SLOW_QUERY_MS: z.coerce.number().optional().default(200),
+	/** Health probe: interval while up, and backoff while connecting/down */
+	MYSQL_HEALTH_INTERVAL_MS: z.coerce.number().optional().default(10_000),
+	MYSQL_RETRY_MS: z.coerce.number().optional().default(500),
+	MYSQL_RETRY_MAX_MS: z.coerce.number().optional().default(30_000),
+	MYSQL_METRICS_SAMPLE_RATE: z.coerce
+		.number()
+		.min(0)
+		.max(1)
+		.optional()
+		.default(1),
 });
 
 export type MySqlRuntimeConfig = Partial<z.infer<typeof MySqlEnvSchema>>;
@@ -71,9 +162,47 @@ export type MySqlRuntimeConfig = Partial<z.infer<typeof MySqlEnvSchema>>;
 
 const GLOBAL_STATE_KEY = Symbol.for("__TRP_DB_MYSQL_SINGLETON__");
 
+/** State of the transaction bound to the current async context. */
+type TxContext = {
+	conn: PoolConnection;
+	datasource: string;
+	/** Counter for unique SAVEPOINT names within this transaction */
+	savepoints: number;
+	afterCommit: AfterCommitHook[];
+	/** Committed or rolled back: `conn` is back in the pool */
+	done: boolean;
+};
+
+type ReplicaState = {
+	config: MySqlRuntimeConfig;
+	pool?: Pool;
+	/** Skipped until this epoch ms after a connection error */
+	downUntil: number;
+};
+
+type DatasourceState = {
+	/** Unused for "default", whose primary is globalState.pool */
+	config?: MySqlRuntimeConfig;
+	primary?: Pool;
+	replicas: ReplicaState[];
+	/** Round-robin cursor over replicas */
+	next: number;
+};
+
+/** Drizzle instance of some schema (the cache does not care which). */
+type AnyDrizzleDB = MySql2Database<Record<string, unknown>>;
+
 type GlobalState = {
 	pool?: Pool;
-	drizzleBySchema?: WeakMap<object, MySql2Database<any>>;
+	/** Config the pool was created with, to detect conflicting getPool() calls */
+	poolConfig?: MySqlRuntimeConfig;
+	healthOptions?: HealthOptions;
+	warnedConfigs?: Set<string>;
+	datasources?: Map<string, DatasourceState>;
+	/** schema → "datasource:readFrom" → instance */
+	drizzleBySchema?: WeakMap<object, Map<string, AnyDrizzleDB>>;
+	// Shared by every bundle of this package loaded in the same runtime
+	txStorage?: AsyncLocalStorage<TxContext>;
 };
 
 const globalState: GlobalState =
@@ -90,7 +219,11 @@ const globalState: GlobalState =
  * Creates a new mysql2 Pool from env/config. Typically called once.
  * Do NOT call this directly; use getPool() to reuse the singleton.
  */
-function createPoolFromConfig(config?: MySqlRuntimeConfig): Pool {
+function createPoolFromConfig(config?: MySqlRuntimeConfig): {
+	pool: Pool;
+	health: HealthOptions;
+	metrics: DbMetricsOptions;
+} {
 	const env = MySqlEnvSchema.parse({ ...process.env, ...config });
 
 	const base: PoolOptions = env.MYSQL_URL
@@ -108,6 +241,9 @@ function createPoolFromConfig(config?: MySqlRuntimeConfig): Pool {
 		connectionLimit: env.MYSQL_POOL_LIMIT,
 		waitForConnections: env.MYSQL_WAIT_FOR_CONNECTIONS,
 		queueLimit: env.MYSQL_QUEUE_LIMIT,
+		// Detects half-open TCP connections after a DB restart or network blip
+		enableKeepAlive: true,
+		keepAliveInitialDelay: 10_000,
 
 		// Parsing / compatibility notes:
 		// - For money/IDs, prefer bigNumberStrings=true to avoid precision loss.
@@ -119,25 +255,265 @@ function createPoolFromConfig(config?: MySqlRuntimeConfig): Pool {
 		// namedPlaceholders: true, // enable if you want :named params (requires extra runtime transform)
 	});
 
-	// Optional lifecycle hooks for diagnostics:
-	pool.on("connection", () => {
-		console.debug("[@trp/db-mysql] new connection acquired");
-	});
-	pool.on("acquire", () => {
-		console.debug("[@trp/db-mysql] connection checked out from the pool");
-	});
-	pool.on("release", () => {
-		console.debug("[@trp/db-mysql] connection released back to the pool");
-	});
+	return {
+		pool,
+		metrics: {
+			slowQueryMs: env.MYSQL_SLOW_QUERY_MS,
+			sampleRate: env.MYSQL_METRICS_SAMPLE_RATE,
+		},
+		health: {
+			intervalMs: env.MYSQL_HEALTH_INTERVAL_MS,
+			retryMs: env.MYSQL_RETRY_MS,
+			maxRetryMs: env.MYSQL_RETRY_MAX_MS,
+		},
+	};
+}
+
+/**
+ * Warns (once per distinct set of keys) when getPool() receives a config that
+ * differs from the one the singleton was created with: it would be ignored.
+ * Only key names are logged, never values (passwords).
+ */
+function warnConflictingConfig(config: MySqlRuntimeConfig): void {
+	const current = globalState.poolConfig ?? {};
+	const differing = (Object.keys(config) as (keyof MySqlRuntimeConfig)[])
+		.filter((k) => config[k] !== undefined && config[k] !== current[k])
+		.sort();
+	if (differing.length === 0) return;
+	const signature = differing.join(",");
+	globalState.warnedConfigs ??= new Set();
+	if (globalState.warnedConfigs.has(signature)) return;
+	globalState.warnedConfigs.add(signature);
+	console.warn(
+		`[@trp/db-mysql] getPool(): pool already created; ignoring different ${signature}. ` +
+			"Configure the pool once, before the first dbFor()/query().",
+	);
+}
+
+/**
+ * Lets the health monitor know about failed queries (connection loss). The
+ * monitor tracks the default primary only.
+ */
+function noteQueryError(err: unknown, client: unknown): void {
+	if (
+		globalState.pool &&
+		globalState.healthOptions &&
+		client === globalState.pool
+	) {
+		reportQueryError(err, globalState.pool, globalState.healthOptions);
+	}
+}
+
+/** How long a replica is skipped after a connection error. */
+const REPLICA_BACKOFF_MS = 30_000;
+
+const READ_ONLY_SQL = /^[\s(]*(select|with|show|explain|describe|desc)\b/i;
+const LOCKING_READ = /\bfor\s+(update|share)\b|\block\s+in\s+share\s+mode\b/i;
+
+/** Statements safe to send to a replica (locking reads need the primary). */
+function isReadOnly(sql: string): boolean {
+	return READ_ONLY_SQL.test(sql) && !LOCKING_READ.test(sql);
+}
+
+function datasources(): Map<string, DatasourceState> {
+	globalState.datasources ??= new Map();
+	return globalState.datasources;
+}
+
+function datasourceState(name: string): DatasourceState {
+	const ds = datasources().get(name);
+	if (ds) return ds;
+	if (name === DEFAULT_DATASOURCE) {
+		const created: DatasourceState = { replicas: [], next: 0 };
+		datasources().set(name, created);
+		return created;
+	}
+	throw new Error(
+		`[@trp/db-mysql] unknown datasource "${name}"; declare it in db.datasources and call configureDatasources()`,
+	);
+}
+
+/** Next healthy replica (round robin), or undefined to use the primary. */
+function replicaPool(name: string): ReplicaState | undefined {
+	const ds = datasourceState(name);
+	const now = Date.now();
+	for (let i = 0; i < ds.replicas.length; i++) {
+		const replica = ds.replicas[(ds.next + i) % ds.replicas.length];
+		if (replica.downUntil > now) continue;
+		ds.next = (ds.next + i + 1) % ds.replicas.length;
+		replica.pool ??= createPoolFromConfig(replica.config).pool;
+		return replica;
+	}
+	return undefined;
+}
+
+/** MySqlRuntimeConfig (MYSQL_* keys) from config-style settings. */
+export function toRuntimeConfig(
+	settings: Omit<DatasourceSettings, "replicas">,
+): MySqlRuntimeConfig {
+	const config: MySqlRuntimeConfig = {
+		MYSQL_HOST: settings.host,
+		MYSQL_PORT: settings.port,
+		MYSQL_DATABASE: settings.database,
+		MYSQL_USER: settings.user,
+		MYSQL_PASSWORD: settings.password,
+		MYSQL_POOL_LIMIT: settings.poolLimit,
+		MYSQL_SLOW_QUERY_MS: settings.slowQueryMs,
+		MYSQL_METRICS_SAMPLE_RATE: settings.metricsSampleRate,
+	};
+	// Unset fields must not shadow MYSQL_* env vars
+	return Object.fromEntries(
+		Object.entries(config).filter(([, v]) => v !== undefined),
+	) as MySqlRuntimeConfig;
+}
+
+/**
+ * Runs a statement on the right pool/connection:
+ * - inside a transaction on the same datasource → the transaction's connection;
+ * - inside any transaction, or for writes / locking reads → the primary;
+ * - read-only statements → a replica when there is one (falling back to the
+ *   primary if the replica is unreachable).
+ */
+async function routeQuery<T>(
+	datasource: string,
+	readFrom: "replica" | "primary",
+	sql: string,
+	run: (client: Pool | PoolConnection) => Promise<T>,
+): Promise<T> {
+	const ctx = currentTx();
+	if (ctx) {
+		return run(
+			ctx.datasource === datasource ? ctx.conn : getDatasourcePool(datasource),
+		);
+	}
+	const replica =
+		readFrom === "replica" && isReadOnly(sql)
+			? replicaPool(datasource)
+			: undefined;
+	if (replica) {
+		try {
+			return await run(replica.pool as Pool);
+		} catch (err) {
+			if (!isConnectionError(err)) throw err;
+			replica.downUntil = Date.now() + REPLICA_BACKOFF_MS;
+			console.warn(
+				`[@trp/db-mysql] replica of "${datasource}" unreachable, using the primary for ${REPLICA_BACKOFF_MS / 1000}s: ${(err as Error).message}`,
+			);
+		}
+	}
+	const primary = getDatasourcePool(datasource);
+	try {
+		return await run(primary);
+	} catch (err) {
+		noteQueryError(err, primary);
+		throw err;
+	}
+}
+
+function txStorage(): AsyncLocalStorage<TxContext> {
+	globalState.txStorage ??= new AsyncLocalStorage<TxContext>();
+	return globalState.txStorage;
+}
+
+/**
+ * Transaction bound to the current async context, if any. Work started inside
+ * txFor that outlives it (a promise not awaited, a timer) keeps the context:
+ * once the transaction is done it is ignored, and that work uses the pool.
+ */
+function currentTx(): TxContext | undefined {
+	const ctx = txStorage().getStore();
+	return ctx && !ctx.done ? ctx : undefined;
+}
+
+/**
+ * A Pool look-alike that sends each query to the ambient transaction's
+ * connection when there is one, and to the datasource's primary or a replica
+ * otherwise (see routeQuery). Drizzle only calls query/execute (and
+ * getConnection for its own db.transaction()), so cached dbFor() instances
+ * created at module load still join later transactions.
+ * Every call is timed and recorded as a "drizzle" query event.
+ */
+function createRoutingClient(
+	datasource: string,
+	readFrom: "replica" | "primary",
+): Pool {
+	const timed =
+		(method: "query" | "execute") =>
+		async (...args: unknown[]) => {
+			const sql = sqlOf(args[0]);
+			const t0 = performance.now();
+			try {
+				const result = await routeQuery(datasource, readFrom, sql, (c) =>
+					(c[method] as (...params: unknown[]) => Promise<unknown>)(...args),
+				);
+				recordQuery("drizzle", sql, t0, { result });
+				return result;
+			} catch (error) {
+				recordQuery("drizzle", sql, t0, { error });
+				throw error;
+			}
+		};
+	const client = {
+		query: timed("query"),
+		execute: timed("execute"),
+		getConnection: () => getDatasourcePool(datasource).getConnection(),
+	};
+	return client as unknown as Pool;
+}
+
+const RETRYABLE_ERRNOS = new Set([
+	1213, // ER_LOCK_DEADLOCK
+	1205, // ER_LOCK_WAIT_TIMEOUT
+]);
+
+function isRetryable(err: unknown): boolean {
+	return RETRYABLE_ERRNOS.has((err as { errno?: number })?.errno ?? -1);
+}
 
-	return pool;
+function sleep(ms: number): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
-/** Lazily creates and returns the global Drizzle instance cache (keyed by schema object). */
-function getOrCreateDrizzleCache(): WeakMap<object, MySql2Database<any>> {
-	if (!globalState.drizzleBySchema) {
-		globalState.drizzleBySchema = new WeakMap<object, MySql2Database<any>>();
+async function runAfterCommit(hooks: AfterCommitHook[]): Promise<void> {
+	for (const hook of hooks) {
+		try {
+			await hook();
+		} catch (err) {
+			// The transaction is already committed; a failing hook must not undo that
+			console.error("[@trp/db-mysql] afterCommit hook failed:", err);
+		}
+	}
+}
+
+/** Runs fn inside a SAVEPOINT of the ambient transaction. */
+async function savepoint<TSchema extends Record<string, unknown>, T>(
+	ctx: TxContext,
+	schema: TSchema,
+	fn: (db: MySql2Database<TSchema>, conn: PoolConnection) => Promise<T>,
+): Promise<T> {
+	const name = `trp_sp_${++ctx.savepoints}`;
+	const hooksBefore = ctx.afterCommit.length;
+	await ctx.conn.query(`SAVEPOINT ${name}`);
+	try {
+		const out = await fn(
+			dbFor(schema, { datasource: ctx.datasource }),
+			ctx.conn,
+		);
+		await ctx.conn.query(`RELEASE SAVEPOINT ${name}`);
+		return out;
+	} catch (e) {
+		try {
+			await ctx.conn.query(`ROLLBACK TO SAVEPOINT ${name}`);
+		} catch {}
+		// Hooks registered inside the rolled-back savepoint must never run
+		ctx.afterCommit.length = hooksBefore;
+		throw e;
 	}
+}
+
+/** Lazily creates and returns the global Drizzle instance cache (schema → datasource → db). */
+function getOrCreateDrizzleCache(): WeakMap<object, Map<string, AnyDrizzleDB>> {
+	globalState.drizzleBySchema ??= new WeakMap();
 	return globalState.drizzleBySchema;
 }
 
@@ -147,32 +523,104 @@ function getOrCreateDrizzleCache(): WeakMap<object, MySql2Database<any>> {
 
 /**
  * Returns the process-wide Pool singleton, creating it if necessary.
- * Pass a runtime config on the first call if you need to override env vars programmatically.
+ * Pass a runtime config on the first call if you need to override env vars programmatically;
+ * a different config on later calls is ignored (with a warning).
+ * Creating the pool does not connect: see waitForDb() for readiness.
  */
 export function getPool(config?: MySqlRuntimeConfig): Pool {
 	if (!globalState.pool) {
-		globalState.pool = createPoolFromConfig(config);
+		const { pool, health, metrics } = createPoolFromConfig(config);
+		configureDbMetrics(metrics);
+		globalState.pool = pool;
+		globalState.poolConfig = config;
+		globalState.healthOptions = health;
+		startHealth(pool, health);
+	} else if (config) {
+		warnConflictingConfig(config);
 	}
 	return globalState.pool;
 }
 
+/**
+ * Declares the datasources from config: "default" configures getPool() (it
+ * must come before the first dbFor()/query()), any other name gets its own
+ * pool on first use. `replicas` add read-only pools for that datasource.
+ *
+ * @example
+ *   configureDatasources({ default: cfg.db.mysql, ...cfg.db.datasources });
+ *   const audit = dbFor(auditSchema, { datasource: "audit" });
+ */
+export function configureDatasources(
+	all: Record<string, DatasourceSettings>,
+): void {
+	for (const [name, { replicas = [], ...primary }] of Object.entries(all)) {
+		const config = toRuntimeConfig(primary);
+		if (name === DEFAULT_DATASOURCE) getPool(config);
+		const prev = datasources().get(name);
+		if (prev && (prev.primary || prev.replicas.some((r) => r.pool))) {
+			console.warn(
+				`[@trp/db-mysql] datasource "${name}" already in use; new settings apply after close()`,
+			);
+			continue;
+		}
+		datasources().set(name, {
+			config,
+			replicas: replicas.map((r) => ({
+				config: toRuntimeConfig({ ...primary, ...r }),
+				downUntil: 0,
+			})),
+			next: 0,
+		});
+	}
+}
+
+/**
+ * Primary pool of a datasource, created on first use ("default" is getPool()).
+ * Throws for a name that was never declared with configureDatasources().
+ */
+export function getDatasourcePool(name = DEFAULT_DATASOURCE): Pool {
+	if (name === DEFAULT_DATASOURCE) return getPool();
+	const ds = datasourceState(name);
+	ds.primary ??= createPoolFromConfig(ds.config).pool;
+	return ds.primary;
+}
+
+/** Names of the declared datasources (always includes "default"). */
+export function datasourceNames(): string[] {
+	return [...new Set([DEFAULT_DATASOURCE, ...datasources().keys()])];
+}
+
 /**
  * Returns a Drizzle database instance typed to the provided module schema.
- * Instances are cached per schema object to avoid re-wrapping the pool.
+ * Instances are cached per schema object and datasource to avoid re-wrapping the pool.
+ * Queries run inside the ambient transaction when called within txFor();
+ * otherwise reads may go to a replica of the datasource.
  *
  * @example
  *   import * as schema from "../shared/schema";
  *   const db = dbFor(schema);
+ *   const audit = dbFor(auditSchema, { datasource: "audit" });
  */
 export function dbFor<TSchema extends Record<string, unknown>>(
 	schema: TSchema,
-	cfg?: MySqlRuntimeConfig,
+	opts: DbForOptions = {},
 ): MySql2Database<TSchema> {
+	const datasource = opts.datasource ?? DEFAULT_DATASOURCE;
+	const readFrom = opts.readFrom ?? "replica";
+	const key = `${datasource}:${readFrom}`;
 	const cache = getOrCreateDrizzleCache();
-	const cached = cache.get(schema);
+	let bySource = cache.get(schema);
+	if (!bySource) {
+		bySource = new Map();
+		cache.set(schema, bySource);
+	}
+	const cached = bySource.get(key);
 	if (cached) return cached as MySql2Database<TSchema>;
-	const db = drizzle(getPool(cfg), { schema, mode: "default" }); // 👈 importante
-	cache.set(schema, db);
+	const db = drizzle(createRoutingClient(datasource, readFrom), {
+		schema,
+		mode: "default",
+	}); // 👈 importante
+	bySource.set(key, db);
 	return db;
 }
 
@@ -180,37 +628,117 @@ export function dbFor<TSchema extends Record<string, unknown>>(
  * Runs a function inside a SQL transaction, exposing a Drizzle instance
  * scoped to the provided schema. Commits on success; rolls back on error.
  *
+ * The transaction is ambient: dbFor(), query() and withConn() called anywhere
+ * inside fn (even without receiving txDb) run on the same connection. A nested
+ * txFor() becomes a SAVEPOINT, so its failure only undoes its own work.
+ *
+ * Deadlocks and lock wait timeouts re-run the whole outermost transaction with
+ * exponential backoff, so fn must not have side effects outside the database;
+ * use afterCommit() for those.
+ *
  * Keep transactions short to minimize lock contention.
  */
 export async function txFor<TSchema extends Record<string, unknown>, T>(
 	schema: TSchema,
 	fn: (db: MySql2Database<TSchema>, conn: PoolConnection) => Promise<T>,
-) {
-	const conn = await getPool().getConnection();
-	try {
-		await conn.beginTransaction();
-		const txDb = drizzle(conn, { schema, mode: "default" }); // 👈 importante
-		const out = await fn(txDb, conn);
-		await conn.commit();
-		return out;
-	} catch (e) {
+	opts: TxOptions = {},
+): Promise<T> {
+	const datasource = opts.datasource ?? DEFAULT_DATASOURCE;
+	const outer = currentTx();
+	if (outer && outer.datasource !== datasource) {
+		// A savepoint cannot span two databases, and a second independent
+		// transaction would commit/roll back separately from the outer one
+		throw new Error(
+			`[@trp/db-mysql] txFor on "${datasource}" inside a transaction on "${outer.datasource}"; use afterCommit() to write there once the outer one commits`,
+		);
+	}
+	if (outer) return savepoint(outer, schema, fn);
+
+	const retries = opts.retries ?? 3;
+	const retryDelayMs = opts.retryDelayMs ?? 50;
+	const label = `TRANSACTION ${opts.isolation ?? "DEFAULT"}`;
+	for (let attempt = 0; ; attempt++) {
+		const t0 = performance.now();
+		const conn = await getDatasourcePool(datasource).getConnection();
+		const ctx: TxContext = {
+			conn,
+			datasource,
+			savepoints: 0,
+			afterCommit: [],
+			done: false,
+		};
+		let out: T;
 		try {
-			await conn.rollback();
-		} catch {}
-		throw e;
-	} finally {
-		conn.release();
+			if (opts.isolation) {
+				// Applies only to the next transaction started on this connection
+				await conn.query(`SET TRANSACTION ISOLATION LEVEL ${opts.isolation}`);
+			}
+			await conn.beginTransaction();
+			// dbFor() instances route to `conn` while inside the ambient context
+			out = await txStorage().run(ctx, () =>
+				fn(dbFor(schema, { datasource }), conn),
+			);
+			await conn.commit();
+			recordQuery("transaction", label, t0);
+		} catch (e) {
+			try {
+				await conn.rollback();
+			} catch {}
+			recordQuery("transaction", label, t0, { error: e });
+			if (attempt < retries && isRetryable(e)) {
+				const delay = retryDelayMs * 2 ** attempt * (1 + Math.random());
+				console.warn(
+					`[@trp/db-mysql] transaction retry ${attempt + 1}/${retries} in ${Math.round(delay)}ms: ${(e as Error).message}`,
+				);
+				await sleep(delay);
+				continue;
+			}
+			throw e;
+		} finally {
+			ctx.done = true;
+			conn.release();
+		}
+		await runAfterCommit(ctx.afterCommit);
+		return out;
 	}
 }
 
+/**
+ * Registers a callback that runs once the current transaction commits (after
+ * the outermost txFor, outside of it). It is dropped if the transaction, or
+ * the savepoint it was registered in, rolls back. Outside a transaction (or
+ * once it is done, from work that outlived it) it runs right away.
+ *
+ * @example
+ *   await txFor(schema, async (db) => {
+ *     await db.update(accounts).set(...);
+ *     afterCommit(() => emit("trp:money:moved", from, to, amount));
+ *   });
+ */
+export function afterCommit(hook: AfterCommitHook): void {
+	const ctx = currentTx();
+	if (ctx) ctx.afterCommit.push(hook);
+	else void runAfterCommit([hook]);
+}
+
+/** True when called inside txFor(). */
+export function inTransaction(): boolean {
+	return currentTx() !== undefined;
+}
+
 /**
  * Provides a raw mysql2 Connection from the pool for the duration of the callback.
- * No transaction is started by default.
+ * No transaction is started by default; inside txFor() on the same datasource
+ * it gets the transaction's connection. Always the primary.
  */
 export async function withConn<T>(
 	fn: (conn: PoolConnection) => Promise<T>,
+	opts: Pick<DbForOptions, "datasource"> = {},
 ): Promise<T> {
-	const pool = getPool();
+	const datasource = opts.datasource ?? DEFAULT_DATASOURCE;
+	const ctx = currentTx();
+	if (ctx?.datasource === datasource) return fn(ctx.conn);
+	const pool = getDatasourcePool(datasource);
 	const connection = await pool.getConnection();
 	try {
 		return await fn(connection);
@@ -222,37 +750,47 @@ export async function withConn<T>(
 /**
  * Executes a raw SQL query and returns the resulting rows as an array of T.
  * Prefer parameterized queries to avoid SQL injection: query("SELECT ... WHERE id = ?", [id]).
+ * Inside txFor() it runs on the transaction's connection; otherwise read-only
+ * statements may go to a replica (see DbForOptions).
  */
 export async function query<T = unknown>(
 	sql: string,
 	params?: QueryParams,
+	opts: DbForOptions = {},
 ): Promise<T[]> {
-	const pool = getPool();
-
-	// perf timing (Node 22 has global performance)
-	const t0 =
-		typeof performance !== "undefined" ? performance.now() : Date.now();
+	const t0 = performance.now();
 	try {
-		const [rows] = await pool.query(sql, params as any[]);
-		const t1 =
-			typeof performance !== "undefined" ? performance.now() : Date.now();
-		const ms = Math.round(t1 - t0);
-
-		if (ms > 200) {
-			// Log slow queries; keep the SQL preview short to avoid noisy logs
-			const preview = sql.replace(/\s+/g, " ").trim().slice(0, 160);
-			console.warn(`[@trp/db-mysql] slow query ${ms}ms: ${preview}`);
-		}
-
+		const [rows] = await routeQuery(
+			opts.datasource ?? DEFAULT_DATASOURCE,
+			opts.readFrom ?? "replica",
+			sql,
+			(client) => client.query(sql, params),
+		);
+		recordQuery("query", sql, t0, { result: [rows] });
 		return rows as T[];
 	} catch (err) {
+		recordQuery("query", sql, t0, { error: err });
 		console.error("[@trp/db-mysql] query error:", err);
 		throw err;
 	}
 }
 
+/**
+ * Active/idle/queued connections of a datasource's primary (default: the
+ * shared pool). Zeros before the pool exists.
+ */
+export function poolStats(datasource = DEFAULT_DATASOURCE): PoolStats {
+	const pool =
+		datasource === DEFAULT_DATASOURCE
+			? globalState.pool
+			: globalState.datasources?.get(datasource)?.primary;
+	if (!pool) return { total: 0, active: 0, idle: 0, queued: 0, limit: 0 };
+	return readPoolStats(pool);
+}
+
 /**
  * Lightweight healthcheck. Returns true if the database responds to SELECT 1.
+ * The failure itself is logged by query(); dbHealth() keeps the last error.
  */
 export async function ping(): Promise<boolean> {
 	try {
@@ -264,15 +802,25 @@ export async function ping(): Promise<boolean> {
 }
 
 /**
- * Closes the shared pool and clears internal caches.
- * Call this on server shutdown or in tests to release resources.
+ * Closes the shared pool, stops the health probe and clears internal caches.
+ * Call this on resource stop (the singleton outlives a hot reload otherwise)
+ * or at the end of scripts/tests to release connections.
  */
 export async function close(): Promise<void> {
-	if (globalState.pool) {
-		await globalState.pool.end();
-		globalState.pool = undefined;
-		globalState.drizzleBySchema = undefined;
-	}
+	const pool = globalState.pool;
+	const others = [...(globalState.datasources?.values() ?? [])].flatMap(
+		(ds) => [ds.primary, ...ds.replicas.map((r) => r.pool)],
+	);
+	globalState.datasources = undefined;
+	await Promise.all(others.map((p) => p?.end()));
+	if (!pool) return;
+	globalState.pool = undefined;
+	globalState.poolConfig = undefined;
+	globalState.healthOptions = undefined;
+	globalState.warnedConfigs = undefined;
+	globalState.drizzleBySchema = undefined;
+	stopHealth();
+	await pool.end();
 }
 
 export * as mysql from "drizzle-orm/mysql-core";
@@ -295,3 +843,28 @@ export {
 	asc,
 	desc,
 } from "drizzle-orm";
+
+export * from "./migrations";
+export {
+	configureDbMetrics,
+	normalizeSql,
+	onQuery,
+	resetDbMetrics,
+	topQueries,
+	type DbMetricsOptions,
+	type PoolStats,
+	type QueryEvent,
+	type QueryHook,
+	type QueryKind,
+	type QueryStats,
+	type QueryStatsOrder,
+} from "./metrics";
+export {
+	dbHealth,
+	isConnectionError,
+	onDbStatusChange,
+	waitForDb,
+	type DbHealth,
+	type DbStatus,
+	type DbStatusListener,
+} from "./health";
@@ -0,0 +1,286 @@
+/**
+ * Query instrumentation and metrics.
+ *
+ * Every statement that goes through this package (raw query(), Drizzle
+ * instances from dbFor()/txFor() and whole transactions) produces a
+ * QueryEvent. Events are:
+ *   - aggregated per (module, normalized SQL) for topQueries();
+ *   - logged as a warning when slower than the slow threshold;
+ *   - forwarded, sampled, to any hook registered with onQuery().
+ *
+ * Usage:
+ *   configureDbMetrics({ slowQueryMs: 100, sampleRate: 0.1 });
+ *   const off = onQuery((e) => statsd.timing(`db.${e.module}`, e.durationMs));
+ *   topQueries(10, "total"); // which statements cost the most overall
+ *   poolStats();             // { total, active, idle, queued, limit }
+ */
+
+import type { Pool } from "mysql2/promise";
+
+/* -------------------------------------------------------------------------- */
+/*                                   Types                                    */
+/* -------------------------------------------------------------------------- */
+
+export type QueryKind = "query" | "drizzle" | "transaction";
+
+export interface QueryEvent {
+	kind: QueryKind;
+	/** SQL with literals replaced by `?` (transactions: "TRANSACTION <level>"). */
+	sql: string;
+	durationMs: number;
+	/** Rows returned (SELECT) or affected (INSERT/UPDATE/DELETE). */
+	rows?: number;
+	/** Resource that issued the statement. */
+	module: string;
+	/** True when over the slow threshold. */
+	slow: boolean;
+	error?: unknown;
+	/** Epoch ms when the statement finished. */
+	at: number;
+}
+
+export type QueryHook = (event: QueryEvent) => void;
+
+export interface DbMetricsOptions {
+	/** Statements at or above this duration are logged and always sampled. Default 200. */
+	slowQueryMs?: number;
+	/** Fraction (0..1) of non-slow events forwarded to onQuery hooks. Default 1. */
+	sampleRate?: number;
+	/** Log slow statements with console.warn. Default true. */
+	logSlow?: boolean;
+}
+
+export interface QueryStats {
+	module: string;
+	kind: QueryKind;
+	sql: string;
+	count: number;
+	errors: number;
+	totalMs: number;
+	avgMs: number;
+	maxMs: number;
+	rows: number;
+	lastAt: number;
+}
+
+export type QueryStatsOrder = "total" | "max" | "avg" | "count";
+
+export interface PoolStats {
+	/** Open connections (active + idle). */
+	total: number;
+	/** Checked out right now. */
+	active: number;
+	idle: number;
+	/** Requests waiting for a free connection. */
+	queued: number;
+	limit: number;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                           Global (hot-reload safe)                          */
+/* -------------------------------------------------------------------------- */
+
+const METRICS_KEY = Symbol.for("__TRP_DB_METRICS__");
+
+/** Distinct statements kept; the least used one is evicted past this. */
+const MAX_STATEMENTS = 500;
+
+type MetricsState = {
+	options: Required<DbMetricsOptions>;
+	hooks: Set<QueryHook>;
+	stats: Map<string, QueryStats>;
+};
+
+const state: MetricsState =
+	// eslint-disable-next-line @typescript-eslint/no-explicit-any
+	((globalThis as any)[METRICS_KEY] as MetricsState) ?? {
+		options: { slowQueryMs: 200, sampleRate: 1, logSlow: true },
+		hooks: new Set(),
+		stats: new Map(),
+	};
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+(globalThis as any)[METRICS_KEY] = state;
+
+/* -------------------------------------------------------------------------- */
+/*                                 Internals                                  */
+/* -------------------------------------------------------------------------- */
+
+let resourceName: string | undefined;
+
+/** Current FiveM resource, or "node" outside FXServer (CLI, scripts). */
+function callerModule(): string {
+	if (resourceName === undefined) {
+		// eslint-disable-next-line @typescript-eslint/no-explicit-any
+		const getName = (globalThis as any).GetCurrentResourceName;
+		resourceName = typeof getName === "function" ? getName() : "node";
+	}
+	return resourceName as string;
+}
+
+/**
+ * Collapses a statement to its shape so that calls differing only in values
+ * aggregate together: literals become `?` and `IN (?, ?, ?)` becomes `IN (?)`.
+ */
+export function normalizeSql(sql: string): string {
+	return sql
+		.replace(/'(?:[^'\\]|\\.)*'/g, "?")
+		.replace(/"(?:[^"\\]|\\.)*"/g, "?")
+		.replace(/\b\d+(?:\.\d+)?\b/g, "?")
+		.replace(/\(\s*\?(?:\s*,\s*\?)*\s*\)/g, "(?)")
+		.replace(/\s+/g, " ")
+		.trim()
+		.slice(0, 500);
+}
+
+/** Row count from a mysql2 result: rows array or ResultSetHeader. */
+function countRows(result: unknown): number | undefined {
+	const rows = Array.isArray(result) ? result[0] : undefined;
+	if (Array.isArray(rows)) return rows.length;
+	const affected = (rows as { affectedRows?: number } | undefined)
+		?.affectedRows;
+	return typeof affected === "number" ? affected : undefined;
+}
+
+function aggregate(event: QueryEvent): void {
+	const key = `${event.module}\u0000${event.kind}\u0000${event.sql}`;
+	let entry = state.stats.get(key);
+	if (!entry) {
+		if (state.stats.size >= MAX_STATEMENTS) {
+			let victim: [string, QueryStats] | undefined;
+			for (const e of state.stats) {
+				if (!victim || e[1].count < victim[1].count) victim = e;
+			}
+			if (victim) state.stats.delete(victim[0]);
+		}
+		entry = {
+			module: event.module,
+			kind: event.kind,
+			sql: event.sql,
+			count: 0,
+			errors: 0,
+			totalMs: 0,
+			avgMs: 0,
+			maxMs: 0,
+			rows: 0,
+			lastAt: 0,
+		};
+		state.stats.set(key, entry);
+	}
+	entry.count++;
+	if (event.error) entry.errors++;
+	entry.totalMs += event.durationMs;
+	entry.avgMs = entry.totalMs / entry.count;
+	entry.maxMs = Math.max(entry.maxMs, event.durationMs);
+	entry.rows += event.rows ?? 0;
+	entry.lastAt = event.at;
+}
+
+/**
+ * Records one finished statement. Used internally by query(), the Drizzle
+ * client and txFor(); `result` is the raw mysql2 result when available.
+ */
+export function recordQuery(
+	kind: QueryKind,
+	sql: string,
+	startedAt: number,
+	outcome: { result?: unknown; error?: unknown; rows?: number } = {},
+): void {
+	const { slowQueryMs, sampleRate, logSlow } = state.options;
+	const durationMs = performance.now() - startedAt;
+	const event: QueryEvent = {
+		kind,
+		sql: kind === "transaction" ? sql : normalizeSql(sql),
+		durationMs,
+		rows: outcome.rows ?? countRows(outcome.result),
+		module: callerModule(),
+		slow: durationMs >= slowQueryMs,
+		error: outcome.error,
+		at: Date.now(),
+	};
+	aggregate(event);
+
+	if (event.slow && logSlow) {
+		console.warn(
+			`[@trp/db-mysql] slow ${kind} ${Math.round(durationMs)}ms (${event.module}): ${event.sql.slice(0, 160)}`,
+		);
+	}
+	if (state.hooks.size === 0) return;
+	if (!event.slow && Math.random() >= sampleRate) return;
+	for (const hook of state.hooks) {
+		try {
+			hook(event);
+		} catch (err) {
+			console.error("[@trp/db-mysql] query hook failed:", err);
+		}
+	}
+}
+
+/** Extracts the SQL text from the first argument of query()/execute(). */
+export function sqlOf(arg: unknown): string {
+	if (typeof arg === "string") return arg;
+	return (arg as { sql?: string } | undefined)?.sql ?? "";
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                Public API                                  */
+/* -------------------------------------------------------------------------- */
+
+/** Updates the slow threshold, sampling rate or slow logging. */
+export function configureDbMetrics(options: DbMetricsOptions): void {
+	const next = { ...state.options };
+	for (const [key, value] of Object.entries(options)) {
+		if (value !== undefined) Object.assign(next, { [key]: value });
+	}
+	state.options = next;
+}
+
+/**
+ * Subscribes to query events (for metrics exporters, tracing, etc.).
+ * Hooks run synchronously after each statement: keep them cheap.
+ * Returns a function that removes the hook.
+ */
+export function onQuery(hook: QueryHook): () => void {
+	state.hooks.add(hook);
+	return () => {
+		state.hooks.delete(hook);
+	};
+}
+
+/** The N most expensive statements, by total time (default), max, avg or count. */
+export function topQueries(
+	n = 10,
+	by: QueryStatsOrder = "total",
+): QueryStats[] {
+	const key = {
+		total: "totalMs",
+		max: "maxMs",
+		avg: "avgMs",
+		count: "count",
+	}[by] as keyof QueryStats;
+	return [...state.stats.values()]
+		.sort((a, b) => (b[key] as number) - (a[key] as number))
+		.slice(0, n)
+		.map((s) => ({ ...s }));
+}
+
+/** Clears the aggregated statement stats (e.g. at the start of peak hours). */
+export function resetDbMetrics(): void {
+	state.stats.clear();
+}
+
+/** Connection counts of a mysql2 pool, read from its internals. */
+export function readPoolStats(pool: Pool): PoolStats {
+	// The promise wrapper keeps the callback pool in `.pool`; these arrays are
+	// mysql2 internals with no public accessor.
+	// eslint-disable-next-line @typescript-eslint/no-explicit-any
+	const inner = (pool as any).pool ?? pool;
+	const total: number = inner._allConnections?.length ?? 0;
+	const idle: number = inner._freeConnections?.length ?? 0;
+	return {
+		total,
+		active: total - idle,
+		idle,
+		queued: inner._connectionQueue?.length ?? 0,
+		limit: inner.config?.connectionLimit ?? 0,
+	};
+}
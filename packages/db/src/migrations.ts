@@ -0,0 +1,487 @@
+/**
+ * Per-module SQL migrations.
+ *
+ * Each module ships a folder of plain SQL files:
+ *   migrations/0001_players.sql
+ *   migrations/0002_players_identifiers.sql
+ *
+ * Files are applied in version order (the numeric prefix). A file may hold
+ * several statements, split either by drizzle-kit's `--> statement-breakpoint`
+ * marker or by a `;` at the end of a line.
+ *
+ * Applied versions are tracked per module in `trp_schema_migrations`, and the
+ * whole run is serialized across nodes with a MySQL advisory lock (GET_LOCK),
+ * so two servers booting at once never migrate concurrently. A module can
+ * target a named datasource; bookkeeping and the lock then live in that
+ * database.
+ *
+ * Usage (server-side, on resource start):
+ *   registerMigrations({ module: "trp-core", dir: path.join(resourcePath, "migrations"), schema });
+ *   await runMigrations({ module: "trp-core" });
+ */
+
+import { createHash } from "node:crypto";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import type { PoolConnection } from "mysql2/promise";
+import { getTableName, is, Table } from "drizzle-orm";
+import { DEFAULT_DATASOURCE, getDatasourcePool } from "./index";
+
+/* -------------------------------------------------------------------------- */
+/*                                   Types                                    */
+/* -------------------------------------------------------------------------- */
+
+export interface MigrationSource {
+	/** Module (resource) that owns the migrations, e.g. "trp-core". */
+	module: string;
+	/** Absolute path to the folder with NNNN_name.sql files. */
+	dir: string;
+	/** Optional Drizzle schema; its tables count as owned by the module. */
+	schema?: Record<string, unknown>;
+	/** Datasource whose primary gets the tables (default "default"). */
+	datasource?: string;
+}
+
+export interface MigrationFile {
+	module: string;
+	version: number;
+	name: string;
+	file: string;
+	checksum: string;
+	statements: string[];
+}
+
+export interface MigrationStatus {
+	module: string;
+	version: number;
+	name: string;
+	state: "applied" | "pending" | "changed";
+	appliedAt?: string;
+}
+
+export interface RunMigrationsOptions {
+	/** Only this module (default: every registered module). */
+	module?: string;
+	/** Report what would run without executing anything. */
+	dryRun?: boolean;
+	/** Seconds to wait for another node holding the lock (default 60). */
+	lockTimeoutSec?: number;
+}
+
+export interface MigrationRunResult {
+	applied: MigrationFile[];
+	dryRun: boolean;
+}
+
+export class MigrationError extends Error {
+	constructor(
+		message: string,
+		readonly module?: string,
+		readonly file?: string,
+	) {
+		super(message);
+		this.name = "MigrationError";
+	}
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 Internals                                  */
+/* -------------------------------------------------------------------------- */
+
+const MIGRATIONS_TABLE = "trp_schema_migrations";
+/** table name → owning module; catches clashes between resources/nodes too. */
+const OWNERS_TABLE = "trp_schema_tables";
+const LOCK_NAME = "trp:migrations";
+const FILE_PATTERN = /^(\d+)_([\w-]+)\.sql$/;
+
+// Kept on globalThis so every script of a resource shares the same registry.
+const REGISTRY_KEY = Symbol.for("__TRP_DB_MIGRATIONS__");
+const registry: Map<string, MigrationSource> =
+	// eslint-disable-next-line @typescript-eslint/no-explicit-any
+	((globalThis as any)[REGISTRY_KEY] as Map<string, MigrationSource>) ??
+	new Map();
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+(globalThis as any)[REGISTRY_KEY] = registry;
+
+/** Splits a migration file into executable statements. */
+function splitStatements(sql: string): string[] {
+	const chunks = sql.includes("--> statement-breakpoint")
+		? sql.split("--> statement-breakpoint")
+		: sql.split(/;\s*$/m);
+	return chunks
+		.map((chunk) =>
+			chunk
+				.split("\n")
+				.filter((line) => !line.trim().startsWith("--"))
+				.join("\n")
+				.trim()
+				.replace(/;$/, ""),
+		)
+		.filter(Boolean);
+}
+
+/** Table names a module creates, from its SQL and (if given) its Drizzle schema. */
+function declaredTables(
+	source: MigrationSource,
+	files: MigrationFile[],
+): Set<string> {
+	const tables = new Set<string>();
+	const createTable =
+		/create\s+table\s+(?:if\s+not\s+exists\s+)?`?([\w$]+)`?/gi;
+	for (const f of files) {
+		for (const stmt of f.statements) {
+			for (const m of stmt.matchAll(createTable)) tables.add(m[1]);
+		}
+	}
+	for (const value of Object.values(source.schema ?? {})) {
+		if (is(value, Table)) tables.add(getTableName(value));
+	}
+	return tables;
+}
+
+async function ensureMigrationsTable(conn: PoolConnection): Promise<void> {
+	await conn.query(
+		`CREATE TABLE IF NOT EXISTS \`${MIGRATIONS_TABLE}\` (
+			module VARCHAR(64) NOT NULL,
+			version INT NOT NULL,
+			name VARCHAR(255) NOT NULL,
+			checksum CHAR(64) NOT NULL,
+			applied_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+			PRIMARY KEY (module, version)
+		)`,
+	);
+	await conn.query(
+		`CREATE TABLE IF NOT EXISTS \`${OWNERS_TABLE}\` (
+			table_name VARCHAR(64) NOT NULL PRIMARY KEY,
+			module VARCHAR(64) NOT NULL
+		)`,
+	);
+}
+
+async function tableExists(conn: PoolConnection, table: string) {
+	const [rows] = await conn.query("SHOW TABLES LIKE ?", [table]);
+	return (rows as unknown[]).length > 0;
+}
+
+/**
+ * Compares the tables each source declares against the owners recorded in
+ * the database by other modules (possibly other resources or nodes).
+ */
+async function assertTableOwnership(
+	conn: PoolConnection,
+	owned: Map<string, Set<string>>,
+): Promise<void> {
+	if (!(await tableExists(conn, OWNERS_TABLE))) return;
+	const [rows] = await conn.query(
+		`SELECT table_name, module FROM \`${OWNERS_TABLE}\``,
+	);
+	const conflicts: string[] = [];
+	for (const row of rows as Array<{ table_name: string; module: string }>) {
+		for (const [module, tables] of owned) {
+			if (tables.has(row.table_name) && row.module !== module) {
+				conflicts.push(`"${row.table_name}" (${row.module}, ${module})`);
+			}
+		}
+	}
+	if (conflicts.length) {
+		throw new MigrationError(
+			`tables declared by more than one module: ${conflicts.join(", ")}`,
+		);
+	}
+}
+
+type AppliedRow = {
+	module: string;
+	version: number;
+	checksum: string;
+	applied_at: string;
+};
+
+/** Applied rows keyed by "module:version" (empty if the table does not exist yet). */
+async function readApplied(
+	conn: PoolConnection,
+	modules: string[],
+): Promise<Map<string, AppliedRow>> {
+	if (!(await tableExists(conn, MIGRATIONS_TABLE))) return new Map();
+	const [rows] = await conn.query(
+		`SELECT module, version, checksum, applied_at FROM \`${MIGRATIONS_TABLE}\` WHERE module IN (?)`,
+		[modules],
+	);
+	return new Map(
+		(rows as AppliedRow[]).map((r) => [`${r.module}:${r.version}`, r]),
+	);
+}
+
+/** Runs `fn` holding the cross-node advisory lock on a dedicated connection. */
+async function withMigrationLock<T>(
+	datasource: string,
+	timeoutSec: number,
+	fn: (conn: PoolConnection) => Promise<T>,
+): Promise<T> {
+	const conn = await getDatasourcePool(datasource).getConnection();
+	try {
+		const [rows] = await conn.query("SELECT GET_LOCK(?, ?) AS acquired", [
+			LOCK_NAME,
+			timeoutSec,
+		]);
+		if ((rows as Array<{ acquired: number | null }>)[0]?.acquired !== 1) {
+			throw new MigrationError(
+				`could not acquire "${LOCK_NAME}" within ${timeoutSec}s (another node is migrating?)`,
+			);
+		}
+		try {
+			return await fn(conn);
+		} finally {
+			await conn.query("SELECT RELEASE_LOCK(?)", [LOCK_NAME]);
+		}
+	} finally {
+		conn.release();
+	}
+}
+
+/** Sources grouped by the datasource their tables live in. */
+function byDatasource(
+	sources: MigrationSource[],
+): Map<string, MigrationSource[]> {
+	const groups = new Map<string, MigrationSource[]>();
+	for (const source of sources) {
+		const ds = source.datasource ?? DEFAULT_DATASOURCE;
+		groups.set(ds, [...(groups.get(ds) ?? []), source]);
+	}
+	return groups;
+}
+
+function selectSources(module?: string): MigrationSource[] {
+	if (!module) return [...registry.values()];
+	const source = registry.get(module);
+	if (!source) {
+		throw new MigrationError(
+			`no migrations registered for "${module}"`,
+			module,
+		);
+	}
+	return [source];
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                Public API                                  */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Registers the migrations folder of a module. Call once per module before
+ * runMigrations(); registering the same module again replaces the entry.
+ */
+export function registerMigrations(source: MigrationSource): void {
+	registry.set(source.module, source);
+}
+
+export function registeredMigrations(): MigrationSource[] {
+	return [...registry.values()];
+}
+
+/** Reads and parses the migration files of a module, sorted by version. */
+export async function readMigrations(
+	source: MigrationSource,
+): Promise<MigrationFile[]> {
+	let entries: string[];
+	try {
+		entries = await fs.readdir(source.dir);
+	} catch {
+		return [];
+	}
+
+	const files: MigrationFile[] = [];
+	for (const entry of entries.sort()) {
+		const match = FILE_PATTERN.exec(entry);
+		if (!match) continue;
+		const file = path.join(source.dir, entry);
+		const sql = await fs.readFile(file, "utf8");
+		files.push({
+			module: source.module,
+			version: Number(match[1]),
+			name: match[2],
+			file,
+			checksum: createHash("sha256").update(sql).digest("hex"),
+			statements: splitStatements(sql),
+		});
+	}
+
+	files.sort((a, b) => a.version - b.version);
+	for (let i = 1; i < files.length; i++) {
+		if (files[i].version === files[i - 1].version) {
+			throw new MigrationError(
+				`duplicate migration version ${files[i].version}: ${path.basename(files[i - 1].file)}, ${path.basename(files[i].file)}`,
+				source.module,
+				files[i].file,
+			);
+		}
+	}
+	return files;
+}
+
+/**
+ * Fails if two registered modules declare the same table name. Checked before
+ * every run (together with the owners already recorded in the database):
+ * otherwise the second module's CREATE TABLE IF NOT EXISTS silently targets
+ * the first one's table.
+ */
+export async function assertNoTableConflicts(
+	sources: MigrationSource[] = registeredMigrations(),
+): Promise<void> {
+	// Same table name in two different databases is fine
+	const owners = new Map<string, string>();
+	const conflicts: string[] = [];
+	for (const source of sources) {
+		const ds = source.datasource ?? DEFAULT_DATASOURCE;
+		const tables = declaredTables(source, await readMigrations(source));
+		for (const table of tables) {
+			const owner = owners.get(`${ds}:${table}`);
+			if (owner && owner !== source.module) {
+				conflicts.push(`"${table}" (${owner}, ${source.module})`);
+			} else {
+				owners.set(`${ds}:${table}`, source.module);
+			}
+		}
+	}
+	if (conflicts.length) {
+		throw new MigrationError(
+			`tables declared by more than one module: ${conflicts.join(", ")}`,
+		);
+	}
+}
+
+/** Applied / pending / changed (checksum mismatch) state of every migration. */
+export async function migrationStatus(
+	module?: string,
+): Promise<MigrationStatus[]> {
+	const out: MigrationStatus[] = [];
+	for (const [datasource, sources] of byDatasource(selectSources(module))) {
+		const conn = await getDatasourcePool(datasource).getConnection();
+		try {
+			const applied = await readApplied(
+				conn,
+				sources.map((s) => s.module),
+			);
+			for (const source of sources) {
+				for (const f of await readMigrations(source)) {
+					const row = applied.get(`${f.module}:${f.version}`);
+					out.push({
+						module: f.module,
+						version: f.version,
+						name: f.name,
+						state: !row
+							? "pending"
+							: row.checksum === f.checksum
+								? "applied"
+								: "changed",
+						appliedAt: row?.applied_at,
+					});
+				}
+			}
+		} finally {
+			conn.release();
+		}
+	}
+	return out;
+}
+
+/**
+ * Applies pending migrations of the registered modules (or just `module`).
+ *
+ * MySQL commits DDL implicitly, so each file is recorded right after its
+ * statements succeed: a failure leaves earlier files applied and reports the
+ * failing file and statement.
+ */
+export async function runMigrations(
+	opts: RunMigrationsOptions = {},
+): Promise<MigrationRunResult> {
+	const sources = selectSources(opts.module);
+	await assertNoTableConflicts(registeredMigrations());
+
+	const applied: MigrationFile[] = [];
+	for (const [datasource, group] of byDatasource(sources)) {
+		applied.push(...(await migrateDatasource(datasource, group, opts)));
+	}
+	return { applied, dryRun: !!opts.dryRun };
+}
+
+/** runMigrations() for the sources that live in one datasource. */
+async function migrateDatasource(
+	datasource: string,
+	sources: MigrationSource[],
+	opts: RunMigrationsOptions,
+): Promise<MigrationFile[]> {
+	const owned = new Map<string, Set<string>>();
+	for (const source of sources) {
+		owned.set(
+			source.module,
+			declaredTables(source, await readMigrations(source)),
+		);
+	}
+
+	const collectPending = async (conn: PoolConnection) => {
+		await assertTableOwnership(conn, owned);
+		const applied = await readApplied(
+			conn,
+			sources.map((s) => s.module),
+		);
+		const pending: MigrationFile[] = [];
+		for (const source of sources) {
+			for (const f of await readMigrations(source)) {
+				const row = applied.get(`${f.module}:${f.version}`);
+				if (!row) {
+					pending.push(f);
+				} else if (row.checksum !== f.checksum) {
+					console.warn(
+						`[@trp/db-mysql] ${f.module} migration ${f.version}_${f.name} changed after being applied; it will not run again`,
+					);
+				}
+			}
+		}
+		return pending;
+	};
+
+	// Dry run: read-only, no lock and no bookkeeping table
+	if (opts.dryRun) {
+		const conn = await getDatasourcePool(datasource).getConnection();
+		try {
+			return await collectPending(conn);
+		} finally {
+			conn.release();
+		}
+	}
+
+	const timeoutSec = opts.lockTimeoutSec ?? 60;
+	return withMigrationLock(datasource, timeoutSec, async (conn) => {
+		await ensureMigrationsTable(conn);
+		const pending = await collectPending(conn);
+
+		for (const f of pending) {
+			for (const [i, stmt] of f.statements.entries()) {
+				try {
+					await conn.query(stmt);
+				} catch (err) {
+					throw new MigrationError(
+						`${f.module} ${path.basename(f.file)} failed at statement ${i + 1}: ${(err as Error).message}`,
+						f.module,
+						f.file,
+					);
+				}
+			}
+			await conn.query(
+				`INSERT INTO \`${MIGRATIONS_TABLE}\` (module, version, name, checksum) VALUES (?, ?, ?, ?)`,
+				[f.module, f.version, f.name, f.checksum],
+			);
+			console.log(`[@trp/db-mysql] applied ${f.module} ${f.version}_${f.name}`);
+		}
+		for (const [module, tables] of owned) {
+			for (const table of tables) {
+				await conn.query(
+					`INSERT IGNORE INTO \`${OWNERS_TABLE}\` (table_name, module) VALUES (?, ?)`,
+					[table, module],
+				);
+			}
+		}
+		return pending;
+	});
+}
@@ -1,23 +1,67 @@
 import { createPinia } from "pinia";
 import { createApp, type App, type Component } from "vue";
+import { TrpComponents, type TrpComponentsOptions } from "./components/plugin";
 
 interface BootstrapOptions {
 	rootComponent: Component;
 	plugins?: Array<(app: App) => void>;
 	rootElementId?: string;
+	/** TRP component library (global components, theme, navigation); false to skip it */
+	components?: TrpComponentsOptions | false;
+}
+
+declare global {
+	interface Window {
+		/** Injected by the game into every NUI page */
+		invokeNative?: unknown;
+		/** Resource that owns the page; stubbed by ./dev outside the game */
+		GetParentResourceName?: () => string;
+		/** Set by ./dev under `pnpm dev:nui` */
+		__TRP_NUI_DEV__?: boolean;
+	}
+}
+
+/**
+ * True when running in a normal browser instead of the game's NUI frame
+ * (the game injects invokeNative into every NUI page).
+ */
+export function isEnvBrowser(): boolean {
+	return typeof window.invokeNative !== "function";
+}
+
+/** True under `pnpm dev:nui` (mocked game environment, see ./dev). */
+export function isNuiDev(): boolean {
+	return window.__TRP_NUI_DEV__ === true;
 }
 
 export function createNUI(options: BootstrapOptions): App {
-	const { rootComponent, plugins = [], rootElementId = "#app" } = options;
+	const {
+		rootComponent,
+		plugins = [],
+		rootElementId = "#app",
+		components = {},
+	} = options;
 
 	const app = createApp(rootComponent);
 
 	// Always add Pinia
 	app.use(createPinia());
 
+	if (components) app.use(TrpComponents, components);
+
 	// Add custom plugins
 	plugins.forEach((plugin) => plugin(app));
 
+	if (isEnvBrowser()) {
+		// Lets styles give the page a backdrop outside the game
+		document.documentElement.dataset.nuiEnv = "browser";
+		if (!isNuiDev()) {
+			console.warn(
+				"[@trp/nui] running outside the game without the dev server: NUI callbacks will fail (use pnpm dev:nui)",
+			);
+		}
+	}
+
 	app.mount(rootElementId);
 
 	return app;
@@ -0,0 +1,145 @@
+import { clientRpc, globalSlot } from "@trp/rpc";
+import {
+	DEFAULT_VIEW_OPTIONS,
+	ViewEvents,
+	type OpenView,
+	type ViewOptions,
+	type ViewRpc,
+	type ViewStack,
+} from "../views";
+
+/**
+ * Game-client side of the views (see ../views): the stack of open panels of
+ * this resource's NUI and its focus.
+ *
+ * @example
+ *   openView("inventory", { data: items });
+ *   openView("hud", { keyboard: false, mouse: false, keepInput: true });
+ *   onViewClosed((name) => name === "inventory" && saveLayout());
+ */
+
+export interface OpenViewOptions extends ViewOptions {
+	/** Initial data of the panel (OpenView.data in the NUI). */
+	data?: unknown;
+}
+
+/** ESC (pause menu) and back (Backspace / gamepad B). */
+const CONTROL_PAUSE = 200;
+const CONTROL_BACK = 202;
+
+type ViewsState = {
+	stack: ViewStack;
+	closedHandlers: Set<(name: string) => void>;
+	/** setTick id while the top view lacks keyboard focus and closes on back */
+	backTick?: number;
+	listening: boolean;
+};
+
+// Shared by every client script of the resource: there is a single NUI frame
+const viewsState = () =>
+	globalSlot<ViewsState>("__TRP_NUI_VIEWS__", () => ({
+		stack: [],
+		closedHandlers: new Set(),
+		listening: false,
+	}));
+
+function rpc() {
+	const state = viewsState();
+	const views = clientRpc<ViewRpc>();
+	if (!state.listening) {
+		state.listening = true;
+		views.handleNui(ViewEvents.close, (req) => {
+			closeView(req?.name);
+		});
+	}
+	return views;
+}
+
+function top(): OpenView | undefined {
+	const { stack } = viewsState();
+	return stack[stack.length - 1];
+}
+
+/**
+ * Focus follows the top-most view. While it lacks the keyboard and closes on
+ * back, the game's ESC/back close it instead of opening the pause menu.
+ */
+function sync(): void {
+	const state = viewsState();
+	const current = top();
+	SetNuiFocus(!!current?.keyboard, !!current?.mouse);
+	SetNuiFocusKeepInput(!!current?.keepInput);
+
+	const needsBackTick = !!current && current.closeOnBack && !current.keyboard;
+	if (needsBackTick && state.backTick === undefined) {
+		state.backTick = setTick(() => {
+			DisableControlAction(0, CONTROL_PAUSE, true);
+			const pressed =
+				IsDisabledControlJustReleased(0, CONTROL_PAUSE) ||
+				IsControlJustReleased(0, CONTROL_BACK);
+			if (pressed && top()?.closeOnBack) closeView();
+		});
+	} else if (!needsBackTick && state.backTick !== undefined) {
+		clearTick(state.backTick);
+		state.backTick = undefined;
+	}
+
+	rpc().sendNui(ViewEvents.stack, state.stack);
+}
+
+/** Opens a view on top (or raises it and updates its options if already open). */
+export function openView(name: string, options: OpenViewOptions = {}): void {
+	const state = viewsState();
+	const { data, ...focus } = options;
+	state.stack = state.stack.filter((view) => view.name !== name);
+	state.stack.push({
+		...DEFAULT_VIEW_OPTIONS,
+		...focus,
+		// Without the keyboard, ESC stays the pause menu unless asked otherwise
+		closeOnBack: focus.closeOnBack ?? focus.keyboard ?? true,
+		name,
+		data,
+	});
+	sync();
+}
+
+/**
+ * Closes a view (the top-most one if no name). Closing the last view
+ * releases the NUI focus. Returns false if it was not open.
+ */
+export function closeView(name?: string): boolean {
+	const state = viewsState();
+	const target = name ?? top()?.name;
+	const index = state.stack.findIndex((view) => view.name === target);
+	if (target === undefined || index < 0) return false;
+	state.stack.splice(index, 1);
+	sync();
+	for (const handler of state.closedHandlers) {
+		try {
+			handler(target);
+		} catch (err) {
+			console.error(`[@trp/nui] onViewClosed handler failed:`, err);
+		}
+	}
+	return true;
+}
+
+export function closeAllViews(): void {
+	for (const view of [...viewsState().stack].reverse()) closeView(view.name);
+}
+
+export function isViewOpen(name: string): boolean {
+	return viewsState().stack.some((view) => view.name === name);
+}
+
+/** Open views, bottom to top. */
+export function getViewStack(): readonly OpenView[] {
+	return viewsState().stack;
+}
+
+/** Called after a view closes (by code, ESC/back or the NUI). Returns an unsubscribe. */
+export function onViewClosed(handler: (name: string) => void): () => void {
+	const { closedHandlers } = viewsState();
+	closedHandlers.add(handler);
+	return () => closedHandlers.delete(handler);
+}
@@ -1 +1,30 @@
-export { default as InputField } from "./InputField.vue";
+export { default as NuiView } from "./NuiView.vue";
+export { default as TrpButton } from "./TrpButton.vue";
+export { default as TrpContextMenu } from "./TrpContextMenu.vue";
+export { default as TrpInput } from "./TrpInput.vue";
+export { default as TrpList } from "./TrpList.vue";
+export { default as TrpModal } from "./TrpModal.vue";
+export { default as TrpProgress } from "./TrpProgress.vue";
+export { default as TrpRadialMenu } from "./TrpRadialMenu.vue";
+export { default as TrpTable } from "./TrpTable.vue";
+export { default as TrpToasts } from "./TrpToasts.vue";
+export * from "./plugin";
+export * from "./types";
+
+import type { components } from "./plugin";
+
+// Types of the globally registered components in templates
+declare module "vue" {
+	interface GlobalComponents {
+		NuiView: (typeof components)["NuiView"];
+		TrpButton: (typeof components)["TrpButton"];
+		TrpContextMenu: (typeof components)["TrpContextMenu"];
+		TrpInput: (typeof components)["TrpInput"];
+		TrpList: (typeof components)["TrpList"];
+		TrpModal: (typeof components)["TrpModal"];
+		TrpProgress: (typeof components)["TrpProgress"];
+		TrpRadialMenu: (typeof components)["TrpRadialMenu"];
+		TrpTable: (typeof components)["TrpTable"];
+		TrpToasts: (typeof components)["TrpToasts"];
+	}
+}
@@ -0,0 +1,56 @@
+import type { App, Plugin } from "vue";
+import { installNavigation } from "../navigation";
+import {
+	applyTheme,
+	DEFAULT_THEME,
+	THEME_MESSAGE,
+	type TrpThemeOverrides,
+} from "../theme";
+import NuiView from "./NuiView.vue";
+import TrpButton from "./TrpButton.vue";
+import TrpContextMenu from "./TrpContextMenu.vue";
+import TrpInput from "./TrpInput.vue";
+import TrpList from "./TrpList.vue";
+import TrpModal from "./TrpModal.vue";
+import TrpProgress from "./TrpProgress.vue";
+import TrpRadialMenu from "./TrpRadialMenu.vue";
+import TrpTable from "./TrpTable.vue";
+import TrpToasts from "./TrpToasts.vue";
+
+export interface TrpComponentsOptions {
+	/** Build-time theme overrides; the server's `nui.theme` arrives later over THEME_MESSAGE. */
+	theme?: TrpThemeOverrides;
+	/** Gamepad navigation (D-pad, A, B). Default true. */
+	gamepad?: boolean;
+}
+
+export const components = {
+	NuiView,
+	TrpButton,
+	TrpContextMenu,
+	TrpInput,
+	TrpList,
+	TrpModal,
+	TrpProgress,
+	TrpRadialMenu,
+	TrpTable,
+	TrpToasts,
+};
+
+/**
+ * Registers the components globally, applies the theme (defaults, then the
+ * options, then whatever the client pushes) and installs keyboard/gamepad
+ * navigation. createNUI() installs it unless told otherwise.
+ */
+export const TrpComponents: Plugin<[TrpComponentsOptions?]> = {
+	install(app: App, options: TrpComponentsOptions = {}) {
+		for (const [name, component] of Object.entries(components)) {
+			app.component(name, component);
+		}
+		applyTheme({ ...DEFAULT_THEME, ...options.theme });
+		window.addEventListener("message", (event) => {
+			if (event.data?.type === THEME_MESSAGE) applyTheme(event.data.payload);
+		});
+		installNavigation({ gamepad: options.gamepad });
+	},
+};
@@ -0,0 +1,86 @@
+/** Validation rule of TrpInput: true, or the error message. */
+export type InputRule = (value: string | number) => true | string;
+
+/** Common rules; messages can be replaced: required("Obligatorio"). */
+export const rules = {
+	required:
+		(message = "Required"): InputRule =>
+		(value) =>
+			String(value).trim() !== "" || message,
+	minLength:
+		(min: number, message = `At least ${min} characters`): InputRule =>
+		(value) =>
+			String(value).length >= min || message,
+	maxLength:
+		(max: number, message = `At most ${max} characters`): InputRule =>
+		(value) =>
+			String(value).length <= max || message,
+	pattern:
+		(regex: RegExp, message = "Invalid format"): InputRule =>
+		(value) =>
+			regex.test(String(value)) || message,
+	range:
+		(
+			min: number,
+			max: number,
+			message = `Between ${min} and ${max}`,
+		): InputRule =>
+		(value) =>
+			(Number(value) >= min && Number(value) <= max) || message,
+};
+
+export interface MenuItem {
+	label: string;
+	/** Emitted with select; defaults to the label */
+	value?: unknown;
+	icon?: string;
+	disabled?: boolean;
+	danger?: boolean;
+	/** Submenu (context menu only) */
+	children?: MenuItem[];
+}
+
+export interface TableColumn<Row = any> {
+	key: string;
+	label: string;
+	align?: "left" | "center" | "right";
+	sortable?: boolean;
+	/** Cell text; defaults to String(row[key]) */
+	format?: (row: Row) => string;
+}
+
+export type ToastType = "info" | "success" | "warning" | "error";
+
+export interface ToastAction {
+	id: string;
+	label: string;
+}
+
+export interface ToastInput {
+	/** Own id (e.g. the server's); generated if missing */
+	id?: string;
+	type?: ToastType;
+	title?: string;
+	message: string;
+	/** ms on screen; 0 keeps it until dismissed. Default 5000. */
+	duration?: number;
+	actions?: ToastAction[];
+	/** Called with the action id when one of the actions is clicked */
+	onAction?: (actionId: string) => void;
+	/**
+	 * Toasts with the same key merge: the existing one counts up (×2) and
+	 * restarts. Ignored for toasts with actions.
+	 */
+	key?: string;
+	/** Shows the close button. Default true. */
+	dismissible?: boolean;
+}
+
+export interface Toast
+	extends Required<Omit<ToastInput, "title" | "onAction" | "key">> {
+	title?: string;
+	onAction?: (actionId: string) => void;
+	key?: string;
+	/** How many times it was pushed (de-duplicated) */
+	count: number;
+}
@@ -1 +1,4 @@
 export * from "./useNuiEvent";
+export * from "./useNuiRpc";
+export * from "./useViews";
+export * from "./useToasts";
@@ -1,3 +1,4 @@
+import { postNui, type CallOptions } from "@trp/rpc";
 import { onMounted, onUnmounted } from "vue";
 
 export function useNuiEvent<T = any>(
@@ -20,15 +21,8 @@ export function useNuiEvent<T = any>(
 	});
 
 	return {
-		emit: (data: T) => {
-			fetch(`https://${GetParentResourceName()}/${eventName}`, {
-				method: "POST",
-				headers: { "Content-Type": "application/json" },
-				body: JSON.stringify(data),
-			});
-		},
+		// Resolves with the NUI callback's result; rejects with an RpcError
+		emit: <R = unknown>(data: T, opts?: CallOptions) =>
+			postNui(eventName, data, opts) as Promise<R>,
 	};
 }
-
-// Helper to get resource name
-declare function GetParentResourceName(): string;
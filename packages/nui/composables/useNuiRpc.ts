@@ -0,0 +1,26 @@
+import { nuiRpc, type NuiRpc, type RpcContract } from "@trp/rpc";
+import { onUnmounted } from "vue";
+
+/**
+ * Typed calls for a module contract from a component. Listeners added with
+ * onMessage() are removed when the component unmounts.
+ *
+ * @example
+ *   const rpc = useNuiRpc<CoreRpc>();
+ *   const characters = await rpc.callServer("core:getCharacters");
+ */
+export function useNuiRpc<C extends RpcContract>(): NuiRpc<C> {
+	const rpc = nuiRpc<C>();
+	const offs: Array<() => void> = [];
+
+	onUnmounted(() => offs.splice(0).forEach((off) => off()));
+
+	return {
+		...rpc,
+		onMessage(type, handler) {
+			const off = rpc.onMessage(type, handler);
+			offs.push(off);
+			return off;
+		},
+	};
+}
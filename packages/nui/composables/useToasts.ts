@@ -0,0 +1,110 @@
+import { computed, readonly, ref } from "vue";
+import type { Toast, ToastInput } from "../components/types";
+
+const DEFAULT_DURATION_MS = 5000;
+
+const settings = { max: 5 };
+
+/** Shown toasts first, then the queued ones (beyond settings.max). */
+const all = ref<Toast[]>([]);
+const timers = new Map<string, ReturnType<typeof setTimeout>>();
+let nextId = 1;
+
+const visible = computed(() => all.value.slice(0, settings.max));
+const queued = computed(() => Math.max(0, all.value.length - settings.max));
+
+/** Starts the timers of shown toasts that have none yet. */
+function schedule(): void {
+	for (const toast of visible.value) {
+		if (toast.duration > 0 && !timers.has(toast.id)) {
+			timers.set(
+				toast.id,
+				setTimeout(() => dismiss(toast.id), toast.duration),
+			);
+		}
+	}
+}
+
+function restart(id: string): void {
+	clearTimeout(timers.get(id));
+	timers.delete(id);
+	schedule();
+}
+
+function dismiss(id: string): void {
+	clearTimeout(timers.get(id));
+	timers.delete(id);
+	all.value = all.value.filter((toast) => toast.id !== id);
+	// A queued toast may have just moved into view
+	schedule();
+}
+
+/** Toasts with actions never merge: the merged one would lose its id and handler. */
+function mergeable(toast: { key?: string; actions?: unknown[] }): boolean {
+	return toast.key !== undefined && !toast.actions?.length;
+}
+
+function push(input: ToastInput): string {
+	const duplicate = mergeable(input)
+		? all.value.find((toast) => mergeable(toast) && toast.key === input.key)
+		: undefined;
+	if (duplicate) {
+		all.value = all.value.map((toast) =>
+			toast === duplicate
+				? {
+						...toast,
+						title: input.title ?? toast.title,
+						message: input.message,
+						count: toast.count + 1,
+					}
+				: toast,
+		);
+		restart(duplicate.id);
+		return duplicate.id;
+	}
+	const toast: Toast = {
+		type: "info",
+		duration: DEFAULT_DURATION_MS,
+		actions: [],
+		dismissible: true,
+		...input,
+		id: input.id ?? `toast-${nextId++}`,
+		count: 1,
+	};
+	all.value = [...all.value, toast];
+	schedule();
+	return toast.id;
+}
+
+function clear(): void {
+	for (const toast of all.value) dismiss(toast.id);
+}
+
+/** Up to `max` toasts on screen at once; the rest wait in order. Default 5. */
+function configureToasts(next: { max?: number }): void {
+	if (next.max !== undefined) settings.max = Math.max(1, next.max);
+	schedule();
+}
+
+/**
+ * Toast notifications of this NUI, rendered by <TrpToasts>. The list is
+ * page-wide: any component can push. Toasts beyond the maximum wait in a
+ * queue, and toasts pushed with the same `key` merge instead of piling up
+ * (unless they have actions).
+ *
+ * @example
+ *   const { push } = useToasts();
+ *   push({ type: "success", message: "Guardado" });
+ *   push({ message: "Sin conexión", key: "offline", duration: 0 });
+ */
+export function useToasts() {
+	return {
+		toasts: readonly(visible),
+		/** Toasts waiting for room on screen */
+		queued: readonly(queued),
+		push,
+		dismiss,
+		clear,
+		configureToasts,
+	};
+}
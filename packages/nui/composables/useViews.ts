@@ -0,0 +1,78 @@
+import { nuiRpc } from "@trp/rpc";
+import { computed, ref } from "vue";
+import { ViewEvents, type OpenView, type ViewRpc } from "../views";
+
+/** Base z-index of the bottom view; each view above gets +10. */
+const Z_BASE = 100;
+
+const stack = ref<OpenView[]>([]);
+let installed = false;
+
+/** Elements where Backspace edits text instead of going back. */
+function isEditable(target: EventTarget | null): boolean {
+	const el = target as HTMLElement | null;
+	return (
+		!!el &&
+		(el.isContentEditable ||
+			["INPUT", "TEXTAREA", "SELECT"].includes(el.tagName))
+	);
+}
+
+function install() {
+	if (installed) return;
+	installed = true;
+	const rpc = nuiRpc<ViewRpc>();
+	// Page-wide, like the stack: views outlive the components that render them
+	rpc.onMessage(ViewEvents.stack, (next) => {
+		stack.value = next;
+	});
+	window.addEventListener("keydown", (event) => {
+		// A modal, menu or field already used the key
+		if (event.defaultPrevented) return;
+		const back =
+			event.key === "Escape" ||
+			(event.key === "Backspace" && !isEditable(event.target));
+		const current = stack.value[stack.value.length - 1];
+		if (!back || !current?.closeOnBack) return;
+		event.preventDefault();
+		closeView(current.name).catch((err) =>
+			console.warn(`[@trp/nui] could not close view "${current.name}":`, err),
+		);
+	});
+}
+
+/** Asks the client to close a view (the top-most one if no name). */
+function closeView(name?: string): Promise<void> {
+	return nuiRpc<ViewRpc>().callClient(ViewEvents.close, { name });
+}
+
+/**
+ * Open views of this NUI, kept in sync by the client (@trp/nui/client).
+ * ESC (or Backspace outside text fields) closes the top-most view.
+ *
+ * @example
+ *   const views = useViews();
+ *   views.isOpen("inventory");
+ *   views.close("inventory");
+ */
+export function useViews() {
+	install();
+
+	const top = computed(() => stack.value[stack.value.length - 1]);
+
+	function find(name: string): OpenView | undefined {
+		return stack.value.find((view) => view.name === name);
+	}
+
+	return {
+		stack: computed(() => stack.value),
+		top,
+		isOpen: (name: string) => !!find(name),
+		isTop: (name: string) => top.value?.name === name,
+		/** Initial data the client passed to openView(). */
+		data: <T = unknown>(name: string) => find(name)?.data as T | undefined,
+		zIndex: (name: string) =>
+			Z_BASE + 10 * stack.value.findIndex((view) => view.name === name),
+		close: closeView,
+	};
+}
@@ -0,0 +1,219 @@
+import {
+	NUI_SERVER_PROXY,
+	RpcError,
+	serializeError,
+	type CallArgs,
+	type CallResult,
+	type RpcContract,
+	type RpcResponse,
+} from "@trp/rpc";
+import { ViewEvents, type ViewRpc, type ViewStack } from "./views";
+
+/**
+ * Mocked game environment for running a NUI app in a normal browser
+ * (`pnpm dev:nui <module>`). The dev server loads it before the app:
+ * GetParentResourceName() is stubbed, NUI callbacks (fetch to
+ * https://<resource>/<name>) go to the mock handlers and a dev panel sends
+ * the fixtures as NUI messages.
+ *
+ * Mocks and fixtures live next to the app, in `nui/dev/mocks.ts` and
+ * `nui/dev/fixtures.ts` (default exports), and never reach the production
+ * build.
+ */
+
+type MockHandler<F> = (
+	...args: CallArgs<F>
+) => CallResult<F> | Promise<CallResult<F>>;
+
+/** Mock handlers by call name: `client` answers callClient/emit, `server` callServer. */
+export interface NuiMocks<C extends RpcContract = RpcContract> {
+	client?: { [K in keyof C["client"]]?: MockHandler<C["client"][K]> };
+	server?: { [K in keyof C["server"]]?: MockHandler<C["server"][K]> };
+	/** Simulated round-trip time of every call, in ms. Default 0. */
+	latencyMs?: number;
+}
+
+/** A NUI message the dev panel can send (same shape as SendNUIMessage). */
+export interface NuiFixture {
+	type: string;
+	payload?: unknown;
+	/** Sent once when the page loads */
+	onLoad?: boolean;
+}
+
+export type NuiFixtures = Record<string, NuiFixture>;
+
+export interface NuiDevOptions {
+	resource: string;
+	mocks?: NuiMocks;
+	fixtures?: NuiFixtures;
+}
+
+/** Typed helper for `nui/dev/mocks.ts`. */
+export function defineNuiMocks<C extends RpcContract>(
+	mocks: NuiMocks<C>,
+): NuiMocks<C> {
+	return mocks;
+}
+
+/** Typed helper for `nui/dev/fixtures.ts`. */
+export function defineNuiFixtures<F extends NuiFixtures>(fixtures: F): F {
+	return fixtures;
+}
+
+/** Same delivery as SendNUIMessage in game. */
+export function sendNuiMessage(type: string, payload?: unknown): void {
+	window.dispatchEvent(
+		new MessageEvent("message", { data: { type, payload } }),
+	);
+}
+
+/**
+ * Stands in for the client's view stack (@trp/nui/client): fixtures open
+ * views by sending a stack, ESC/back closes them here.
+ */
+function emulateViews(mocks: NuiMocks): void {
+	let stack: ViewStack = [];
+	window.addEventListener("message", (event) => {
+		if (event.data?.type === ViewEvents.stack) stack = event.data.payload;
+	});
+	const close: MockHandler<ViewRpc["client"][typeof ViewEvents.close]> = (
+		req,
+	) => {
+		const target = req?.name ?? stack[stack.length - 1]?.name;
+		sendNuiMessage(
+			ViewEvents.stack,
+			stack.filter((view) => view.name !== target),
+		);
+	};
+	mocks.client = {
+		[ViewEvents.close]: close,
+		...mocks.client,
+	};
+}
+
+async function answer(
+	mocks: NuiMocks,
+	name: string,
+	body: unknown,
+): Promise<RpcResponse> {
+	let table = mocks.client;
+	let call = name;
+	let payload = body;
+	// callServer() goes through the client's proxy callback
+	if (name === NUI_SERVER_PROXY) {
+		const req = body as { name: string; payload?: unknown };
+		table = mocks.server;
+		call = req.name;
+		payload = req.payload;
+	}
+	const handler = table?.[call] as ((payload?: unknown) => unknown) | undefined;
+	try {
+		if (!handler) {
+			throw new RpcError("not_found", `no mock for "${call}"`, call);
+		}
+		if (mocks.latencyMs) {
+			await new Promise((r) => setTimeout(r, mocks.latencyMs));
+		}
+		return { ok: true, result: await handler(payload ?? undefined) };
+	} catch (err) {
+		return { ok: false, error: serializeError(err) };
+	}
+}
+
+function mockFetch(resource: string, mocks: NuiMocks): void {
+	const realFetch = window.fetch.bind(window);
+	const prefix = `https://${resource}/`;
+	window.fetch = async (input, init) => {
+		const url =
+			typeof input === "string"
+				? input
+				: input instanceof URL
+					? input.href
+					: input.url;
+		if (!url.startsWith(prefix)) return realFetch(input, init);
+		const name = url.slice(prefix.length);
+		const body = init?.body ? JSON.parse(String(init.body)) : undefined;
+		const res = await answer(mocks, name, body);
+		const shown = name === NUI_SERVER_PROXY ? `server:${body?.name}` : name;
+		console.debug(`[@trp/nui] ${shown}`, body, "→", res);
+		return new Response(JSON.stringify(res), {
+			headers: { "Content-Type": "application/json" },
+		});
+	};
+}
+
+function mountPanel(fixtures: NuiFixtures): void {
+	const panel = document.createElement("details");
+	panel.id = "trp-nui-dev";
+	panel.style.cssText =
+		"position:fixed;right:8px;bottom:8px;z-index:2147483647;width:320px;" +
+		"padding:6px 8px;font:12px monospace;color:#eee;background:#1e1e1ee6;" +
+		"border:1px solid #555;border-radius:4px";
+
+	const summary = document.createElement("summary");
+	summary.textContent = "NUI dev";
+	summary.style.cursor = "pointer";
+
+	const select = document.createElement("select");
+	const editor = document.createElement("textarea");
+	const type = document.createElement("input");
+	const send = document.createElement("button");
+	for (const el of [select, type, editor, send]) {
+		el.style.cssText = "display:block;width:100%;margin-top:6px;font:inherit";
+	}
+	editor.rows = 8;
+	type.placeholder = "type";
+	send.textContent = "Send message";
+
+	const custom = document.createElement("option");
+	custom.value = "";
+	custom.textContent = "(custom message)";
+	select.append(custom);
+	for (const name of Object.keys(fixtures)) {
+		const option = document.createElement("option");
+		option.value = option.textContent = name;
+		select.append(option);
+	}
+
+	const load = () => {
+		const fixture = fixtures[select.value];
+		type.value = fixture?.type ?? "";
+		editor.value = JSON.stringify(fixture?.payload ?? null, null, 2);
+	};
+	select.onchange = load;
+	send.onclick = () => {
+		try {
+			sendNuiMessage(type.value, JSON.parse(editor.value || "null"));
+			editor.style.outline = "";
+		} catch {
+			// Invalid JSON: flag it, send nothing
+			editor.style.outline = "1px solid #e55";
+		}
+	};
+	if (select.options.length > 1) select.selectedIndex = 1;
+	load();
+
+	panel.append(summary, select, type, editor, send);
+	document.body.append(panel);
+}
+
+/** Installs the mocked environment. Called by the dev server, never in game. */
+export function installNuiDev(options: NuiDevOptions): void {
+	const { resource, fixtures = {} } = options;
+	const mocks: NuiMocks = { ...options.mocks };
+	window.__TRP_NUI_DEV__ = true;
+	window.GetParentResourceName = () => resource;
+	emulateViews(mocks);
+	mockFetch(resource, mocks);
+
+	const ready = () => {
+		mountPanel(fixtures);
+		for (const fixture of Object.values(fixtures)) {
+			if (fixture.onLoad) sendNuiMessage(fixture.type, fixture.payload);
+		}
+	};
+	// After the app's own module script has mounted and added its listeners
+	if (document.readyState === "complete") setTimeout(ready);
+	else window.addEventListener("load", () => setTimeout(ready));
+}
@@ -1 +1,4 @@
 export * from "./bootstrap";
+export * from "./views";
+export * from "./theme";
+export * from "./navigation";
@@ -0,0 +1,122 @@
+/**
+ * Keyboard and gamepad navigation for the TRP components.
+ *
+ * - Arrow keys move the focus between `[data-trp-nav]` elements of the
+ *   active scope (the last `[data-trp-nav-scope]` on the page: an open
+ *   modal, the top-most view) unless a component handled the key first.
+ * - A gamepad drives the same keys: D-pad → arrows, A → Enter, B → Escape
+ *   (so ESC/back closes the top view or modal), with key repeat on hold.
+ */
+
+export interface NavigationOptions {
+	/** Poll connected gamepads. Default true. */
+	gamepad?: boolean;
+}
+
+const NAV = "[data-trp-nav]:not([disabled]):not([aria-disabled='true'])";
+
+/** Standard gamepad mapping: button index → key. */
+const GAMEPAD_KEYS: Record<number, string> = {
+	0: "Enter",
+	1: "Escape",
+	12: "ArrowUp",
+	13: "ArrowDown",
+	14: "ArrowLeft",
+	15: "ArrowRight",
+};
+
+const REPEAT_DELAY_MS = 400;
+const REPEAT_EVERY_MS = 120;
+
+let installed = false;
+
+function scope(): ParentNode {
+	const scopes = document.querySelectorAll("[data-trp-nav-scope]");
+	return scopes[scopes.length - 1] ?? document;
+}
+
+function isTextField(el: Element | null): boolean {
+	return (
+		el instanceof HTMLTextAreaElement ||
+		(el instanceof HTMLInputElement &&
+			!["checkbox", "radio", "range", "button", "submit"].includes(el.type))
+	);
+}
+
+/** Focuses the next/previous navigable element of the active scope. */
+export function moveFocus(step: 1 | -1): void {
+	const items = [...scope().querySelectorAll<HTMLElement>(NAV)].filter(
+		(el) => el.offsetParent !== null,
+	);
+	if (items.length === 0) return;
+	const index = items.indexOf(document.activeElement as HTMLElement);
+	const next =
+		index < 0
+			? step > 0
+				? 0
+				: items.length - 1
+			: (index + step + items.length) % items.length;
+	items[next].focus();
+}
+
+function onKeydown(event: KeyboardEvent): void {
+	if (event.defaultPrevented) return;
+	const active = document.activeElement;
+	// Left/right move the caret inside text fields
+	const horizontal = event.key === "ArrowLeft" || event.key === "ArrowRight";
+	if (horizontal && isTextField(active)) return;
+	if (event.key === "ArrowDown" || event.key === "ArrowRight") moveFocus(1);
+	else if (event.key === "ArrowUp" || event.key === "ArrowLeft") moveFocus(-1);
+	else return;
+	event.preventDefault();
+}
+
+/** Synthetic keydown on the focused element; A also clicks what it can. */
+function press(key: string): void {
+	const target =
+		(document.activeElement as HTMLElement | null) ?? document.body;
+	const event = new KeyboardEvent("keydown", {
+		key,
+		bubbles: true,
+		cancelable: true,
+	});
+	const unhandled = target.dispatchEvent(event);
+	if (key === "Enter" && unhandled && target !== document.body) target.click();
+}
+
+function pollGamepads(): void {
+	const held = new Map<string, number>();
+	const frame = (now: number) => {
+		const pressed = new Set<string>();
+		for (const pad of navigator.getGamepads()) {
+			if (!pad) continue;
+			for (const [index, key] of Object.entries(GAMEPAD_KEYS)) {
+				if (pad.buttons[Number(index)]?.pressed) pressed.add(key);
+			}
+		}
+		for (const key of pressed) {
+			const next = held.get(key);
+			if (next === undefined) {
+				press(key);
+				held.set(key, now + REPEAT_DELAY_MS);
+			} else if (now >= next && key.startsWith("Arrow")) {
+				press(key);
+				held.set(key, now + REPEAT_EVERY_MS);
+			}
+		}
+		for (const key of held.keys()) if (!pressed.has(key)) held.delete(key);
+		requestAnimationFrame(frame);
+	};
+	requestAnimationFrame(frame);
+}
+
+/** Installed once per page by the components plugin. */
+export function installNavigation(options: NavigationOptions = {}): void {
+	if (installed) return;
+	installed = true;
+	window.addEventListener("keydown", onKeydown);
+	if (options.gamepad ?? true) {
+		// Polling starts with the first gamepad: nothing runs without one
+		window.addEventListener("gamepadconnected", pollGamepads, { once: true });
+	}
+}
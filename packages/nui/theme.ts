@@ -0,0 +1,80 @@
+/**
+ * Theme of the TRP components: CSS variables (--trp-<token>) on the page
+ * root. Servers override tokens with the `nui.theme` config; the client
+ * pushes them with a THEME_MESSAGE and the components plugin applies them.
+ *
+ * Imported by game clients too (THEME_MESSAGE, types): no DOM at import time.
+ */
+
+export interface TrpTheme {
+	primary: string;
+	/** Text on primary backgrounds */
+	primaryText: string;
+	surface: string;
+	surfaceAlt: string;
+	border: string;
+	text: string;
+	textMuted: string;
+	success: string;
+	warning: string;
+	danger: string;
+	info: string;
+	/** Focus ring (keyboard/gamepad navigation) */
+	focus: string;
+	/** Modal backdrop */
+	overlay: string;
+	radius: string;
+	font: string;
+}
+
+export const DEFAULT_THEME: TrpTheme = {
+	primary: "#3b82f6",
+	primaryText: "#ffffff",
+	surface: "rgba(17, 24, 39, 0.95)",
+	surfaceAlt: "rgba(31, 41, 55, 0.95)",
+	border: "#374151",
+	text: "#f3f4f6",
+	textMuted: "#9ca3af",
+	success: "#22c55e",
+	warning: "#f59e0b",
+	danger: "#ef4444",
+	info: "#0ea5e9",
+	focus: "#93c5fd",
+	overlay: "rgba(0, 0, 0, 0.5)",
+	radius: "6px",
+	font: "system-ui, sans-serif",
+};
+
+/** Theme overrides; extra keys become extra variables (--trp-<key>). */
+export type TrpThemeOverrides = Partial<TrpTheme> & Record<string, string>;
+
+/** client → NUI (SendNUIMessage type): TrpThemeOverrides to apply */
+export const THEME_MESSAGE = "trp:theme";
+
+/** CSS variables of a theme: { primaryText: "#fff" } → { "--trp-primary-text": "#fff" } */
+export function themeVars(theme: TrpThemeOverrides): Record<string, string> {
+	const vars: Record<string, string> = {};
+	for (const [token, value] of Object.entries(theme)) {
+		const name = token.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`);
+		vars[`--trp-${name}`] = value;
+	}
+	return vars;
+}
+
+interface StyleTarget {
+	style: { setProperty(name: string, value: string): void };
+}
+
+/** Sets the theme's variables on `target` (default: the page root). */
+export function applyTheme(
+	theme: TrpThemeOverrides,
+	target?: StyleTarget,
+): void {
+	const el =
+		target ??
+		(globalThis as unknown as { document: { documentElement: StyleTarget } })
+			.document.documentElement;
+	for (const [name, value] of Object.entries(themeVars(theme))) {
+		el.style.setProperty(name, value);
+	}
+}
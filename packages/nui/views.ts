@@ -0,0 +1,57 @@
+import type { RpcContract } from "@trp/rpc";
+
+/**
+ * Views: named panels of a resource's NUI, opened and closed from its client
+ * (@trp/nui/client) and rendered by <NuiView> / useViews() in the NUI.
+ *
+ * The client owns the stack: it decides the NUI focus (the top-most view's
+ * options) and tells the NUI the new order after every change. The NUI only
+ * asks to close (ESC/back) through a NUI callback.
+ */
+
+export interface ViewOptions {
+	/** NUI receives the keyboard. Default true. */
+	keyboard?: boolean;
+	/** NUI receives the mouse (and shows the cursor). Default true. */
+	mouse?: boolean;
+	/** The game keeps receiving input too (walk with a HUD open). Default false. */
+	keepInput?: boolean;
+	/**
+	 * ESC/back closes this view when it is on top. Default true, or false
+	 * for views without keyboard focus (ESC keeps opening the pause menu).
+	 */
+	closeOnBack?: boolean;
+}
+
+export interface OpenView extends Required<ViewOptions> {
+	name: string;
+	/** Whatever the client passed to openView() (initial data of the panel). */
+	data?: unknown;
+}
+
+/** Open views, bottom to top. */
+export type ViewStack = OpenView[];
+
+export const ViewEvents = {
+	/** client → NUI: the whole stack after each change */
+	stack: "trp:view:stack",
+	/** NUI → client: close a view (the top-most one if no name) */
+	close: "trp:view:close",
+} as const;
+
+export interface ViewRpc extends RpcContract {
+	server: {};
+	client: {
+		[ViewEvents.close]: (req: { name?: string }) => void;
+	};
+	nui: {
+		[ViewEvents.stack]: ViewStack;
+	};
+}
+
+export const DEFAULT_VIEW_OPTIONS: Required<ViewOptions> = {
+	keyboard: true,
+	mouse: true,
+	keepInput: false,
+	closeOnBack: true,
+};
@@ -0,0 +1,195 @@
+/**
+ * Client leg: calls its resource's server, answers NUI callbacks and pushes
+ * messages to the NUI.
+ */
+
+import {
+	DEFAULT_TIMEOUT_MS,
+	fx,
+	globalSlot,
+	netEvents,
+	NUI_SERVER_PROXY,
+	RpcError,
+	serializeError,
+	unwrapResponse,
+	type CallArgs,
+	type CallOptions,
+	type CallResult,
+	type NetResponse,
+	type NuiServerRequest,
+	type RpcContract,
+	type RpcResponse,
+} from "./shared";
+
+export type NuiHandler<F> = (
+	...args: CallArgs<F>
+) => CallResult<F> | Promise<CallResult<F>>;
+
+export interface ClientRpc<C extends RpcContract> {
+	/** Calls the server; rejects with an RpcError on failure or timeout. */
+	callServer<K extends keyof C["server"] & string>(
+		name: K,
+		...args: CallArgs<C["server"][K]>
+	): Promise<CallResult<C["server"][K]>>;
+	/** Same API with other call options: rpc.withOptions({ timeoutMs: 30_000 }). */
+	withOptions(opts: CallOptions): ClientRpc<C>;
+	/** Answers a NUI call (registers the NUI callback). Returns an unsubscribe. */
+	handleNui<K extends keyof C["client"] & string>(
+		name: K,
+		handler: NuiHandler<C["client"][K]>,
+	): () => void;
+	/** Pushes a message to the NUI (received by onMessage/useNuiEvent). */
+	sendNui<K extends keyof C["nui"] & string>(
+		type: K,
+		payload: C["nui"][K],
+	): void;
+}
+
+type Pending = {
+	name: string;
+	resolve: (value: unknown) => void;
+	reject: (error: Error) => void;
+	timer: ReturnType<typeof setTimeout>;
+};
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type AnyNuiHandler = (payload?: any) => unknown;
+
+type ClientState = {
+	nextId: number;
+	pending: Map<number, Pending>;
+	nuiHandlers: Map<string, AnyNuiHandler>;
+	/** NUI callback types already registered with the game. */
+	nuiRegistered: Set<string>;
+	listening: boolean;
+};
+
+const clientState = () =>
+	globalSlot<ClientState>("__TRP_RPC_CLIENT__", () => ({
+		nextId: 1,
+		pending: new Map(),
+		nuiHandlers: new Map(),
+		nuiRegistered: new Set(),
+		listening: false,
+	}));
+
+function listen(): void {
+	const state = clientState();
+	if (state.listening) return;
+	state.listening = true;
+	const events = netEvents(fx.GetCurrentResourceName());
+	fx.onNet(events.response, (res: NetResponse) => {
+		const pending = state.pending.get(res.id);
+		if (!pending) return; // timed out already
+		state.pending.delete(res.id);
+		clearTimeout(pending.timer);
+		try {
+			pending.resolve(unwrapResponse(res, pending.name));
+		} catch (err) {
+			pending.reject(err as Error);
+		}
+	});
+	// The NUI reaches the server through this callback (see nuiRpc().callServer)
+	registerNui(NUI_SERVER_PROXY, (req: NuiServerRequest) =>
+		callServerRaw(req.name, req.payload, {
+			timeoutMs:
+				Number.isFinite(req.timeoutMs) && (req.timeoutMs as number) > 0
+					? req.timeoutMs
+					: undefined,
+		}),
+	);
+}
+
+function callServerRaw(
+	name: string,
+	payload: unknown,
+	opts: CallOptions,
+): Promise<unknown> {
+	const state = clientState();
+	listen();
+	const id = state.nextId++;
+	const timeoutMs = opts.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+	return new Promise((resolve, reject) => {
+		const timer = setTimeout(() => {
+			state.pending.delete(id);
+			reject(
+				new RpcError(
+					"timeout",
+					`"${name}" timed out after ${timeoutMs}ms`,
+					name,
+				),
+			);
+		}, timeoutMs);
+		state.pending.set(id, { name, resolve, reject, timer });
+		fx.emitNet(netEvents(fx.GetCurrentResourceName()).request, {
+			id,
+			name,
+			payload,
+		});
+	});
+}
+
+function registerNui(name: string, handler: AnyNuiHandler): void {
+	const state = clientState();
+	state.nuiHandlers.set(name, handler);
+	if (state.nuiRegistered.has(name)) return;
+	state.nuiRegistered.add(name);
+	fx.RegisterNuiCallbackType(name);
+	fx.on(
+		`__cfx_nui:${name}`,
+		async (data: unknown, cb: (res: RpcResponse) => void) => {
+			const current = state.nuiHandlers.get(name);
+			if (!current) {
+				cb({
+					ok: false,
+					error: { code: "not_found", message: `unknown call "${name}"` },
+				});
+				return;
+			}
+			try {
+				// fetch() always sends a body; an empty one means "no payload"
+				const args = data === undefined || data === null ? [] : [data];
+				cb({ ok: true, result: await current(...(args as [])) });
+			} catch (err) {
+				if (!(err instanceof RpcError)) {
+					console.error(`[@trp/rpc] NUI call ${name} failed:`, err);
+				}
+				cb({ ok: false, error: serializeError(err) });
+			}
+		},
+	);
+}
+
+/**
+ * Typed client side of a module contract. Creating it already lets the NUI
+ * call the server (callServer from Vue goes through this client).
+ *
+ * @example
+ *   const rpc = clientRpc<CoreRpc>();
+ *   const characters = await rpc.callServer("core:getCharacters");
+ *   rpc.handleNui("core:close", () => SetNuiFocus(false, false));
+ *   rpc.sendNui("core:player", data);
+ */
+export function clientRpc<C extends RpcContract>(
+	opts: CallOptions = {},
+): ClientRpc<C> {
+	listen();
+	return {
+		callServer(name, ...args) {
+			return callServerRaw(name, args[0], opts) as never;
+		},
+		withOptions(next) {
+			return clientRpc<C>({ ...opts, ...next });
+		},
+		handleNui(name, handler) {
+			registerNui(name, handler as AnyNuiHandler);
+			return () => {
+				const { nuiHandlers } = clientState();
+				if (nuiHandlers.get(name) === handler) nuiHandlers.delete(name);
+			};
+		},
+		sendNui(type, payload) {
+			fx.SendNUIMessage({ type, payload });
+		},
+	};
+}
@@ -0,0 +1,35 @@
+/**
+ * @trp/rpc (typed NUI ↔ client ↔ server calls)
+ *
+ * What it provides:
+ * - A contract type per module (RpcContract), declared once in its shared/
+ *   folder and used by the three legs: calls the server answers, NUI
+ *   callbacks the client answers and messages the client pushes to the NUI.
+ * - serverRpc().handle(): typed handlers that get the caller's source.
+ * - clientRpc(): awaitable callServer(), handleNui() (registers the NUI
+ *   callback type automatically) and sendNui().
+ * - nuiRpc(): awaitable callClient() and callServer() from the browser (the
+ *   latter relayed by the client) and onMessage().
+ * - Timeouts (10s by default, withOptions({ timeoutMs }) to change them) and
+ *   errors that travel back: a handler that throws rejects the caller's
+ *   promise with an RpcError carrying the same code and message.
+ *
+ * Usage:
+ *   // shared/rpc.ts
+ *   export interface CoreRpc extends RpcContract {
+ *     server: { "core:getCharacters": () => CharacterSummary[] };
+ *     client: {};
+ *     nui: {};
+ *   }
+ *   // server
+ *   serverRpc<CoreRpc>().handle("core:getCharacters", (src) => list(src));
+ *   // client (also enables the NUI → server relay)
+ *   clientRpc<CoreRpc>();
+ *   // NUI
+ *   const characters = await nuiRpc<CoreRpc>().callServer("core:getCharacters");
+ */
+
+export * from "./shared";
+export * from "./server";
+export * from "./client";
+export * from "./nui";
@@ -0,0 +1,140 @@
+/**
+ * NUI leg (browser): calls its client through NUI callbacks, reaches the
+ * server through the client and listens to pushed messages.
+ */
+
+import {
+	DEFAULT_TIMEOUT_MS,
+	NUI_PROXY_MARGIN_MS,
+	NUI_SERVER_PROXY,
+	RpcError,
+	unwrapResponse,
+	type CallArgs,
+	type CallOptions,
+	type CallResult,
+	type NuiServerRequest,
+	type RpcContract,
+} from "./shared";
+
+export interface NuiRpc<C extends RpcContract> {
+	/** Calls a NUI callback of the client; rejects with an RpcError. */
+	callClient<K extends keyof C["client"] & string>(
+		name: K,
+		...args: CallArgs<C["client"][K]>
+	): Promise<CallResult<C["client"][K]>>;
+	/** Calls the server (through the client); rejects with an RpcError. */
+	callServer<K extends keyof C["server"] & string>(
+		name: K,
+		...args: CallArgs<C["server"][K]>
+	): Promise<CallResult<C["server"][K]>>;
+	/** Same API with other call options: rpc.withOptions({ timeoutMs: 30_000 }). */
+	withOptions(opts: CallOptions): NuiRpc<C>;
+	/** Listens to a message pushed by the client. Returns an unsubscribe. */
+	onMessage<K extends keyof C["nui"] & string>(
+		type: K,
+		handler: (payload: C["nui"][K]) => void,
+	): () => void;
+}
+
+/** The bits of the browser's window used here (no DOM lib in game builds). */
+interface NuiWindow {
+	GetParentResourceName?: () => string;
+	addEventListener(type: "message", listener: (e: MessageEvent) => void): void;
+	removeEventListener(
+		type: "message",
+		listener: (e: MessageEvent) => void,
+	): void;
+}
+
+const nuiWindow = globalThis as unknown as NuiWindow;
+
+/** Name of the resource that owns this NUI ("nui-frame-app" outside the game). */
+function parentResource(): string {
+	return nuiWindow.GetParentResourceName?.() ?? "nui-frame-app";
+}
+
+/** Raw NUI callback call, untyped. */
+export async function postNui(
+	name: string,
+	payload?: unknown,
+	opts: CallOptions = {},
+): Promise<unknown> {
+	const timeoutMs = opts.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+	const controller = new AbortController();
+	const timer = setTimeout(() => controller.abort(), timeoutMs);
+	let body: unknown;
+	try {
+		const response = await fetch(`https://${parentResource()}/${name}`, {
+			method: "POST",
+			headers: { "Content-Type": "application/json; charset=UTF-8" },
+			body: JSON.stringify(payload ?? null),
+			signal: controller.signal,
+		});
+		if (!response.ok) {
+			throw new Error(`HTTP ${response.status}`);
+		}
+		// cb() with nothing sends an empty body
+		const text = await response.text();
+		body = text ? JSON.parse(text) : undefined;
+	} catch (err) {
+		if (controller.signal.aborted) {
+			throw new RpcError(
+				"timeout",
+				`"${name}" timed out after ${timeoutMs}ms`,
+				name,
+			);
+		}
+		throw new RpcError(
+			"transport",
+			`"${name}" failed: ${err instanceof Error ? err.message : String(err)}`,
+			name,
+		);
+	} finally {
+		clearTimeout(timer);
+	}
+	// Legacy callbacks (cb({}), cb("ok")) answer without an RpcResponse envelope
+	const isEnvelope =
+		typeof body === "object" &&
+		body !== null &&
+		typeof (body as { ok?: unknown }).ok === "boolean";
+	return unwrapResponse(isEnvelope ? body : { ok: true, result: body }, name);
+}
+
+/**
+ * Typed NUI side of a module contract.
+ *
+ * @example
+ *   const rpc = nuiRpc<CoreRpc>();
+ *   const characters = await rpc.callServer("core:getCharacters");
+ *   await rpc.callClient("core:close");
+ *   const off = rpc.onMessage("core:player", (player) => store.set(player));
+ */
+export function nuiRpc<C extends RpcContract>(
+	opts: CallOptions = {},
+): NuiRpc<C> {
+	return {
+		callClient(name, ...args) {
+			return postNui(name, args[0], opts) as never;
+		},
+		callServer(name, ...args) {
+			// The client proxy waits timeoutMs for the server; the fetch a bit longer
+			const timeoutMs = opts.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+			const req: NuiServerRequest = { name, payload: args[0], timeoutMs };
+			return postNui(NUI_SERVER_PROXY, req, {
+				...opts,
+				timeoutMs: timeoutMs + NUI_PROXY_MARGIN_MS,
+			}) as never;
+		},
+		withOptions(next) {
+			return nuiRpc<C>({ ...opts, ...next });
+		},
+		onMessage(type, handler) {
+			const listener = (event: MessageEvent) => {
+				const data = event.data as { type?: unknown; payload?: unknown };
+				if (data?.type === type) handler(data.payload as never);
+			};
+			nuiWindow.addEventListener("message", listener);
+			return () => nuiWindow.removeEventListener("message", listener);
+		},
+	};
+}
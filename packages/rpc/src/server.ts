@@ -0,0 +1,98 @@
+/**
+ * Server leg: answers calls from this resource's clients (and, through them,
+ * from its NUI).
+ */
+
+import {
+	fx,
+	globalSlot,
+	netEvents,
+	RpcError,
+	serializeError,
+	type CallArgs,
+	type CallResult,
+	type NetRequest,
+	type NetResponse,
+	type RpcContract,
+} from "./shared";
+
+/** Server handlers also get the calling player's source. */
+export type ServerHandler<F> = (
+	source: number,
+	...args: CallArgs<F>
+) => CallResult<F> | Promise<CallResult<F>>;
+
+export interface ServerRpc<C extends RpcContract> {
+	/** Handles a call; returns a function that removes the handler. */
+	handle<K extends keyof C["server"] & string>(
+		name: K,
+		handler: ServerHandler<C["server"][K]>,
+	): () => void;
+}
+
+type ServerState = {
+	// eslint-disable-next-line @typescript-eslint/no-explicit-any
+	handlers: Map<string, ServerHandler<any>>;
+	listening: boolean;
+};
+
+async function answer(
+	state: ServerState,
+	source: number,
+	req: NetRequest,
+): Promise<NetResponse> {
+	const handler = state.handlers.get(req.name);
+	if (!handler) {
+		return {
+			id: req.id,
+			ok: false,
+			error: { code: "not_found", message: `unknown call "${req.name}"` },
+		};
+	}
+	try {
+		const args = req.payload === undefined ? [] : [req.payload];
+		return { id: req.id, ok: true, result: await handler(source, ...args) };
+	} catch (err) {
+		if (!(err instanceof RpcError)) {
+			console.error(`[@trp/rpc] ${req.name} failed (source ${source}):`, err);
+		}
+		return { id: req.id, ok: false, error: serializeError(err) };
+	}
+}
+
+/**
+ * Typed server side of a module contract.
+ *
+ * @example
+ *   const rpc = serverRpc<CoreRpc>();
+ *   rpc.handle("core:getCharacters", (source) => listCharacters(source));
+ */
+export function serverRpc<C extends RpcContract>(): ServerRpc<C> {
+	// Shared by every server script of the resource: a single net listener
+	// that knows all handlers (otherwise each bundle would answer "not_found")
+	const state = globalSlot<ServerState>("__TRP_RPC_SERVER__", () => ({
+		handlers: new Map(),
+		listening: false,
+	}));
+	if (!state.listening) {
+		state.listening = true;
+		const events = netEvents(fx.GetCurrentResourceName());
+		fx.onNet(events.request, (req: NetRequest) => {
+			const source = fx.source;
+			void answer(state, source, req).then((res) =>
+				fx.emitNet(events.response, source, res),
+			);
+		});
+	}
+	return {
+		handle(name, handler) {
+			if (state.handlers.has(name)) {
+				console.warn(`[@trp/rpc] handler for "${name}" replaced`);
+			}
+			state.handlers.set(name, handler);
+			return () => {
+				if (state.handlers.get(name) === handler) state.handlers.delete(name);
+			};
+		},
+	};
+}
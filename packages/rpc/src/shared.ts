@@ -0,0 +1,174 @@
+/**
+ * Contract types, wire format and errors shared by the three legs.
+ */
+
+/* -------------------------------------------------------------------------- */
+/*                                  Contract                                  */
+/* -------------------------------------------------------------------------- */
+
+/** Request/response calls: name → (payload?) => result. */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type CallMap = Record<string, (payload: any) => unknown>;
+
+/** Fire-and-forget messages: type → payload. */
+export type MessageMap = Record<string, unknown>;
+
+/**
+ * A module's RPC surface, declared once in `[modules]/<mod>/shared`:
+ *   - server: calls handled by the server (from the client, or from the NUI
+ *     through its client);
+ *   - client: calls the NUI makes to its client (NUI callbacks);
+ *   - nui: messages the client pushes to the NUI.
+ *
+ * @example
+ *   export interface CoreRpc extends RpcContract {
+ *     server: { "core:getCharacters": () => CharacterSummary[] };
+ *     client: { "core:close": () => void };
+ *     nui: { "core:player": PlayerData };
+ *   }
+ */
+export interface RpcContract {
+	server: CallMap;
+	client: CallMap;
+	nui: MessageMap;
+}
+
+/** Arguments of a call: none, or its single payload. */
+export type CallArgs<F> = F extends (...args: infer A) => unknown ? A : never;
+
+/** Resolved result of a call. */
+export type CallResult<F> = F extends (...args: never[]) => infer R
+	? Awaited<R>
+	: never;
+
+export interface CallOptions {
+	/** Reject with an RpcError "timeout" after this long. Default 10000. */
+	timeoutMs?: number;
+}
+
+export const DEFAULT_TIMEOUT_MS = 10_000;
+
+/* -------------------------------------------------------------------------- */
+/*                                   Errors                                   */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Known codes: "timeout", "not_found" (no handler for the call), "failed"
+ * (the handler threw), "transport" (network/NUI failure). Handlers may throw
+ * RpcErrors with their own codes ("forbidden", "invalid"...): the code and
+ * message reach the caller's rejected promise unchanged.
+ */
+export class RpcError extends Error {
+	constructor(
+		readonly code: string,
+		message: string,
+		readonly call?: string,
+	) {
+		super(message);
+		this.name = "RpcError";
+	}
+}
+
+/** What crosses the wire in place of an Error. */
+export interface SerializedRpcError {
+	code: string;
+	message: string;
+}
+
+export type RpcResponse =
+	| { ok: true; result: unknown }
+	| { ok: false; error: SerializedRpcError };
+
+export function serializeError(err: unknown): SerializedRpcError {
+	if (err instanceof RpcError) return { code: err.code, message: err.message };
+	return {
+		code: "failed",
+		message: err instanceof Error ? err.message : String(err),
+	};
+}
+
+/** `{ ok: true }` alone is valid: an undefined result does not survive JSON. */
+function isRpcResponse(value: unknown): value is RpcResponse {
+	if (typeof value !== "object" || value === null) return false;
+	const res = value as { ok?: unknown; error?: Partial<SerializedRpcError> };
+	if (res.ok === true) return true;
+	return (
+		res.ok === false &&
+		typeof res.error?.code === "string" &&
+		typeof res.error.message === "string"
+	);
+}
+
+/**
+ * Resolves a response or throws it as an RpcError. Anything that is not an
+ * RpcResponse is rejected as "transport".
+ */
+export function unwrapResponse(res: unknown, call: string): unknown {
+	if (!isRpcResponse(res)) {
+		throw new RpcError(
+			"transport",
+			`"${call}" returned a malformed response`,
+			call,
+		);
+	}
+	if (res.ok) return res.result;
+	throw new RpcError(res.error.code, res.error.message, call);
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 Internals                                  */
+/* -------------------------------------------------------------------------- */
+
+/** Net events are global: they carry the resource so modules never cross. */
+export const netEvents = (resource: string) => ({
+	request: `${resource}:rpc:req`,
+	response: `${resource}:rpc:res`,
+});
+
+/** NUI callback that forwards NUI → server calls through the client. */
+export const NUI_SERVER_PROXY = "trp:rpc:server";
+
+/** Body of a NUI_SERVER_PROXY call: the client waits `timeoutMs` for the server. */
+export interface NuiServerRequest {
+	name: string;
+	payload?: unknown;
+	timeoutMs?: number;
+}
+
+/** Extra wait of the NUI over the proxy's, so the proxy's "timeout" arrives first. */
+export const NUI_PROXY_MARGIN_MS = 1_000;
+
+export interface NetRequest {
+	id: number;
+	name: string;
+	payload?: unknown;
+}
+
+export type NetResponse = RpcResponse & { id: number };
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+/**
+ * FiveM natives used here, read from globalThis so this package type-checks
+ * (and loads) in server, client and browser builds alike.
+ */
+export interface FxNatives {
+	GetCurrentResourceName(): string;
+	on(event: string, handler: (...args: any[]) => void): void;
+	onNet(event: string, handler: (...args: any[]) => void): void;
+	emitNet(event: string, ...args: unknown[]): void;
+	RegisterNuiCallbackType(name: string): void;
+	SendNUIMessage(message: unknown): void;
+	source: number;
+}
+/* eslint-enable @typescript-eslint/no-explicit-any */
+
+export const fx = globalThis as unknown as FxNatives;
+
+/** Per-resource state that survives being bundled into several scripts. */
+export function globalSlot<T>(key: string, init: () => T): T {
+	const symbol = Symbol.for(key);
+	// eslint-disable-next-line @typescript-eslint/no-explicit-any
+	const g = globalThis as any;
+	g[symbol] ??= init();
+	return g[symbol] as T;
+}
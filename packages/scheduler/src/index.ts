@@ -0,0 +1,451 @@
+/**
+ * @trp/scheduler (recurring jobs)
+ *
+ * What it provides:
+ * - Jobs on a cron expression or a fixed interval ("30m"), evaluated in a
+ *   time zone (scheduler default, overridable per job).
+ * - Persistence: the last run of every job lives in the `trp_jobs` table, so
+ *   after a restart missed runs are caught up ("once", "all" or "none").
+ * - Multi-node: each run takes a per-job MySQL advisory lock and re-checks the
+ *   last run under it, so an occurrence runs on one node only.
+ * - Admin listing: listJobs() and upcomingRuns().
+ *
+ * Usage (server-side only):
+ *   import { schedule, startScheduler } from "@trp/scheduler";
+ *   schedule({ name: "core:salaries", cron: "0 * * * *", run: paySalaries });
+ *   schedule({ name: "core:ban-expiry", every: "1m", run: expireBans });
+ *   await startScheduler(); // after waitForDb()
+ */
+
+import {
+	CronExpression,
+	DateWrapper,
+	Duration,
+	type DurationInput,
+} from "@trp/date";
+import {
+	ensureJobsTable,
+	loadJobRecords,
+	saveJobRun,
+	withJobLock,
+	type JobRecord,
+} from "./store";
+
+export {
+	JOBS_TABLE,
+	type JobRecord,
+	type JobRun,
+	type JobStatus,
+} from "./store";
+
+/* -------------------------------------------------------------------------- */
+/*                                   Types                                    */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * What to do with occurrences missed while no node was running the job:
+ * run the latest one once (default), run each of them in order (up to
+ * maxCatchUp, the most recent ones) or skip them.
+ */
+export type CatchUpPolicy = "once" | "all" | "none";
+
+export interface JobContext {
+	name: string;
+	/** The occurrence being run (may be in the past when catching up). */
+	scheduledAt: DateWrapper;
+	catchUp: boolean;
+	/** True when started by runJobNow(). */
+	manual: boolean;
+}
+
+export interface JobDefinition {
+	/** Unique across resources and nodes, e.g. "core:salaries". Max 128 chars. */
+	name: string;
+	/** 5-field cron expression or macro (@hourly, @daily...). */
+	cron?: string;
+	/** Fixed interval between runs, e.g. "30m" or 1_800_000. */
+	every?: DurationInput;
+	/** Time zone for cron fields. Default: the scheduler's. */
+	tz?: string;
+	catchUp?: CatchUpPolicy;
+	/** Cap for catchUp "all". Default 10. */
+	maxCatchUp?: number;
+	/** Take the cross-node lock. Default true; false runs on every node. */
+	singleNode?: boolean;
+	run(ctx: JobContext): unknown | Promise<unknown>;
+}
+
+export interface SchedulerSettings {
+	/** Default time zone for cron jobs. Default "UTC". */
+	timezone?: string;
+	/** False keeps jobs registered (and listed) but never runs them on this node. */
+	enabled?: boolean;
+	/** Datasource holding `trp_jobs` and the locks. Default "default". */
+	datasource?: string;
+}
+
+export interface JobInfo {
+	name: string;
+	/** "cron 0 * * * * (Europe/Madrid)" or "every 30m". */
+	schedule: string;
+	nextRunAt?: DateWrapper;
+	lastRunAt?: DateWrapper;
+	lastStatus?: JobRecord["lastStatus"];
+	lastError?: string;
+	lastDurationMs?: number;
+	runCount: number;
+	running: boolean;
+}
+
+export interface UpcomingRun {
+	name: string;
+	at: DateWrapper;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                           Global (hot-reload safe)                          */
+/* -------------------------------------------------------------------------- */
+
+const SCHEDULER_KEY = Symbol.for("__TRP_SCHEDULER__");
+
+/** setTimeout overflows past ~24.8 days; longer waits are re-planned. */
+const MAX_DELAY_MS = 2 ** 31 - 1;
+
+/** Occurrences enumerated at most when looking for missed runs. */
+const MAX_ENUMERATED = 10_000;
+
+interface Trigger {
+	describe: string;
+	/** Next occurrence strictly after `afterMs`, or undefined if none. */
+	next(afterMs: number): number | undefined;
+	/** True when a recorded run already covers the occurrence at `atMs`. */
+	covers(lastRunAt: number, atMs: number): boolean;
+	/** Realigns on the latest recorded run (intervals count from it). */
+	anchor(lastRunAt: number): void;
+}
+
+type JobState = {
+	def: JobDefinition;
+	trigger: Trigger;
+	record?: JobRecord;
+	nextAt?: number;
+	timer?: ReturnType<typeof setTimeout>;
+	running: boolean;
+};
+
+type SchedulerState = {
+	settings: Required<SchedulerSettings>;
+	jobs: Map<string, JobState>;
+	started: boolean;
+};
+
+const state: SchedulerState =
+	// eslint-disable-next-line @typescript-eslint/no-explicit-any
+	((globalThis as any)[SCHEDULER_KEY] as SchedulerState) ?? {
+		settings: { timezone: "UTC", enabled: true, datasource: "default" },
+		jobs: new Map(),
+		started: false,
+	};
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+(globalThis as any)[SCHEDULER_KEY] = state;
+
+/* -------------------------------------------------------------------------- */
+/*                                 Internals                                  */
+/* -------------------------------------------------------------------------- */
+
+function cronTrigger(expr: string, tz: string): Trigger {
+	const cron = CronExpression.parse(expr);
+	return {
+		describe: `cron ${expr} (${tz})`,
+		next: (afterMs) => cron.next(afterMs, tz)?.toDate().getTime(),
+		covers: (lastRunAt, atMs) => lastRunAt >= atMs,
+		anchor: () => {},
+	};
+}
+
+function intervalTrigger(every: DurationInput): Trigger {
+	const ms = Duration.of(every).ms;
+	if (!(ms > 0)) throw new RangeError(`invalid interval "${String(every)}"`);
+	let origin = Date.now();
+	return {
+		describe: `every ${Duration.of(ms).format()}`,
+		next: (afterMs) => origin + (Math.floor((afterMs - origin) / ms) + 1) * ms,
+		// Nodes that booted at different times disagree on the exact instant;
+		// a run less than half an interval earlier is the same occurrence
+		covers: (lastRunAt, atMs) => lastRunAt > atMs - ms / 2,
+		anchor: (lastRunAt) => {
+			origin = lastRunAt;
+		},
+	};
+}
+
+function triggerFor(def: JobDefinition): Trigger {
+	if (def.cron !== undefined && def.every !== undefined) {
+		throw new Error(`[@trp/scheduler] ${def.name}: use either cron or every`);
+	}
+	if (def.cron !== undefined) {
+		return cronTrigger(def.cron, def.tz ?? state.settings.timezone);
+	}
+	if (def.every !== undefined) return intervalTrigger(def.every);
+	throw new Error(`[@trp/scheduler] ${def.name}: cron or every is required`);
+}
+
+function plan(job: JobState, after = Date.now()): void {
+	clearTimeout(job.timer);
+	job.timer = undefined;
+	job.nextAt = job.trigger.next(after);
+	if (!state.started || !state.settings.enabled || job.nextAt === undefined) {
+		return;
+	}
+	const at = job.nextAt;
+	const delay = Math.max(0, at - Date.now());
+	job.timer = setTimeout(
+		() => {
+			if (delay >= MAX_DELAY_MS) plan(job);
+			else void fire(job, at);
+		},
+		Math.min(delay, MAX_DELAY_MS),
+	);
+	// Never keep a CLI process alive just for a pending job
+	job.timer.unref?.();
+}
+
+async function fire(job: JobState, at: number): Promise<void> {
+	try {
+		await runOccurrence(job, at, { catchUp: false, manual: false });
+	} finally {
+		// A timer may fire a hair early: never plan the same occurrence twice
+		if (state.jobs.get(job.def.name) === job) {
+			plan(job, Math.max(Date.now(), at));
+		}
+	}
+}
+
+/**
+ * Runs one occurrence: under the job's lock (unless singleNode is false),
+ * re-reads the last run so an occurrence already run elsewhere is skipped,
+ * then records the outcome. Never throws.
+ */
+async function runOccurrence(
+	job: JobState,
+	at: number,
+	opts: { catchUp: boolean; manual: boolean },
+): Promise<boolean> {
+	const { def } = job;
+	if (job.running) {
+		console.warn(
+			`[@trp/scheduler] ${def.name}: previous run still in progress; skipping ${new Date(at).toISOString()}`,
+		);
+		return false;
+	}
+	const datasource = state.settings.datasource;
+	job.running = true;
+	try {
+		const execute = async (): Promise<boolean> => {
+			const record = (await loadJobRecords([def.name], datasource)).get(
+				def.name,
+			);
+			job.record = record;
+			if (
+				!opts.manual &&
+				record?.lastRunAt !== undefined &&
+				job.trigger.covers(record.lastRunAt, at)
+			) {
+				job.trigger.anchor(record.lastRunAt);
+				return false;
+			}
+			const t0 = performance.now();
+			let error: string | undefined;
+			try {
+				await def.run({
+					name: def.name,
+					scheduledAt: DateWrapper.from(at),
+					catchUp: opts.catchUp,
+					manual: opts.manual,
+				});
+			} catch (err) {
+				error = (err as Error)?.stack ?? String(err);
+				console.error(`[@trp/scheduler] ${def.name} failed:`, err);
+			}
+			const durationMs = performance.now() - t0;
+			const status = error === undefined ? "ok" : "error";
+			await saveJobRun(
+				def.name,
+				{ scheduledAt: at, status, error, durationMs },
+				datasource,
+			);
+			job.record = {
+				name: def.name,
+				lastRunAt: at,
+				lastStatus: status,
+				lastError: error,
+				lastDurationMs: Math.round(durationMs),
+				runCount: (record?.runCount ?? 0) + 1,
+			};
+			job.trigger.anchor(at);
+			return true;
+		};
+		if (def.singleNode === false) return await execute();
+		const locked = await withJobLock(def.name, datasource, execute);
+		return locked.acquired && locked.value;
+	} catch (err) {
+		// Database unreachable, lock lost...: the occurrence is not recorded,
+		// so the next start catches it up
+		console.error(`[@trp/scheduler] ${def.name}: could not run:`, err);
+		return false;
+	} finally {
+		job.running = false;
+	}
+}
+
+/** Occurrences after `lastRunAt` up to now, oldest first (capped). */
+function missedRuns(job: JobState, lastRunAt: number): number[] {
+	const now = Date.now();
+	const missed: number[] = [];
+	let at = job.trigger.next(lastRunAt);
+	while (at !== undefined && at <= now && missed.length < MAX_ENUMERATED) {
+		missed.push(at);
+		at = job.trigger.next(at);
+	}
+	return missed;
+}
+
+async function catchUp(job: JobState): Promise<void> {
+	const { def, record } = job;
+	const policy = def.catchUp ?? "once";
+	if (record?.lastRunAt === undefined) return;
+	job.trigger.anchor(record.lastRunAt);
+	const missed = missedRuns(job, record.lastRunAt);
+	if (missed.length === 0 || policy === "none") return;
+	const runs =
+		policy === "all" ? missed.slice(-(def.maxCatchUp ?? 10)) : missed.slice(-1);
+	console.log(
+		`[@trp/scheduler] ${def.name}: ${missed.length} missed run(s), catching up ${runs.length}`,
+	);
+	for (const at of runs) {
+		await runOccurrence(job, at, { catchUp: true, manual: false });
+	}
+}
+
+/** Loads the records of `jobs`, catches up what they missed and plans them. */
+async function activate(jobs: JobState[]): Promise<void> {
+	const records = await loadJobRecords(
+		jobs.map((job) => job.def.name),
+		state.settings.datasource,
+	);
+	for (const job of jobs) {
+		job.record = records.get(job.def.name);
+		if (state.settings.enabled) await catchUp(job);
+		else if (job.record?.lastRunAt !== undefined) {
+			job.trigger.anchor(job.record.lastRunAt);
+		}
+		plan(job);
+	}
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                Public API                                  */
+/* -------------------------------------------------------------------------- */
+
+/** Default time zone, whether this node runs jobs and where they are recorded. */
+export function configureScheduler(settings: SchedulerSettings): void {
+	const next = { ...state.settings };
+	for (const [key, value] of Object.entries(settings)) {
+		if (value !== undefined) Object.assign(next, { [key]: value });
+	}
+	state.settings = next;
+}
+
+/**
+ * Registers a job. Before startScheduler() it only waits; afterwards it is
+ * activated at once (catch-up included). Registering a name again replaces
+ * the previous definition (hot reload). Returns a function that removes it.
+ */
+export function schedule(def: JobDefinition): () => void {
+	const job: JobState = { def, trigger: triggerFor(def), running: false };
+	const previous = state.jobs.get(def.name);
+	if (previous) clearTimeout(previous.timer);
+	state.jobs.set(def.name, job);
+	if (state.started) {
+		activate([job]).catch((err) => {
+			console.error(`[@trp/scheduler] ${def.name}: activation failed:`, err);
+			plan(job);
+		});
+	} else {
+		job.nextAt = job.trigger.next(Date.now());
+	}
+	return () => {
+		if (state.jobs.get(def.name) !== job) return;
+		clearTimeout(job.timer);
+		state.jobs.delete(def.name);
+	};
+}
+
+/**
+ * Creates `trp_jobs` if needed, catches up missed runs and starts the timers.
+ * The database must be up (see waitForDb()).
+ */
+export async function startScheduler(): Promise<void> {
+	if (state.started) return;
+	await ensureJobsTable(state.settings.datasource);
+	state.started = true;
+	await activate([...state.jobs.values()]);
+}
+
+/** Stops the timers (runs in progress finish). Jobs stay registered. */
+export function stopScheduler(): void {
+	state.started = false;
+	for (const job of state.jobs.values()) {
+		clearTimeout(job.timer);
+		job.timer = undefined;
+	}
+}
+
+/**
+ * Runs a job now, outside its schedule (still under the cross-node lock).
+ * Resolves to false if it did not run (already running, lock held elsewhere).
+ */
+export async function runJobNow(name: string): Promise<boolean> {
+	const job = state.jobs.get(name);
+	if (!job) throw new Error(`[@trp/scheduler] unknown job "${name}"`);
+	return runOccurrence(job, Date.now(), { catchUp: false, manual: true });
+}
+
+/** Every registered job with its schedule, next and last run. */
+export function listJobs(): JobInfo[] {
+	return [...state.jobs.values()]
+		.map(({ def, trigger, record, nextAt, running }) => ({
+			name: def.name,
+			schedule: trigger.describe,
+			nextRunAt: nextAt === undefined ? undefined : DateWrapper.from(nextAt),
+			lastRunAt:
+				record?.lastRunAt === undefined
+					? undefined
+					: DateWrapper.from(record.lastRunAt),
+			lastStatus: record?.lastStatus,
+			lastError: record?.lastError,
+			lastDurationMs: record?.lastDurationMs,
+			runCount: record?.runCount ?? 0,
+			running,
+		}))
+		.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * The next `limit` runs across all jobs, soonest first (each job contributes
+ * up to `limit` occurrences).
+ */
+export function upcomingRuns(limit = 10): UpcomingRun[] {
+	const runs: Array<{ name: string; at: number }> = [];
+	for (const { def, trigger, nextAt } of state.jobs.values()) {
+		let at = nextAt ?? trigger.next(Date.now());
+		for (let i = 0; i < limit && at !== undefined; i++) {
+			runs.push({ name: def.name, at });
+			at = trigger.next(at);
+		}
+	}
+	return runs
+		.sort((a, b) => a.at - b.at)
+		.slice(0, limit)
+		.map(({ name, at }) => ({ name, at: DateWrapper.from(at) }));
+}
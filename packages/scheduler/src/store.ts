@@ -0,0 +1,145 @@
+/**
+ * Job bookkeeping in the database: one `trp_jobs` row per job with its last
+ * run, and a MySQL advisory lock (GET_LOCK) per job so that on multi-node
+ * setups only one node runs a given occurrence.
+ */
+
+import { createHash } from "node:crypto";
+import { query, withConn } from "@trp/db";
+
+/* -------------------------------------------------------------------------- */
+/*                                   Types                                    */
+/* -------------------------------------------------------------------------- */
+
+export type JobStatus = "ok" | "error";
+
+export interface JobRecord {
+	name: string;
+	/** Epoch ms of the occurrence last run (its scheduled time, not when it finished). */
+	lastRunAt?: number;
+	lastStatus?: JobStatus;
+	lastError?: string;
+	lastDurationMs?: number;
+	runCount: number;
+}
+
+export interface JobRun {
+	scheduledAt: number;
+	status: JobStatus;
+	error?: string;
+	durationMs: number;
+}
+
+type JobRow = {
+	name: string;
+	last_run_at: number | string | null;
+	last_status: JobStatus | null;
+	last_error: string | null;
+	last_duration_ms: number | null;
+	run_count: number;
+};
+
+/* -------------------------------------------------------------------------- */
+/*                                 Internals                                  */
+/* -------------------------------------------------------------------------- */
+
+export const JOBS_TABLE = "trp_jobs";
+
+/** MySQL lock names are limited to 64 characters. */
+function lockName(job: string): string {
+	const name = `trp_job:${job}`;
+	if (name.length <= 64) return name;
+	return `trp_job:${createHash("sha1").update(job).digest("hex")}`;
+}
+
+function toRecord(row: JobRow): JobRecord {
+	return {
+		name: row.name,
+		// BIGINT may come back as a string depending on the driver settings
+		lastRunAt: row.last_run_at === null ? undefined : Number(row.last_run_at),
+		lastStatus: row.last_status ?? undefined,
+		lastError: row.last_error ?? undefined,
+		lastDurationMs: row.last_duration_ms ?? undefined,
+		runCount: row.run_count,
+	};
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                Public API                                  */
+/* -------------------------------------------------------------------------- */
+
+export async function ensureJobsTable(datasource?: string): Promise<void> {
+	await query(
+		`CREATE TABLE IF NOT EXISTS \`${JOBS_TABLE}\` (
+			name VARCHAR(128) NOT NULL PRIMARY KEY,
+			last_run_at BIGINT NULL,
+			last_status VARCHAR(16) NULL,
+			last_error TEXT NULL,
+			last_duration_ms INT NULL,
+			run_count INT NOT NULL DEFAULT 0,
+			updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+		)`,
+		[],
+		{ datasource },
+	);
+}
+
+/** Records of the given jobs, keyed by name (jobs never run are missing). */
+export async function loadJobRecords(
+	names: string[],
+	datasource?: string,
+): Promise<Map<string, JobRecord>> {
+	if (names.length === 0) return new Map();
+	// From the primary: a lagging replica could hide a run from another node
+	const rows = await query<JobRow>(
+		`SELECT name, last_run_at, last_status, last_error, last_duration_ms, run_count FROM \`${JOBS_TABLE}\` WHERE name IN (?)`,
+		[names],
+		{ datasource, readFrom: "primary" },
+	);
+	return new Map(rows.map((row) => [row.name, toRecord(row)]));
+}
+
+export async function saveJobRun(
+	name: string,
+	run: JobRun,
+	datasource?: string,
+): Promise<void> {
+	const error = run.error?.slice(0, 2000) ?? null;
+	const durationMs = Math.round(run.durationMs);
+	await query(
+		`INSERT INTO \`${JOBS_TABLE}\` (name, last_run_at, last_status, last_error, last_duration_ms, run_count)
+		VALUES (?, ?, ?, ?, ?, 1)
+		ON DUPLICATE KEY UPDATE last_run_at = VALUES(last_run_at), last_status = VALUES(last_status),
+			last_error = VALUES(last_error), last_duration_ms = VALUES(last_duration_ms), run_count = run_count + 1`,
+		[name, run.scheduledAt, run.status, error, durationMs],
+		{ datasource },
+	);
+}
+
+/**
+ * Runs `fn` holding the job's advisory lock, without waiting for it: when
+ * another node holds it, resolves to `{ acquired: false }` at once.
+ */
+export async function withJobLock<T>(
+	name: string,
+	datasource: string | undefined,
+	fn: () => Promise<T>,
+): Promise<{ acquired: false } | { acquired: true; value: T }> {
+	const lock = lockName(name);
+	return withConn(
+		async (conn) => {
+			const [rows] = await conn.query("SELECT GET_LOCK(?, 0) AS acquired", [
+				lock,
+			]);
+			if ((rows as Array<{ acquired: number | null }>)[0]?.acquired !== 1) {
+				return { acquired: false };
+			}
+			try {
+				return { acquired: true, value: await fn() };
+			} finally {
+				await conn.query("SELECT RELEASE_LOCK(?)", [lock]);
+			}
+		},
+		{ datasource },
+	);
+}
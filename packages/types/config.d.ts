@@ -1,13 +1,13 @@
 export interface TRPConfig {
+	/** Perfil activo ("single", "dev", "staging", "prod"...). Selecciona config.<env>.* */
+	env?: string;
+	/** Nombre del nodo (por defecto el hostname). Selecciona config.node.<node>.* */
+	node?: string;
 	db?: {
-		mysql?: {
-			host?: string;
-			port?: number;
-			database?: string;
-			user?: string;
-			password?: string;
-			poolLimit?: number;
-		};
+		/** Origen de datos "default" */
+		mysql?: TRPDatasourceConfig;
+		/** Orígenes con nombre: dbFor(schema, { datasource: "audit" }) */
+		datasources?: Record<string, TRPDatasourceConfig>;
 	};
 	redis?: {
 		host?: string;
@@ -15,9 +15,42 @@ export interface TRPConfig {
 		password?: string;
 		db?: number;
 	};
+	date?: {
+		/** Idioma por defecto ("es" | "en"); cada jugador puede tener el suyo */
+		locale?: "es" | "en";
+		/** Formatos con nombre para DateWrapper.preset() */
+		presets?: Record<string, string>;
+	};
+	scheduler?: {
+		/** Zona horaria de los trabajos cron (por defecto "UTC") */
+		timezone?: string;
+		/** false: el nodo no ejecuta trabajos programados */
+		enabled?: boolean;
+	};
+	nui?: {
+		/** Tema de los componentes NUI: { primary: "#e11d48" } → --trp-primary */
+		theme?: Record<string, string>;
+	};
 	logger?: {
 		level?: "trace" | "debug" | "info" | "warn" | "error" | "fatal";
 		pretty?: boolean;
 	};
 	modules?: Record<string, unknown>;
 }
+
+export interface TRPDatasourceConfig {
+	host?: string;
+	port?: number;
+	database?: string;
+	user?: string;
+	password?: string;
+	poolLimit?: number;
+	/** Umbral (ms) del log de consultas lentas */
+	slowQueryMs?: number;
+	/** Fracción (0..1) de consultas que llega a los hooks de onQuery */
+	metricsSampleRate?: number;
+	/** Réplicas de solo lectura; heredan lo que no definan */
+	replicas?: Array<
+		Omit<TRPDatasourceConfig, "replicas" | "slowQueryMs" | "metricsSampleRate">
+	>;
+}
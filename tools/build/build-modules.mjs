@@ -97,7 +97,6 @@ export const buildModule = (withWatch) => async (modDir) => {
 	const external = await getExternalDeps(modDir);
 
 	const common = {
-		entryPoints: allEntries,
 		outdir,
 		outbase: modDir,
 		platform: "node",
@@ -108,25 +107,45 @@ export const buildModule = (withWatch) => async (modDir) => {
 		logLevel: "info",
 		tsconfig,
 		loader: { ".ts": "ts", ".tsx": "tsx" },
-		external,
 	};
+	// Solo el server (Node) resuelve node_modules en runtime; el runtime de
+	// cliente de FiveM no tiene require(), así que client/ y shared/ (que
+	// también corre en el cliente) llevan sus dependencias dentro del bundle
+	// Sus imports de @trp/nui/* (sin package.json) se resuelven con los
+	// paths de tsconfig.client.json
+	const clientTsconfig =
+		tsconfig === path.join(modDir, "tsconfig.json")
+			? tsconfig
+			: path.join(PROJECT_ROOT, "tsconfig.client.json");
+	const builds = [
+		{ ...common, entryPoints: serverEntries, external },
+		{
+			...common,
+			entryPoints: [...clientEntries, ...sharedEntries],
+			tsconfig: clientTsconfig,
+		},
+	].filter((options) => options.entryPoints.length > 0);
 
 	await buildNUIs(name, withWatch);
 
 	if (withWatch) {
 		buildLog.step(`${name}: watch activado`);
-		const ctx = await build({
-			...common,
-			watch: {
-				onRebuild(error) {
-					if (error) buildLog.error(`Rebuild ${name} falló`);
-					else buildLog.ok(`Rebuild ${name}: actualizado`);
-				},
-			},
-		});
+		const ctx = await Promise.all(
+			builds.map((options) =>
+				build({
+					...options,
+					watch: {
+						onRebuild(error) {
+							if (error) buildLog.error(`Rebuild ${name} falló`);
+							else buildLog.ok(`Rebuild ${name}: actualizado`);
+						},
+					},
+				}),
+			),
+		);
 		return ctx;
 	} else {
-		await build(common);
+		await Promise.all(builds.map((options) => build(options)));
 		buildLog.ok(`${name}: módulo compilado en dist/`);
 	}
 };
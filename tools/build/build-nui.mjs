@@ -4,7 +4,7 @@ import { build as viteBuild } from "vite";
 import { buildLog, cleanDir, pathExists, PROJECT_ROOT } from "./utils.mjs";
 
 // --- Available modules ----------------------------------------------------------------
-async function findModules(moduleName) {
+export async function findModules(moduleName) {
 	const folder = path.join(PROJECT_ROOT, "[modules]");
 	if (!(await pathExists(folder))) return [];
 	const entries = await fs.readdir(folder, { withFileTypes: true });
@@ -25,9 +25,10 @@ async function findModules(moduleName) {
 // --- NUI discovery ----------------------------------------------------------
 /**
  * Find NUI in a module.
- * - <mod>/nui/index.html                   -> app "nui"
+ * - <mod>/nui/index.html                   -> app "nui"       (dist/nui)
+ * - <mod>/nui/<app>/index.html             -> app "<app>"     (dist/nui/<app>)
  */
-async function findNuiApps(modDir) {
+export async function findNuiApps(modDir) {
 	const nuiRoot = path.join(modDir, "nui");
 	if (!(await pathExists(nuiRoot))) return [];
 
@@ -42,6 +43,22 @@ async function findNuiApps(modDir) {
 		});
 	}
 
+	// Caso 2: /nui/<app>/index.html (varias apps en el mismo módulo)
+	const entries = await fs.readdir(nuiRoot, { withFileTypes: true });
+	for (const entry of entries) {
+		if (!entry.isDirectory()) continue;
+		const rootDir = path.join(nuiRoot, entry.name);
+		if (!(await pathExists(path.join(rootDir, "index.html")))) continue;
+		apps.push({
+			name: entry.name,
+			rootDir,
+			outDir: path.join(modDir, "dist", "nui", entry.name),
+		});
+	}
+	// En watch, la app raíz no debe vaciar dist/nui: dentro están las demás
+	const root = apps.find((a) => a.rootDir === nuiRoot);
+	if (root && apps.length > 1) root.keepOutDir = true;
+
 	const seen = new Set();
 	return apps.filter((a) => {
 		const key = `${a.name}:${a.rootDir}`;
@@ -52,7 +69,7 @@ async function findNuiApps(modDir) {
 }
 
 async function buildNuiApp(modName, app, withWatch) {
-	// Always clean out dir
+	// Always clean out dir (la app raíz se compila antes que las anidadas)
 	await cleanDir(app.outDir);
 
 	const configFile = path.join(PROJECT_ROOT, "vite.config.ts");
@@ -71,7 +88,7 @@ async function buildNuiApp(modName, app, withWatch) {
 		logLevel: "info",
 		build: {
 			outDir: app.outDir,
-			emptyOutDir: true,
+			emptyOutDir: !app.keepOutDir,
 			sourcemap: false,
 			watch: withWatch ? {} : undefined,
 		},
@@ -0,0 +1,90 @@
+import path from "path";
+import { createServer } from "vite";
+import { findModules, findNuiApps } from "./build-nui.mjs";
+import { buildLog, pathExists, PROJECT_ROOT } from "./utils.mjs";
+
+// --- Entorno de juego simulado -----------------------------------------------
+/**
+ * Plugin de Vite que carga packages/nui/dev.ts antes que la app: stub de
+ * GetParentResourceName(), callbacks NUI → mocks y panel de fixtures.
+ * Mocks y fixtures son opcionales: <app>/dev/mocks.ts y <app>/dev/fixtures.ts.
+ */
+const DEV_ENTRY = "/@trp-nui-dev";
+
+/** Import de un fichero fuera de la raíz de Vite (también en Windows). */
+const fsImport = (file) =>
+	`/@fs/${file.split(path.sep).join("/").replace(/^\//, "")}`;
+
+function nuiDevPlugin(resource, app) {
+	return {
+		name: "trp-nui-dev",
+		apply: "serve",
+		resolveId(id) {
+			return id === DEV_ENTRY ? `\0${DEV_ENTRY}` : undefined;
+		},
+		async load(id) {
+			if (id !== `\0${DEV_ENTRY}`) return undefined;
+			const harness = path.join(PROJECT_ROOT, "packages/nui/dev.ts");
+			const lines = [`import { installNuiDev } from "${fsImport(harness)}";`];
+			const parts = [`resource: ${JSON.stringify(resource)}`];
+			for (const name of ["mocks", "fixtures"]) {
+				const file = path.join(app.rootDir, "dev", `${name}.ts`);
+				if (await pathExists(file)) {
+					lines.push(`import ${name} from "${fsImport(file)}";`);
+					parts.push(name);
+				}
+			}
+			lines.push(`installNuiDev({ ${parts.join(", ")} });`);
+			return lines.join("\n");
+		},
+		transformIndexHtml() {
+			// head-prepend: corre antes que el script de la app
+			return [
+				{
+					tag: "script",
+					attrs: { type: "module", src: DEV_ENTRY },
+					injectTo: "head-prepend",
+				},
+			];
+		},
+	};
+}
+
+// --- Dev server ---------------------------------------------------------------
+/**
+ * Sirve una NUI de un módulo con Vite en modo dev (HMR) para trabajarla en
+ * el navegador, fuera del juego.
+ */
+export async function devNUI(moduleName, { app: appName = "nui", port } = {}) {
+	const [modDir] = await findModules(moduleName);
+	if (!moduleName || !modDir) {
+		throw new Error(
+			`Módulo no encontrado: ${moduleName ?? "(ninguno)"} (uso: pnpm dev:nui <modulo>)`,
+		);
+	}
+	const apps = await findNuiApps(modDir);
+	const app = apps.find((a) => a.name === appName);
+	if (!app) {
+		throw new Error(
+			`${moduleName} no tiene la NUI "${appName}" (disponibles: ${apps.map((a) => a.name).join(", ") || "ninguna"})`,
+		);
+	}
+
+	const resource = path.basename(modDir);
+	const server = await createServer({
+		configFile: path.join(PROJECT_ROOT, "vite.config.ts"),
+		root: app.rootDir,
+		mode: "development",
+		envDir: PROJECT_ROOT,
+		plugins: [nuiDevPlugin(resource, app)],
+		server: {
+			port: port ? Number(port) : undefined,
+			// packages/* y shared/ quedan fuera de la raíz de la app
+			fs: { allow: [PROJECT_ROOT] },
+		},
+	});
+	await server.listen();
+	buildLog.ok(`[${resource}/${app.name}] NUI en modo dev (Ctrl+C para salir)`);
+	server.printUrls();
+	return server;
+}
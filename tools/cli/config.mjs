@@ -0,0 +1,132 @@
+import path from "path";
+import { promises as fs } from "fs";
+import { buildLog, PROJECT_ROOT } from "../build/utils.mjs";
+import { importTS, moduleFiles } from "./runtime.mjs";
+
+// -----------------------------------------------------------------------------
+// trp config check  [--env=<perfil>] [--node=<nodo>] [--strict] [--quiet]
+// trp config schema [--out=config/schemas]
+// -----------------------------------------------------------------------------
+
+/**
+ * Importa @trp/config y los `server/config.ts` de cada módulo, que registran
+ * sus schemas al cargarse.
+ */
+async function loadRegistry() {
+	const config = await importTS("@trp/config");
+	for (const file of await moduleFiles("*/server/config.ts")) {
+		await importTS(file);
+	}
+	return config;
+}
+
+function printSection(config, section, quiet) {
+	const title = section.errors.length
+		? buildLog.error
+		: section.unknownKeys.length
+			? buildLog.warn
+			: buildLog.ok;
+	title(section.target);
+	for (const e of section.errors) console.log(`    ✗ ${e.path}: ${e.message}`);
+	for (const k of section.unknownKeys) {
+		console.log(`    ? ${k}: clave desconocida (el schema la ignora)`);
+	}
+	if (!quiet && section.resolved !== undefined) {
+		const resolved = JSON.stringify(
+			config.redactConfig(section.resolved, section.target),
+			null,
+			2,
+		);
+		console.log(resolved.replace(/^/gm, "    "));
+	}
+}
+
+async function check(flags) {
+	const config = await loadRegistry();
+	const cfg = config.loadConfig({
+		profile: { env: flags.env, node: flags.node },
+		// Offline: las convars solo existen dentro de FXServer
+		loadConvars: false,
+	});
+	const profile = config.activeProfile();
+	buildLog.title(`config check (env=${profile.env}, node=${profile.node})`);
+
+	const report = config.checkConfig(cfg);
+	for (const section of report.sections) {
+		printSection(config, section, flags.quiet);
+	}
+	for (const mod of report.unknownModules) {
+		buildLog.warn(`${mod}: ningún módulo registra un schema para esta clave`);
+	}
+
+	const warnings =
+		report.unknownModules.length +
+		report.sections.reduce((n, s) => n + s.unknownKeys.length, 0);
+	if (!report.ok) {
+		buildLog.error("La config no es válida.");
+		return 1;
+	}
+	if (warnings && flags.strict) {
+		buildLog.error(`${warnings} clave(s) desconocida(s) con --strict.`);
+		return 1;
+	}
+	buildLog.ok(
+		warnings ? `Config válida con ${warnings} aviso(s).` : "Config válida.",
+	);
+	return 0;
+}
+
+async function schema(flags) {
+	const config = await loadRegistry();
+	const outDir = path.resolve(
+		PROJECT_ROOT,
+		typeof flags.out === "string" ? flags.out : "config/schemas",
+	);
+	await fs.mkdir(outDir, { recursive: true });
+
+	// Un archivo por sección + config.schema.json con todas anidadas
+	const root = { type: "object", properties: {} };
+	for (const target of [...config.registeredSchemas().keys()].sort()) {
+		const json = config.configJsonSchema(target);
+		const file = path.join(
+			outDir,
+			`${target.replace(/^modules\./, "")}.schema.json`,
+		);
+		await fs.writeFile(file, JSON.stringify(json, null, "\t") + "\n");
+		buildLog.ok(`${target} → ${path.relative(PROJECT_ROOT, file)}`);
+
+		let node = root;
+		for (const key of target.split(".")) {
+			node.properties[key] ??= { type: "object", properties: {} };
+			node = node.properties[key];
+		}
+		const { $schema: _, title: __, ...body } = json;
+		Object.assign(node, body);
+		delete node.required;
+	}
+	const rootFile = path.join(outDir, "config.schema.json");
+	await fs.writeFile(
+		rootFile,
+		JSON.stringify(
+			{ $schema: "http://json-schema.org/draft-07/schema#", ...root },
+			null,
+			"\t",
+		) + "\n",
+	);
+	buildLog.ok(`config → ${path.relative(PROJECT_ROOT, rootFile)}`);
+	return 0;
+}
+
+export async function configCommand([sub], flags) {
+	switch (sub) {
+		case "check":
+			return check(flags);
+		case "schema":
+			return schema(flags);
+		default:
+			buildLog.error(
+				`Uso: trp config <check|schema> (recibido: ${sub ?? "nada"})`,
+			);
+			return 1;
+	}
+}
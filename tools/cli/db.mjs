@@ -0,0 +1,65 @@
+import path from "path";
+import { buildLog } from "../build/utils.mjs";
+import { connectDb, moduleFiles } from "./runtime.mjs";
+
+// -----------------------------------------------------------------------------
+// trp db status  [--module=<modulo>] [--wait=<seg>]
+// trp db migrate [--module=<modulo>] [--dry-run] [--wait=<seg>]
+//
+// Registra <modulo>/migrations de todos los módulos, así que también detecta
+// tablas declaradas por dos módulos a la vez.
+// -----------------------------------------------------------------------------
+
+async function registerAll(db) {
+	for (const dir of await moduleFiles("*/migrations/", { dirs: true })) {
+		db.registerMigrations({ module: path.basename(path.dirname(dir)), dir });
+	}
+}
+
+async function status(db, flags) {
+	const rows = await db.migrationStatus(flags.module);
+	if (rows.length === 0) buildLog.info("No hay migraciones.");
+	for (const m of rows) {
+		const line = `${m.module} ${String(m.version).padStart(4, "0")}_${m.name}`;
+		if (m.state === "applied") buildLog.ok(`${line} (${m.appliedAt})`);
+		else if (m.state === "pending") buildLog.step(`${line}: pendiente`);
+		else buildLog.warn(`${line}: modificada tras aplicarse`);
+	}
+	return 0;
+}
+
+async function migrate(db, flags) {
+	const dryRun = Boolean(flags["dry-run"]);
+	const result = await db.runMigrations({ module: flags.module, dryRun });
+	if (result.applied.length === 0)
+		buildLog.ok("No hay migraciones pendientes.");
+	for (const m of result.applied) {
+		const line = `${m.module} ${m.version}_${m.name}`;
+		if (dryRun) {
+			buildLog.step(`${line} (dry-run)`);
+			for (const stmt of m.statements) console.log(stmt.replace(/^/gm, "    "));
+		} else {
+			buildLog.ok(line);
+		}
+	}
+	return 0;
+}
+
+export async function dbCommand([sub], flags) {
+	if (sub !== "status" && sub !== "migrate") {
+		buildLog.error(`Uso: trp db <status|migrate> (recibido: ${sub ?? "nada"})`);
+		return 1;
+	}
+	const db = await connectDb();
+	try {
+		// La BD puede estar arrancando (docker compose up): se reintenta un rato
+		const wait = Number(flags.wait ?? 15);
+		await db.waitForDb(wait * 1000);
+		await registerAll(db);
+		return sub === "status"
+			? await status(db, flags)
+			: await migrate(db, flags);
+	} finally {
+		await db.close();
+	}
+}
@@ -0,0 +1,21 @@
+import { buildLog } from "../build/utils.mjs";
+import { devNUI } from "../build/dev-nui.mjs";
+
+// -----------------------------------------------------------------------------
+// trp nui dev <modulo> [--app=nui] [--port=<puerto>]
+//
+// Vite en modo dev con HMR y el juego simulado (ver packages/nui/dev.ts):
+// mocks en <app>/dev/mocks.ts, fixtures en <app>/dev/fixtures.ts.
+// -----------------------------------------------------------------------------
+
+export async function nuiCommand([sub, moduleName], flags) {
+	if (sub !== "dev") {
+		buildLog.error(`Uso: trp nui dev <modulo> (recibido: ${sub ?? "nada"})`);
+		return 1;
+	}
+	const server = await devNUI(moduleName, { app: flags.app, port: flags.port });
+	// El server sigue escuchando hasta Ctrl+C
+	await new Promise((resolve) => process.once("SIGINT", resolve));
+	await server.close();
+	return 0;
+}
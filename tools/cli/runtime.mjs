@@ -0,0 +1,51 @@
+import path from "path";
+import { glob } from "glob";
+import { createJiti } from "jiti";
+import { PROJECT_ROOT } from "../build/utils.mjs";
+
+// -----------------------------------------------------------------------------
+// Carga el código TS de packages/ y [modules]/ fuera de FXServer (vía jiti).
+// Los alias reproducen los paths de tsconfig.base.json para que todos los
+// módulos compartan la MISMA instancia de cada paquete (p. ej. el registro
+// de schemas de @trp/config).
+// -----------------------------------------------------------------------------
+export const jiti = createJiti(import.meta.url, {
+	alias: {
+		"@trp/types": path.join(PROJECT_ROOT, "packages/types"),
+		"@trp/config": path.join(PROJECT_ROOT, "packages/config/src/index.ts"),
+		"@trp/db": path.join(PROJECT_ROOT, "packages/db/src/index.ts"),
+	},
+	moduleCache: true,
+});
+
+export function importTS(file) {
+	return jiti.import(file);
+}
+
+/** Archivos de los módulos que cumplen el patrón (relativo a cada módulo). */
+export function moduleFiles(pattern, { dirs = false } = {}) {
+	return glob(pattern, {
+		cwd: path.join(PROJECT_ROOT, "[modules]"),
+		absolute: true,
+		nodir: !dirs,
+		ignore: ["**/node_modules/**", "**/dist/**"],
+	});
+}
+
+/**
+ * Abre el pool de @trp/db con la config MySQL resuelta (capas, secretos...).
+ * Devuelve el módulo @trp/db listo para usar; ciérralo con db.close().
+ */
+export async function connectDb() {
+	const config = await importTS("@trp/config");
+	const db = await importTS("@trp/db");
+	// Sin réplicas: las migraciones y el estado siempre van al primario
+	const datasources = Object.fromEntries(
+		Object.entries(config.getDatasourceConfigs()).map(([name, ds]) => [
+			name,
+			{ ...ds, poolLimit: 2, replicas: [] },
+		]),
+	);
+	db.configureDatasources(datasources);
+	return db;
+}
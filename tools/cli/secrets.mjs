@@ -0,0 +1,94 @@
+import path from "path";
+import { promises as fs } from "fs";
+import { buildLog, PROJECT_ROOT } from "../build/utils.mjs";
+import { importTS } from "./runtime.mjs";
+
+// -----------------------------------------------------------------------------
+// trp secrets keygen
+// trp secrets encrypt [--in=config/secrets.jsonc] [--out=config/secrets.enc.json]
+// trp secrets decrypt [--in=config/secrets.enc.json]            (a stdout)
+// trp secrets rotate  [--in=config/secrets.enc.json] --new-key-env=<VAR>
+//
+// La clave se lee de TRP_SECRETS_KEY (nunca por argumento: acabaría en el
+// historial de la shell).
+// -----------------------------------------------------------------------------
+
+function resolvePath(value, fallback) {
+	return path.resolve(
+		PROJECT_ROOT,
+		typeof value === "string" ? value : fallback,
+	);
+}
+
+function requireKey(config, name = config.SECRETS_KEY_ENV) {
+	const key = process.env[name];
+	if (!key) throw new Error(`Falta la variable de entorno ${name}.`);
+	return key;
+}
+
+async function readEnvelope(config, file) {
+	const envelope = JSON.parse(await fs.readFile(file, "utf8"));
+	if (!config.isSecretsEnvelope(envelope)) {
+		throw new Error(`${file} no es un archivo de secretos cifrado.`);
+	}
+	return envelope;
+}
+
+async function writeEnvelope(file, envelope) {
+	await fs.writeFile(file, JSON.stringify(envelope, null, "\t") + "\n");
+}
+
+export async function secretsCommand([sub], flags) {
+	const config = await importTS("@trp/config");
+	switch (sub) {
+		case "keygen": {
+			console.log(config.generateSecretsKey());
+			return 0;
+		}
+		case "encrypt": {
+			const input = resolvePath(flags.in, "config/secrets.jsonc");
+			const output = resolvePath(flags.out, "config/secrets.enc.json");
+			const format = path.extname(input).slice(1) || "jsonc";
+			const plaintext = await fs.readFile(input, "utf8");
+			await writeEnvelope(
+				output,
+				config.encryptSecrets(plaintext, requireKey(config), format),
+			);
+			buildLog.ok(
+				`${path.relative(PROJECT_ROOT, input)} → ${path.relative(PROJECT_ROOT, output)}`,
+			);
+			buildLog.warn(
+				`Borra ${path.relative(PROJECT_ROOT, input)} si ya no lo necesitas en claro.`,
+			);
+			return 0;
+		}
+		case "decrypt": {
+			const input = resolvePath(flags.in, "config/secrets.enc.json");
+			const envelope = await readEnvelope(config, input);
+			process.stdout.write(config.decryptSecrets(envelope, requireKey(config)));
+			return 0;
+		}
+		case "rotate": {
+			if (typeof flags["new-key-env"] !== "string") {
+				throw new Error("Indica --new-key-env=<VAR> con la clave nueva.");
+			}
+			const input = resolvePath(flags.in, "config/secrets.enc.json");
+			const envelope = await readEnvelope(config, input);
+			const plaintext = config.decryptSecrets(envelope, requireKey(config));
+			const newKey = requireKey(config, flags["new-key-env"]);
+			await writeEnvelope(
+				input,
+				config.encryptSecrets(plaintext, newKey, envelope.format),
+			);
+			buildLog.ok(
+				`${path.relative(PROJECT_ROOT, input)} recifrado. Actualiza ${config.SECRETS_KEY_ENV} en los servidores.`,
+			);
+			return 0;
+		}
+		default:
+			buildLog.error(
+				`Uso: trp secrets <keygen|encrypt|decrypt|rotate> (recibido: ${sub ?? "nada"})`,
+			);
+			return 1;
+	}
+}
@@ -0,0 +1,47 @@
+import { buildLog } from "../build/utils.mjs";
+import { configCommand } from "./config.mjs";
+import { dbCommand } from "./db.mjs";
+import { nuiCommand } from "./nui.mjs";
+import { secretsCommand } from "./secrets.mjs";
+
+// -----------------------------------------------------------------------------
+// CLI del framework: pnpm trp <comando> <subcomando> [--flags]
+// -----------------------------------------------------------------------------
+const commands = {
+	config: configCommand,
+	db: dbCommand,
+	nui: nuiCommand,
+	secrets: secretsCommand,
+};
+
+function parseArgs(argv) {
+	const positional = [];
+	const flags = {};
+	for (const arg of argv) {
+		if (arg.startsWith("--")) {
+			const [key, ...rest] = arg.slice(2).split("=");
+			flags[key] = rest.length ? rest.join("=") : true;
+		} else {
+			positional.push(arg);
+		}
+	}
+	return { positional, flags };
+}
+
+(async function main() {
+	const { positional, flags } = parseArgs(process.argv.slice(2));
+	const [name, ...rest] = positional;
+	const command = commands[name];
+	if (!command) {
+		buildLog.error(
+			`Comando desconocido: ${name ?? "(ninguno)"}. Disponibles: ${Object.keys(commands).join(", ")}`,
+		);
+		process.exit(1);
+	}
+	try {
+		process.exitCode = (await command(rest, flags)) ?? 0;
+	} catch (e) {
+		buildLog.error(e?.stack || String(e));
+		process.exit(1);
+	}
+})();